@@ -2,6 +2,12 @@
 const BUILD_TIMESTAMP = Date.now();
 const CACHE_NAME = `pdf-navigator-v${BUILD_TIMESTAMP}`;
 const STATIC_CACHE_NAME = `pdf-navigator-static-v${BUILD_TIMESTAMP}`;
+// Must match OFFLINE_PACK_CACHE_PREFIX in src/lib/offlinePacks.ts
+const OFFLINE_PACK_CACHE_PREFIX = 'worksheet-pack-';
+// Results of narration availability checks. The name is fixed because BUILD_TIMESTAMP changes each time
+// the browser restarts the worker; results expire instead, so files added by a new build are found.
+const AUDIO_CHECK_CACHE_NAME = 'pdf-navigator-audio-checks-v1';
+const AUDIO_CHECK_MAX_AGE = 24 * 60 * 60 * 1000; // 1 day
 
 // Only preload essential files (removed default.mp4 as it no longer exists)
 const STATIC_ASSETS = [
@@ -43,7 +49,11 @@ self.addEventListener('activate', (event) => {
     caches.keys().then((cacheNames) => {
       return Promise.all(
         cacheNames.map((cacheName) => {
-          if (cacheName !== CACHE_NAME && cacheName !== STATIC_CACHE_NAME) {
+          // Offline worksheet packs are managed by the app and must survive updates
+          if (cacheName.startsWith(OFFLINE_PACK_CACHE_PREFIX)) {
+            return undefined;
+          }
+          if (cacheName !== CACHE_NAME && cacheName !== STATIC_CACHE_NAME && cacheName !== AUDIO_CHECK_CACHE_NAME) {
             console.log('Service Worker: Deleting old cache:', cacheName);
             return caches.delete(cacheName);
           }
@@ -67,11 +77,55 @@ self.addEventListener('activate', (event) => {
   );
 });
 
+// Answers a HEAD check for a narration file from any cached copy of it (including offline packs),
+// otherwise asks the network once and remembers the answer, misses included
+const checkAudioFile = async (url) => {
+  const cachedFile = await caches.match(url.pathname);
+  if (cachedFile) {
+    return new Response(null, {
+      status: 200,
+      headers: { 'Content-Type': cachedFile.headers.get('Content-Type') || 'audio/mpeg' }
+    });
+  }
+
+  // The Cache API only stores GET requests, so results are kept under their own key
+  const checksCache = await caches.open(AUDIO_CHECK_CACHE_NAME);
+  const checkKey = `${url.pathname}?availability`;
+  const cachedCheck = await checksCache.match(checkKey);
+  if (cachedCheck && Date.now() - Number(cachedCheck.headers.get('X-Checked-At')) < AUDIO_CHECK_MAX_AGE) {
+    return cachedCheck;
+  }
+
+  try {
+    const response = await fetch(url.pathname, { method: 'HEAD' });
+    const result = new Response(null, {
+      status: response.status,
+      headers: {
+        'Content-Type': response.headers.get('Content-Type') || '',
+        'X-Checked-At': String(Date.now())
+      }
+    });
+    if (response.status < 500) {
+      await checksCache.put(checkKey, result.clone());
+    }
+    return result;
+  } catch (error) {
+    // Offline and not downloaded: unavailable for now, but check again next time
+    return new Response(null, { status: 503 });
+  }
+};
+
 // Fetch event - serve from cache when possible
 self.addEventListener('fetch', (event) => {
   const { request } = event;
   const url = new URL(request.url);
 
+  // Narration availability checks
+  if (request.method === 'HEAD' && url.origin === location.origin && url.pathname.startsWith('/audio/')) {
+    event.respondWith(checkAudioFile(url));
+    return;
+  }
+
   // Skip non-GET requests
   if (request.method !== 'GET') {
     return;
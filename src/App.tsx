@@ -16,6 +16,10 @@ import QrScannerPage from "./pages/QrScannerPage";
 import WorksheetPage from "./pages/WorksheetPage";
 import AIChatPage from "./pages/AIChatPage";
 import ProfileSelectionPage from "./pages/ProfileSelectionPage";
+import OfflinePacksPage from "./pages/OfflinePacksPage";
+import WorksheetLinkPage from "./pages/WorksheetLinkPage";
+import RegionAuthoringPage from "./pages/RegionAuthoringPage";
+import GuidanceAuthoringPage from "./pages/GuidanceAuthoringPage";
 import QRScannerButton from "./components/QRScannerButton";
 import FullscreenButton from "./components/FullscreenButton";
 import PWAInstallPrompt from "./components/PWAInstallPrompt";
@@ -37,6 +41,9 @@ const App = () => (
             <Route path="/auth/forgot-password" element={<ForgotPasswordForm />} />
             <Route path="/reset-password" element={<ResetPasswordForm />} />
             
+            {/* Versioned QR / deep links - redirect to the worksheet route */}
+            <Route path="/w/:documentId" element={<WorksheetLinkPage />} />
+            
             {/* Profile Selection Page - accessible after login */}
             <Route path="/profile-selection" element={
               <ProtectedRoute requireActiveProfile={false}>
@@ -65,6 +72,33 @@ const App = () => (
                 <Index />
               </ProtectedRoute>
             } />
+            <Route path="/offline-packs" element={
+              <ProtectedRoute>
+                <OfflinePacksPage />
+              </ProtectedRoute>
+            } />
+
+            {/* Admin routes */}
+            <Route path="/admin/regions" element={
+              <ProtectedRoute requireAdmin requireActiveProfile={false}>
+                <RegionAuthoringPage />
+              </ProtectedRoute>
+            } />
+            <Route path="/admin/regions/:documentId" element={
+              <ProtectedRoute requireAdmin requireActiveProfile={false}>
+                <RegionAuthoringPage />
+              </ProtectedRoute>
+            } />
+            <Route path="/admin/guidance" element={
+              <ProtectedRoute requireAdmin requireActiveProfile={false}>
+                <GuidanceAuthoringPage />
+              </ProtectedRoute>
+            } />
+            <Route path="/admin/guidance/:documentId" element={
+              <ProtectedRoute requireAdmin requireActiveProfile={false}>
+                <GuidanceAuthoringPage />
+              </ProtectedRoute>
+            } />
             
             {/* 404 route */}
             <Route path="*" element={<NotFound />} />
@@ -2,8 +2,10 @@ import React from "react";
 import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { MessageSquareText } from "lucide-react";
-import { toast } from "@/components/ui/use-toast";
 import { cn } from "@/lib/utils";
+import { useAuth } from "@/contexts/AuthContext";
+import { getPageStateKey } from "@/lib/pageState";
+import { metadataWithoutAnswerKeys, withoutAnswerKey } from "@/lib/answerKey";
 import type { RegionData, WorksheetMetadata, GuidanceItem } from "@/types/worksheet";
 
 interface AIChatButtonProps {
@@ -30,38 +32,11 @@ const AIChatButton: React.FC<AIChatButtonProps> = ({
   pageDescriptionForAI
 }) => {
   const navigate = useNavigate();
+  const { activeStudentProfile } = useAuth();
 
   const handleClick = () => {
-    // Check if API key exists in localStorage
-    const apiKey = localStorage.getItem('gemini-api-key');
-    
-    if (!apiKey) {
-      // Prompt user for API key
-      const userApiKey = prompt(
-        'Please enter your Google Gemini API key to use AI chat:\n\n' +
-        'You can get your API key from: https://aistudio.google.com/app/apikey'
-      );
-      
-      if (!userApiKey) {
-        toast({
-          title: "API Key Required",
-          description: "You need to provide a Gemini API key to use AI chat.",
-          variant: "destructive"
-        });
-        return;
-      }
-      
-      // Save API key to localStorage
-      localStorage.setItem('gemini-api-key', userApiKey.trim());
-      
-      toast({
-        title: "API Key Saved",
-        description: "Your Gemini API key has been saved successfully.",
-      });
-    }
-    
     // DEBUG: Check session state before navigating to AI chat
-    const sessionKey = `worksheet_page_state_${worksheetId}_${pageNumber}`;
+    const sessionKey = getPageStateKey(worksheetId, pageNumber, activeStudentProfile?.id);
     const currentSessionState = sessionStorage.getItem(sessionKey);
     console.log('🔍 [DEBUG] AIChatButton - Session state BEFORE navigating to AI chat:', {
       sessionKey,
@@ -69,16 +44,16 @@ const AIChatButton: React.FC<AIChatButtonProps> = ({
       parsedState: currentSessionState ? JSON.parse(currentSessionState) : null
     });
     
-    // Navigate to chat page with state including worksheet data
+    // Navigate to chat page with state including worksheet data, minus answer keys so the tutor can't give answers away
     navigate(`/chat/${worksheetId}/${pageNumber}`, { 
       state: { 
         fromTextMode: isTextModeActive,
-        activeRegion: activeRegion,
-        activeGuidance: activeGuidance,
+        activeRegion: activeRegion ? withoutAnswerKey(activeRegion) : activeRegion,
+        activeGuidance: activeGuidance ? withoutAnswerKey(activeGuidance) : activeGuidance,
         currentStepIndex: currentStepIndex,
         currentGuidanceStepIndex: currentStepIndex,
         pdfUrl: pdfUrl,
-        worksheetMeta: worksheetMeta,
+        worksheetMeta: metadataWithoutAnswerKeys(worksheetMeta),
         pageDescriptionForAI: pageDescriptionForAI
       } 
     });
@@ -0,0 +1,133 @@
+import React, { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { CheckCircle2, RotateCcw, XCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getTextDirection } from "@/lib/textDirection";
+import { getReviewStepIndex } from "@/lib/answerKey";
+import { getAnswerItemKey, useCheckWorksheetAnswer, useWorksheetAnswers } from "@/hooks/useWorksheetAnswers";
+import type { ProgressItemType } from "@/hooks/useWorksheetProgress";
+import type { AnswerKey, AnswerPrompt } from "@/types/worksheet";
+
+interface AnswerEntryProps {
+  worksheetId: string;
+  pageNumber: number;
+  itemType: ProgressItemType;
+  itemKey: string;
+  answerKey: AnswerKey | AnswerPrompt;
+  stepCount: number;
+  onReviewStep: (stepIndex: number) => void;
+}
+
+// Answer step shown after the last guidance message of a region or guidance item
+const AnswerEntry: React.FC<AnswerEntryProps> = ({
+  worksheetId,
+  pageNumber,
+  itemType,
+  itemKey,
+  answerKey,
+  stepCount,
+  onReviewStep
+}) => {
+  const { t } = useTranslation();
+  const { data: savedAnswers } = useWorksheetAnswers(worksheetId, pageNumber);
+  const { mutate: checkAnswer, isPending: isChecking } = useCheckWorksheetAnswer();
+  const savedAnswer = savedAnswers?.[getAnswerItemKey(itemType, itemKey)];
+
+  const [answer, setAnswer] = useState('');
+  const [result, setResult] = useState<'correct' | 'wrong' | null>(null);
+
+  // Show the student's last answer when coming back to the item
+  useEffect(() => {
+    if (savedAnswer && result === null) {
+      setAnswer(savedAnswer.answer);
+      setResult(savedAnswer.isCorrect ? 'correct' : 'wrong');
+    }
+  }, [savedAnswer, result]);
+
+  const submitAnswer = (value: string) => {
+    if (!value.trim() || isChecking) return;
+    setAnswer(value);
+    checkAnswer(
+      { worksheetId, pageNumber, itemType, itemKey, answer: value, answerKey },
+      { onSuccess: (stored) => setResult(stored.isCorrect ? 'correct' : 'wrong') }
+    );
+  };
+
+  const reviewStepIndex = getReviewStepIndex(answerKey, stepCount);
+
+  return (
+    <div className="answer-entry" dir={t('common.language') === 'العربية' ? 'rtl' : 'ltr'}>
+      <p className="text-sm font-medium text-gray-700 mb-2">{t('answers.yourAnswer')}</p>
+
+      {answerKey.type === 'choice' ? (
+        <div className="grid gap-2">
+          {answerKey.options.map(option => (
+            <Button
+              key={option}
+              variant="outline"
+              className={cn(
+                "justify-start h-auto py-2 whitespace-normal text-left",
+                answer === option && result === 'correct' && "border-green-500 bg-green-50",
+                answer === option && result === 'wrong' && "border-red-500 bg-red-50"
+              )}
+              dir={getTextDirection(option)}
+              disabled={isChecking}
+              onClick={() => submitAnswer(option)}
+            >
+              {option}
+            </Button>
+          ))}
+        </div>
+      ) : (
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            submitAnswer(answer);
+          }}
+        >
+          <Input
+            value={answer}
+            onChange={(e) => {
+              setAnswer(e.target.value);
+              setResult(null);
+            }}
+            inputMode={answerKey.type === 'numeric' ? 'decimal' : 'text'}
+            dir={getTextDirection(answer)}
+            aria-label={t('answers.yourAnswer')}
+          />
+          <Button
+            type="submit"
+            disabled={!answer.trim() || isChecking}
+            className="bg-gradient-orange-magenta hover:bg-gradient-orange-magenta text-white"
+          >
+            {t('answers.check')}
+          </Button>
+        </form>
+      )}
+
+      {result === 'correct' && (
+        <p className="flex items-center gap-2 text-sm text-green-700 mt-3">
+          <CheckCircle2 className="h-4 w-4" />
+          {t('answers.correct')}
+        </p>
+      )}
+      {result === 'wrong' && (
+        <div className="mt-3 space-y-2">
+          <p className="flex items-center gap-2 text-sm text-red-700">
+            <XCircle className="h-4 w-4" />
+            {t('answers.incorrect')}
+          </p>
+          <Button variant="outline" size="sm" onClick={() => onReviewStep(reviewStepIndex)}>
+            <RotateCcw className="h-4 w-4" />
+            {t('answers.reviewStep', { step: reviewStepIndex + 1 })}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnswerEntry;
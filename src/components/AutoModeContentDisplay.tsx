@@ -1,101 +1,107 @@
 import React, { useState, useEffect, useRef } from "react";
 import { useTranslation } from "react-i18next";
 import { Button } from "@/components/ui/button";
-import { ChevronLeft, Sparkles, UserRound } from "lucide-react";
+import { ChevronLeft, Sparkles, UserRound, Volume2 } from "lucide-react";
+import { cn } from "@/lib/utils";
 import { getTextDirection } from "@/lib/textDirection";
+import { useGuidancePlayer } from "@/hooks/useGuidancePlayer";
+import { GuidancePlayerContext } from "@/contexts/GuidancePlayerContext";
 import VirtualTutorSelectionModal from "./VirtualTutorSelectionModal";
-import type { AutoModePageData, GuidanceItem } from "@/types/worksheet";
+import TutorAvatar from "./TutorAvatar";
+import AnswerEntry from "./AnswerEntry";
+import PlaybackBar from "./PlaybackBar";
+import type { StoredGuidanceData } from "@/lib/pageState";
+import type { AudioManifest, AutoModePageData, GuidanceItem } from "@/types/worksheet";
+import type { VirtualTutor } from "@/types/virtualTutor";
 
 interface AutoModeContentDisplayProps {
   worksheetId: string;
   pageNumber: number;
   autoModePageData: AutoModePageData;
   pdfUrl: string;
+  audioManifest?: AudioManifest;
   onTextModeChange?: (isTextMode: boolean) => void;
   onGuidanceStateChange?: (guidance: GuidanceItem | null, stepIndex: number) => void;
+  initialActiveGuidance?: GuidanceItem | null;
+  initialGuidanceStepIndex?: number;
+  allGuidanceState?: Record<number, StoredGuidanceData>;
 }
 
+const getGuidanceAudioName = (guidance: GuidanceItem) => guidance.audioName;
+
 const AutoModeContentDisplay: React.FC<AutoModeContentDisplayProps> = ({
   worksheetId,
   pageNumber,
   autoModePageData,
   pdfUrl,
+  audioManifest,
   onTextModeChange,
-  onGuidanceStateChange
+  onGuidanceStateChange,
+  initialActiveGuidance = null,
+  initialGuidanceStepIndex = 0,
+  allGuidanceState = {}
 }) => {
   const { t } = useTranslation();
   
-  const [activeGuidance, setActiveGuidance] = useState<GuidanceItem | null>(null);
-  const [currentStepIndex, setCurrentStepIndex] = useState<number>(0);
-  const [displayedMessages, setDisplayedMessages] = useState<string[]>([]);
-  const [isAudioPlaying, setIsAudioPlaying] = useState<boolean>(false);
-  const [audioAvailable, setAudioAvailable] = useState<boolean>(true);
-  const [audioCheckPerformed, setAudioCheckPerformed] = useState<boolean>(false);
+  const [hasRestoredInitialState, setHasRestoredInitialState] = useState<boolean>(false);
   
-  // Virtual tutor selection state
-  const [selectedTutorVideoUrl, setSelectedTutorVideoUrl] = useState<string>(() => {
-    return localStorage.getItem('selectedVirtualTutor') || '/video/1.mp4';
+  const player = useGuidancePlayer({
+    worksheetId,
+    items: autoModePageData.guidance,
+    getAudioName: getGuidanceAudioName,
+    audioManifest,
   });
+  const {
+    item: activeGuidance,
+    stepIndex: currentStepIndex,
+    displayedMessages,
+    hasNextStep,
+    stepAudio,
+    canNarrate,
+    open: openPlayer,
+    update: updatePlayer,
+    close: closePlayer,
+  } = player;
+  
+  // Virtual tutor selection state; the tutor itself is saved with the student profile
   const [showTutorSelectionModal, setShowTutorSelectionModal] = useState<boolean>(false);
   
-  const audioRef = useRef<HTMLAudioElement>(null);
-  const videoRef = useRef<HTMLVideoElement>(null);
   const textDisplayRef = useRef<HTMLDivElement>(null);
 
-  // Initial audio availability check
+  // Apply initial state restoration (only once when initialActiveGuidance is provided and not yet restored)
   useEffect(() => {
-    if (!audioCheckPerformed && autoModePageData.guidance.length > 0) {
-      const firstGuidance = autoModePageData.guidance[0];
-      if (!firstGuidance || !firstGuidance.audioName) {
-        setAudioAvailable(false);
-        setAudioCheckPerformed(true);
-        return;
+    if (initialActiveGuidance && !hasRestoredInitialState) {
+      const matchingGuidance = autoModePageData.guidance.find(guidance => guidance.title === initialActiveGuidance.title);
+      if (matchingGuidance && matchingGuidance.description && matchingGuidance.description.length > 0) {
+        openPlayer(matchingGuidance, initialGuidanceStepIndex);
+        setHasRestoredInitialState(true);
       }
-      
-      const audioPath = `/audio/${worksheetId}/${firstGuidance.audioName}_1.mp3`;
-      
-      const testAudio = new Audio();
-      let checkCompleted = false;
-      
-      const completeCheck = (available: boolean) => {
-        if (checkCompleted) return;
-        checkCompleted = true;
-        
-        setAudioAvailable(available);
-        setAudioCheckPerformed(true);
-        
-        testAudio.removeEventListener('canplaythrough', handleCanPlay);
-        testAudio.removeEventListener('error', handleError);
-      };
-      
-      const handleCanPlay = () => {
-        completeCheck(true);
-      };
-      
-      const handleError = () => {
-        completeCheck(false);
-      };
-      
-      testAudio.addEventListener('canplaythrough', handleCanPlay);
-      testAudio.addEventListener('error', handleError);
-      
-      const timeout = setTimeout(() => {
-        completeCheck(false);
-      }, 3000);
-      
-      testAudio.src = audioPath;
-      testAudio.load();
-      
-      return () => {
-        clearTimeout(timeout);
-        testAudio.removeEventListener('canplaythrough', handleCanPlay);
-        testAudio.removeEventListener('error', handleError);
-        if (!checkCompleted) {
-          testAudio.src = '';
-        }
-      };
     }
-  }, [worksheetId, autoModePageData.guidance, audioCheckPerformed]);
+  }, [initialActiveGuidance, initialGuidanceStepIndex, autoModePageData.guidance, hasRestoredInitialState, openPlayer]);
+
+  // Position of the open item on the page, so an edited copy of it can take its place
+  const activeGuidanceIndexRef = useRef<number>(-1);
+  
+  // The authoring preview passes edited guidance while an item is open; show its new steps in place
+  useEffect(() => {
+    if (!activeGuidance) {
+      activeGuidanceIndexRef.current = -1;
+      return;
+    }
+    
+    const guidanceIndex = autoModePageData.guidance.indexOf(activeGuidance);
+    if (guidanceIndex !== -1) {
+      activeGuidanceIndexRef.current = guidanceIndex;
+      return;
+    }
+    
+    const editedGuidance = autoModePageData.guidance[activeGuidanceIndexRef.current];
+    if (editedGuidance?.description?.length) {
+      updatePlayer(editedGuidance);
+    } else {
+      closePlayer();
+    }
+  }, [activeGuidance, autoModePageData.guidance, updatePlayer, closePlayer]);
 
   // Notify parent about text mode changes
   useEffect(() => {
@@ -119,149 +125,25 @@ const AutoModeContentDisplay: React.FC<AutoModeContentDisplayProps> = ({
     }
   }, [displayedMessages]);
 
-  // Audio and video synchronization
-  useEffect(() => {
-    if (!videoRef.current || !audioRef.current) return;
-    
-    const video = videoRef.current;
-    const audio = audioRef.current;
-    
-    const handleAudioPlaying = () => {
-      setIsAudioPlaying(true);
-      
-      if (videoRef.current && video.paused) {
-        video.currentTime = 10;
-        video.play().catch(err => {
-          if (err.name !== 'AbortError' && !err.message.includes('media was removed from the document')) {
-            // Suppress non-debug logs
-          }
-        });
-      }
-    };
-    
-    const handleAudioPause = () => {
-      setIsAudioPlaying(false);
-    };
-    
-    const handleAudioEnded = () => {
-      setIsAudioPlaying(false);
-    };
-    
-    const handleVideoTimeUpdate = () => {
-      if (video.currentTime >= 20) {
-        video.currentTime = 10;
-      }
-      
-      if (video.currentTime >= 9.9 && !isAudioPlaying) {
-        video.currentTime = 0;
-      }
-      
-      if (isAudioPlaying && video.currentTime < 10) {
-        video.currentTime = 10;
-      }
-    };
-    
-    audio.addEventListener('playing', handleAudioPlaying);
-    audio.addEventListener('pause', handleAudioPause);
-    audio.addEventListener('ended', handleAudioEnded);
-    video.addEventListener('timeupdate', handleVideoTimeUpdate);
-    
-    return () => {
-      audio.removeEventListener('playing', handleAudioPlaying);
-      audio.removeEventListener('pause', handleAudioPause);
-      audio.removeEventListener('ended', handleAudioEnded);
-      video.removeEventListener('timeupdate', handleVideoTimeUpdate);
-    };
-  }, [videoRef.current, audioRef.current, isAudioPlaying]);
-
-  const playAudioSegment = (audioName: string, stepIndex: number) => {
-    if (!audioRef.current) return;
-    
-    const audioPath = `/audio/${worksheetId}/${audioName}_${stepIndex + 1}.mp3`;
-    
-    audioRef.current.src = audioPath;
-    
-    audioRef.current.onerror = () => {
-      setIsAudioPlaying(false);
-    };
-    
-    audioRef.current.play().catch(err => {
-      setIsAudioPlaying(false);
-    });
-  };
-
   const handleGuidanceClick = (guidance: GuidanceItem) => {
     if (!guidance.description || guidance.description.length === 0) {
       return;
     }
     
-    setActiveGuidance(guidance);
-    setCurrentStepIndex(0);
-    setDisplayedMessages([guidance.description[0]]);
-    
-    if (videoRef.current && audioAvailable) {
-      videoRef.current.currentTime = 0;
-      videoRef.current.play().catch(err => {
-        if (err.name !== 'AbortError' && !err.message.includes('media was removed from the document')) {
-          // Suppress non-debug logs
-        }
-      });
-    }
-    
-    if (audioAvailable) {
-      setTimeout(() => {
-        playAudioSegment(guidance.audioName, 0);
-      }, 500);
-    }
-  };
-
-  const handleNextStep = () => {
-    if (activeGuidance && activeGuidance.description && currentStepIndex < activeGuidance.description.length - 1) {
-      if (audioRef.current) {
-        audioRef.current.pause();
-      }
-      
-      const nextStepIndex = currentStepIndex + 1;
-      setCurrentStepIndex(nextStepIndex);
-      
-      setDisplayedMessages(prevMessages => [
-        ...prevMessages,
-        activeGuidance.description[nextStepIndex]
-      ]);
-      
-      if (audioAvailable) {
-        setTimeout(() => {
-          playAudioSegment(activeGuidance.audioName, nextStepIndex);
-        }, 500);
-      }
-    }
-  };
-
-  const handleBackToTitles = () => {
-    setActiveGuidance(null);
-    setCurrentStepIndex(0);
-    setDisplayedMessages([]);
-    
-    if (audioRef.current) {
-      audioRef.current.pause();
-      audioRef.current.currentTime = 0;
-    }
-    
-    if (videoRef.current) {
-      videoRef.current.pause();
-    }
+    // Resume from the saved step for this guidance item, if any
+    const guidanceIndex = autoModePageData.guidance.indexOf(guidance);
+    const startingStepIndex = Math.min(
+      allGuidanceState[guidanceIndex]?.currentStepIndex || 0,
+      guidance.description.length - 1
+    );
     
-    setIsAudioPlaying(false);
+    openPlayer(guidance, startingStepIndex);
   };
 
   const handleMessageClick = (index: number) => {
-    if (!activeGuidance || !audioAvailable) return;
+    if (!activeGuidance || !canNarrate(activeGuidance)) return;
     
-    if (audioRef.current) {
-      audioRef.current.pause();
-    }
-    
-    playAudioSegment(activeGuidance.audioName, index);
+    player.replay(index);
     
     const messageElement = document.querySelector(`[data-message-index="${index}"]`);
     if (messageElement) {
@@ -272,44 +154,48 @@ const AutoModeContentDisplay: React.FC<AutoModeContentDisplayProps> = ({
     }
   };
 
-  const handleTutorSelected = (videoUrl: string) => {
-    setSelectedTutorVideoUrl(videoUrl);
-    localStorage.setItem('selectedVirtualTutor', videoUrl);
-    setShowTutorSelectionModal(false);
-    
-    if (videoRef.current) {
-      videoRef.current.load();
-      if (isAudioPlaying) {
-        videoRef.current.play().catch(err => {
-          if (err.name !== 'AbortError' && !err.message.includes('media was removed from the document')) {
-            // Suppress non-debug logs
-          }
-        });
-      }
+  // After a wrong answer, take the student back to the step that explains it
+  const handleReviewStep = (index: number) => {
+    const messageElement = textDisplayRef.current?.querySelector(`[data-message-index="${index}"]`);
+    if (messageElement) {
+      messageElement.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      messageElement.classList.add('message-review');
+      setTimeout(() => {
+        messageElement.classList.remove('message-review');
+      }, 1500);
     }
+    handleMessageClick(index);
+  };
+
+  const handleTutorSelected = (tutor: VirtualTutor) => {
+    // The video reloads with the new source and autoplays back into the current loop
+    player.selectTutor(tutor);
+    setShowTutorSelectionModal(false);
   };
 
   const handleVideoContextMenu = (e: React.MouseEvent) => {
     e.preventDefault();
   };
 
-  const hasNextStep = activeGuidance?.description && currentStepIndex < activeGuidance.description.length - 1;
+  // Guidance restored from the AI chat is a copy without its answer key, so the key is looked up by title
+  const activeGuidanceIndex = activeGuidance
+    ? autoModePageData.guidance.findIndex(g => g.title === activeGuidance.title)
+    : -1;
+  const activeAnswerKey = autoModePageData.guidance[activeGuidanceIndex]?.answerKey;
 
   if (activeGuidance) {
     // Text mode - showing guidance description
     return (
       <div className="worksheet-container text-mode">
-        <audio ref={audioRef} className="hidden" />
-        
         <Button
-          onClick={handleBackToTitles}
+          onClick={closePlayer}
           className="fixed top-4 left-4 z-70 rounded-full bg-gradient-orange-magenta hover:bg-gradient-orange-magenta text-white shadow-lg"
           size="icon"
         >
           <ChevronLeft className="h-5 w-5" />
         </Button>
         
-        {audioAvailable && (
+        {canNarrate(activeGuidance) && (
           <Button
             onClick={() => setShowTutorSelectionModal(true)}
             className="fixed top-24 right-4 z-70 rounded-full bg-gradient-orange-magenta hover:bg-gradient-orange-magenta text-white shadow-lg h-8 w-8"
@@ -320,18 +206,24 @@ const AutoModeContentDisplay: React.FC<AutoModeContentDisplayProps> = ({
         )}
         
         <div className="worksheet-text-display-container active">
-          {audioAvailable && (
+          {canNarrate(activeGuidance) && (player.tutor.type === 'avatar' ? (
+            <TutorAvatar
+              tutor={player.tutor}
+              isSpeaking={player.status === 'speaking'}
+              getLevel={player.getNarrationLevel}
+            />
+          ) : (
             <video 
-              ref={videoRef}
+              ref={player.attachVideo}
               className="video-element"
-              src={selectedTutorVideoUrl}
+              src={player.tutor.videoUrl}
               muted
               autoPlay
               playsInline
               preload="auto"
               onContextMenu={handleVideoContextMenu}
             />
-          )}
+          ))}
           
           <div 
             className="worksheet-text-display"
@@ -341,7 +233,7 @@ const AutoModeContentDisplay: React.FC<AutoModeContentDisplayProps> = ({
               {displayedMessages.map((message, index) => (
                 <div 
                   key={index} 
-                  className="chat-message"
+                  className={cn("chat-message", stepAudio?.[activeGuidance.audioName]?.[index] && "narrated")}
                   onClick={() => handleMessageClick(index)}
                   data-message-index={index}
                   role="button"
@@ -354,15 +246,36 @@ const AutoModeContentDisplay: React.FC<AutoModeContentDisplayProps> = ({
                   }}
                 >
                   <p>{message}</p>
+                  {stepAudio?.[activeGuidance.audioName]?.[index] && (
+                    <Volume2 className="chat-message-narrated-icon" aria-label={t('worksheet.narrated')} />
+                  )}
                 </div>
               ))}
+              {activeAnswerKey && !hasNextStep && (
+                <AnswerEntry
+                  key={activeGuidanceIndex}
+                  worksheetId={worksheetId}
+                  pageNumber={pageNumber}
+                  itemType="guidance"
+                  itemKey={String(activeGuidanceIndex)}
+                  answerKey={activeAnswerKey}
+                  stepCount={activeGuidance.description.length}
+                  onReviewStep={handleReviewStep}
+                />
+              )}
             </div>
           </div>
+          
+          {canNarrate(activeGuidance) && (
+            <GuidancePlayerContext.Provider value={player}>
+              <PlaybackBar />
+            </GuidancePlayerContext.Provider>
+          )}
         </div>
 
         {hasNextStep && (
           <Button 
-            onClick={handleNextStep} 
+            onClick={player.next} 
             className="next-button"
             variant="default"
           >
@@ -373,6 +286,7 @@ const AutoModeContentDisplay: React.FC<AutoModeContentDisplayProps> = ({
         <VirtualTutorSelectionModal
           isOpen={showTutorSelectionModal}
           onClose={() => setShowTutorSelectionModal(false)}
+          selectedTutorId={player.tutor.id}
           onSelectTutor={handleTutorSelected}
         />
       </div>
@@ -0,0 +1,61 @@
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { CloudDownload, CheckCircle2, Loader2 } from "lucide-react";
+import { useOfflinePackStatus, useDownloadOfflinePack } from "@/hooks/useOfflinePacks";
+import { isOfflinePackSupported } from "@/lib/offlinePacks";
+import type { WorksheetDataResponse } from "@/hooks/useWorksheetData";
+
+interface OfflinePackButtonProps {
+  worksheetId: string;
+  worksheetData: WorksheetDataResponse;
+  isTextModeActive: boolean;
+}
+
+const OfflinePackButton: React.FC<OfflinePackButtonProps> = ({
+  worksheetId,
+  worksheetData,
+  isTextModeActive
+}) => {
+  const { t } = useTranslation();
+  const { data: manifest } = useOfflinePackStatus(worksheetId);
+  const { mutate: downloadPack, isPending, progress } = useDownloadOfflinePack();
+
+  if (isTextModeActive || !isOfflinePackSupported()) return null;
+
+  const handleClick = () => {
+    if (isPending) return;
+    downloadPack({ worksheetId, data: worksheetData });
+  };
+
+  const progressPercent = progress && progress.total > 0
+    ? Math.round((progress.completed / progress.total) * 100)
+    : 0;
+
+  const label = isPending
+    ? t('offlinePacks.downloading', { percent: progressPercent })
+    : manifest
+      ? t('offlinePacks.downloaded')
+      : t('offlinePacks.download');
+
+  return (
+    <Button
+      onClick={handleClick}
+      className="fixed top-16 right-4 z-50 rounded-full bg-gradient-orange-magenta hover:bg-gradient-orange-magenta text-white shadow-lg"
+      size="icon"
+      aria-label={label}
+      title={label}
+      disabled={isPending}
+    >
+      {isPending ? (
+        <Loader2 className="h-5 w-5 animate-spin" />
+      ) : manifest ? (
+        <CheckCircle2 className="h-5 w-5" />
+      ) : (
+        <CloudDownload className="h-5 w-5" />
+      )}
+    </Button>
+  );
+};
+
+export default OfflinePackButton;
@@ -0,0 +1,114 @@
+import React, { useEffect, useRef, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { Document, Page, pdfjs } from "react-pdf";
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+pdfjs.GlobalWorkerOptions.workerSrc = `//unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.js`;
+
+interface PageNavigatorProps {
+  pdfUrl: string;
+  pageNumbers: number[];
+  currentPage: number;
+  onNavigate: (pageNumber: number) => void;
+  isTextModeActive: boolean;
+}
+
+const PageNavigator: React.FC<PageNavigatorProps> = ({
+  pdfUrl,
+  pageNumbers,
+  currentPage,
+  onNavigate,
+  isTextModeActive
+}) => {
+  const { t } = useTranslation();
+  const [showThumbnails, setShowThumbnails] = useState(false);
+  const activeThumbnailRef = useRef<HTMLButtonElement>(null);
+
+  const currentPosition = pageNumbers.indexOf(currentPage);
+  const previousPage = currentPosition > 0 ? pageNumbers[currentPosition - 1] : null;
+  const nextPage = currentPosition !== -1 && currentPosition < pageNumbers.length - 1 ? pageNumbers[currentPosition + 1] : null;
+
+  // Keep the current page's thumbnail in view when the strip opens or the page changes
+  useEffect(() => {
+    if (showThumbnails) {
+      activeThumbnailRef.current?.scrollIntoView({ inline: 'center', block: 'nearest' });
+    }
+  }, [showThumbnails, currentPage]);
+
+  if (isTextModeActive || pageNumbers.length <= 1) return null;
+
+  return (
+    <>
+      {showThumbnails && (
+        <div
+          className="fixed bottom-20 left-0 right-0 z-50 bg-white/95 border-t border-gray-200 shadow-lg"
+          data-swipe-ignore
+        >
+          <Document file={pdfUrl} loading={null}>
+            <div className="flex gap-3 overflow-x-auto px-4 py-3">
+              {pageNumbers.map(pageNumber => (
+                <button
+                  key={pageNumber}
+                  ref={pageNumber === currentPage ? activeThumbnailRef : undefined}
+                  type="button"
+                  onClick={() => onNavigate(pageNumber)}
+                  className={cn(
+                    "flex-shrink-0 w-16 rounded border-2 overflow-hidden bg-white",
+                    pageNumber === currentPage ? "border-orange-500" : "border-gray-200"
+                  )}
+                  aria-label={t('worksheet.goToPage', { page: pageNumber })}
+                  aria-current={pageNumber === currentPage ? 'page' : undefined}
+                >
+                  <Page
+                    pageNumber={pageNumber}
+                    width={60}
+                    renderTextLayer={false}
+                    renderAnnotationLayer={false}
+                    loading={<div className="h-20" />}
+                  />
+                  <span className="block text-xs text-gray-600 py-0.5">{pageNumber}</span>
+                </button>
+              ))}
+            </div>
+          </Document>
+        </div>
+      )}
+
+      <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 flex items-center gap-1 rounded-full bg-white shadow-lg border border-gray-200 p-1">
+        <Button
+          variant="ghost"
+          size="icon"
+          className="rounded-full h-9 w-9"
+          onClick={() => previousPage !== null && onNavigate(previousPage)}
+          disabled={previousPage === null}
+          aria-label={t('worksheet.previousPage')}
+        >
+          <ChevronLeft className="h-5 w-5" />
+        </Button>
+        <Button
+          variant="ghost"
+          className="rounded-full h-9 px-3 text-sm"
+          onClick={() => setShowThumbnails(show => !show)}
+          aria-expanded={showThumbnails}
+          aria-label={t('worksheet.showPages')}
+        >
+          {currentPage} / {pageNumbers[pageNumbers.length - 1]}
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="rounded-full h-9 w-9"
+          onClick={() => nextPage !== null && onNavigate(nextPage)}
+          disabled={nextPage === null}
+          aria-label={t('worksheet.nextPage')}
+        >
+          <ChevronRight className="h-5 w-5" />
+        </Button>
+      </div>
+    </>
+  );
+};
+
+export default PageNavigator;
@@ -0,0 +1,67 @@
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { FastForward, Pause, Play, RotateCcw } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { PLAYBACK_RATES } from "@/hooks/usePlaybackPreferences";
+import { useGuidancePlayerContext } from "@/contexts/GuidancePlayerContext";
+
+// Narration controls shown under the guidance messages
+const PlaybackBar: React.FC = () => {
+  const { t } = useTranslation();
+  const { status, togglePause, replay, playbackPreferences, updatePlaybackPreferences } = useGuidancePlayerContext();
+  const isPaused = status === 'paused';
+
+  // Each tap moves to the next speed, wrapping back to the slowest
+  const handleRateClick = () => {
+    const nextIndex = (PLAYBACK_RATES.indexOf(playbackPreferences.rate) + 1) % PLAYBACK_RATES.length;
+    updatePlaybackPreferences({ rate: PLAYBACK_RATES[nextIndex] });
+  };
+
+  return (
+    <div className="playback-bar" role="toolbar" aria-label={t('playback.controls')}>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => replay()}
+        aria-label={t('playback.replay')}
+        title={t('playback.replay')}
+      >
+        <RotateCcw className="h-4 w-4" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={togglePause}
+        disabled={status !== 'speaking' && !isPaused}
+        aria-label={isPaused ? t('playback.resume') : t('playback.pause')}
+        title={isPaused ? t('playback.resume') : t('playback.pause')}
+      >
+        {isPaused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="playback-rate"
+        onClick={handleRateClick}
+        aria-label={t('playback.speed', { rate: playbackPreferences.rate })}
+        title={t('playback.speed', { rate: playbackPreferences.rate })}
+      >
+        {playbackPreferences.rate}×
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className={cn(playbackPreferences.autoAdvance && "playback-toggle-on")}
+        onClick={() => updatePlaybackPreferences({ autoAdvance: !playbackPreferences.autoAdvance })}
+        aria-pressed={playbackPreferences.autoAdvance}
+        aria-label={t('playback.autoAdvance')}
+        title={t('playback.autoAdvance')}
+      >
+        <FastForward className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
+
+export default PlaybackBar;
@@ -0,0 +1,129 @@
+import React, { useEffect, useRef } from "react";
+import type { AvatarTutor, TutorAvatarColors } from "@/types/virtualTutor";
+
+interface TutorAvatarProps {
+  tutor: AvatarTutor;
+  isSpeaking: boolean;
+  // Loudness of the narration from 0 to 1, or null when it cannot be measured
+  getLevel: () => number | null;
+}
+
+const WIDTH = 400;
+const HEIGHT = 300;
+
+const DEFAULT_COLORS: Required<TutorAvatarColors> = {
+  skin: "#F2C6A0",
+  hair: "#3B2A20",
+  shirt: "#FF6600",
+  background: "#FFFFFF",
+};
+
+// Levels below these pick the closed and the half-open mouth; anything louder opens it wide
+const CLOSED_MOUTH_LEVEL = 0.08;
+const HALF_OPEN_MOUTH_LEVEL = 0.35;
+
+const BLINK_INTERVAL_MS = 4000;
+const BLINK_DURATION_MS = 150;
+
+// Speech synthesis cannot be measured, so its mouth moves to a syllable-like rhythm instead
+const getSpeechRhythmLevel = (time: number) => Math.abs(Math.sin(time / 90) * Math.sin(time / 230));
+
+const drawAvatar = (context: CanvasRenderingContext2D, colors: Required<TutorAvatarColors>, mouthLevel: number, isBlinking: boolean) => {
+  context.fillStyle = colors.background;
+  context.fillRect(0, 0, WIDTH, HEIGHT);
+
+  // Shoulders
+  context.fillStyle = colors.shirt;
+  context.beginPath();
+  context.ellipse(WIDTH / 2, HEIGHT + 20, 130, 90, 0, Math.PI, 0);
+  context.fill();
+
+  // Head and hair
+  context.fillStyle = colors.hair;
+  context.beginPath();
+  context.ellipse(WIDTH / 2, 118, 84, 90, 0, 0, Math.PI * 2);
+  context.fill();
+  context.fillStyle = colors.skin;
+  context.beginPath();
+  context.ellipse(WIDTH / 2, 135, 72, 82, 0, 0, Math.PI * 2);
+  context.fill();
+
+  // Eyes
+  context.fillStyle = "#2B2B2B";
+  [-28, 28].forEach(offset => {
+    context.beginPath();
+    if (isBlinking) {
+      context.fillRect(WIDTH / 2 + offset - 9, 120, 18, 3);
+    } else {
+      context.ellipse(WIDTH / 2 + offset, 121, 7, 9, 0, 0, Math.PI * 2);
+      context.fill();
+    }
+  });
+
+  // Mouth: closed, half open or wide open
+  const mouthY = 178;
+  context.fillStyle = "#7A2E2E";
+  context.strokeStyle = "#7A2E2E";
+  context.lineWidth = 4;
+  context.lineCap = "round";
+  context.beginPath();
+  if (mouthLevel < CLOSED_MOUTH_LEVEL) {
+    context.moveTo(WIDTH / 2 - 20, mouthY);
+    context.quadraticCurveTo(WIDTH / 2, mouthY + 8, WIDTH / 2 + 20, mouthY);
+    context.stroke();
+  } else {
+    const height = mouthLevel < HALF_OPEN_MOUTH_LEVEL ? 7 : 7 + 14 * Math.min(1, mouthLevel);
+    const width = mouthLevel < HALF_OPEN_MOUTH_LEVEL ? 16 : 20;
+    context.ellipse(WIDTH / 2, mouthY + 2, width, height, 0, 0, Math.PI * 2);
+    context.fill();
+  }
+};
+
+// Drawn tutor whose mouth follows the narration's loudness, shown in place of the tutor video
+const TutorAvatar: React.FC<TutorAvatarProps> = ({ tutor, isSpeaking, getLevel }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // Read by the animation loop, which outlives renders
+  const latestRef = useRef({ tutor, isSpeaking, getLevel });
+  latestRef.current = { tutor, isSpeaking, getLevel };
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext("2d");
+    if (!context) return;
+
+    let frame = 0;
+    let mouthLevel = 0;
+
+    const render = (time: number) => {
+      const { tutor, isSpeaking, getLevel } = latestRef.current;
+      const level = isSpeaking ? getLevel() ?? getSpeechRhythmLevel(time) : 0;
+      // Ease towards the new level so the mouth does not flicker between shapes
+      mouthLevel = mouthLevel * 0.5 + level * 0.5;
+
+      drawAvatar(
+        context,
+        { ...DEFAULT_COLORS, ...tutor.colors },
+        mouthLevel,
+        time % BLINK_INTERVAL_MS < BLINK_DURATION_MS
+      );
+      frame = requestAnimationFrame(render);
+    };
+    frame = requestAnimationFrame(render);
+
+    return () => {
+      cancelAnimationFrame(frame);
+    };
+  }, []);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="video-element"
+      width={WIDTH}
+      height={HEIGHT}
+      role="img"
+      aria-label={tutor.name}
+    />
+  );
+};
+
+export default TutorAvatar;
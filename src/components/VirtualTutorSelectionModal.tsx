@@ -4,41 +4,27 @@ import { useTranslation } from "react-i18next";
 import i18n from "@/i18n";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
-
-interface VirtualTutor {
-  id: string;
-  name: string;
-  imageSrc: string;
-  videoSrc: string;
-}
-
-const VIRTUAL_TUTORS: VirtualTutor[] = [
-  {
-    id: "tutor1",
-    name: "Virtual Tutor 1",
-    imageSrc: "/video/1.jpg",
-    videoSrc: "/video/1.mp4"
-  },
-  {
-    id: "tutor2", 
-    name: "Virtual Tutor 2",
-    imageSrc: "/video/2.jpg",
-    videoSrc: "/video/2.mp4"
-  }
-];
+import { Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useVirtualTutors } from "@/hooks/useVirtualTutors";
+import type { VirtualTutor } from "@/types/virtualTutor";
 
 interface VirtualTutorSelectionModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSelectTutor: (videoSrc: string) => void;
+  selectedTutorId?: string;
+  onSelectTutor: (tutor: VirtualTutor) => void;
 }
 
+// Lists the tutors from public/video/tutors.json whose videos are deployed
 const VirtualTutorSelectionModal: React.FC<VirtualTutorSelectionModalProps> = ({
   isOpen,
   onClose,
+  selectedTutorId,
   onSelectTutor
 }) => {
   const { t } = useTranslation();
+  const { data: tutors = [], isLoading } = useVirtualTutors();
   const [isI18nReady, setIsI18nReady] = useState(false);
 
   // Wait for i18next to be ready before rendering translated content
@@ -58,8 +44,8 @@ const VirtualTutorSelectionModal: React.FC<VirtualTutorSelectionModalProps> = ({
     }
   }, []);
 
-  const handleTutorClick = (videoSrc: string) => {
-    onSelectTutor(videoSrc);
+  const handleTutorClick = (tutor: VirtualTutor) => {
+    onSelectTutor(tutor);
   };
 
   // Show loading while i18next is initializing
@@ -85,25 +71,49 @@ const VirtualTutorSelectionModal: React.FC<VirtualTutorSelectionModalProps> = ({
           </DialogDescription>
         </DialogHeader>
         
-        <div className="grid grid-cols-2 gap-4 p-4">
-          {VIRTUAL_TUTORS.map((tutor) => (
-            <div
-              key={tutor.id}
-              className="w-32 h-32 cursor-pointer rounded-lg border-2 border-gray-200 hover:border-blue-400 hover:bg-blue-50 transition-all duration-200 overflow-hidden mx-auto"
-              onClick={() => handleTutorClick(tutor.videoSrc)}
-            >
-              <img
-                src={tutor.imageSrc}
-                alt={tutor.name}
-                className="w-full h-full object-cover"
-                onError={(e) => {
-                  // Fallback if image fails to load
-                  e.currentTarget.style.display = 'none';
-                }}
-              />
-            </div>
-          ))}
-        </div>
+        {isLoading ? (
+          <div className="flex justify-center p-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : tutors.length === 0 ? (
+          <p className="text-center text-gray-500 p-4" dir={t('common.language') === 'العربية' ? 'rtl' : 'ltr'}>
+            {t('virtualTutor.unavailable')}
+          </p>
+        ) : (
+          <div className="grid grid-cols-2 gap-4 p-4">
+            {tutors.map((tutor) => (
+              <button
+                key={tutor.id}
+                type="button"
+                className="flex flex-col items-center gap-2 mx-auto"
+                onClick={() => handleTutorClick(tutor)}
+                aria-pressed={tutor.id === selectedTutorId}
+              >
+                <span
+                  className={cn(
+                    "w-32 h-32 flex items-center justify-center rounded-lg border-2 border-gray-200 hover:border-blue-400 hover:bg-blue-50 transition-all duration-200 overflow-hidden",
+                    tutor.id === selectedTutorId && "border-blue-500"
+                  )}
+                >
+                  {tutor.thumbnailUrl ? (
+                    <img
+                      src={tutor.thumbnailUrl}
+                      alt=""
+                      className="w-full h-full object-cover"
+                      onError={(e) => {
+                        // Fallback if image fails to load
+                        e.currentTarget.style.display = 'none';
+                      }}
+                    />
+                  ) : (
+                    <span className="text-3xl font-semibold text-gray-400">{tutor.name.charAt(0)}</span>
+                  )}
+                </span>
+                <span className="text-sm text-gray-700">{tutor.name}</span>
+              </button>
+            ))}
+          </div>
+        )}
         
         <div className="flex justify-center p-4">
           <Button 
@@ -0,0 +1,30 @@
+import React, { useRef } from "react";
+import { Page } from "react-pdf";
+import { drawWatermark, getWatermarkText, type WatermarkIdentity } from "@/lib/watermark";
+
+type WatermarkedPageProps = React.ComponentProps<typeof Page> & {
+  // Set on DRM-protected pages; the page renders as usual without it
+  watermark?: WatermarkIdentity | null;
+};
+
+// react-pdf page that draws the watermark into its canvas each time the page is rendered
+const WatermarkedPage: React.FC<WatermarkedPageProps> = ({ watermark, onRenderSuccess, ...pageProps }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  return (
+    <Page
+      {...pageProps}
+      // A new identity needs a clean canvas, so the page is rendered again rather than drawn over
+      key={watermark ? `${watermark.studentName}|${watermark.email}` : "plain"}
+      canvasRef={canvasRef}
+      onRenderSuccess={(page) => {
+        if (watermark && canvasRef.current) {
+          drawWatermark(canvasRef.current, getWatermarkText(watermark));
+        }
+        onRenderSuccess?.(page);
+      }}
+    />
+  );
+};
+
+export default WatermarkedPage;
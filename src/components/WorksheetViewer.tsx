@@ -1,13 +1,29 @@
 import React, { useState, useEffect, useRef, useMemo } from "react";
 import { useTranslation } from "react-i18next";
+import { useNavigate } from "react-router-dom";
 import { Document, Page, pdfjs } from "react-pdf";
 import "../styles/Worksheet.css";
 import { toast } from "@/components/ui/use-toast";
 import { Button } from "@/components/ui/button";
-import { ChevronLeft, Sparkles, UserRound } from "lucide-react";
+import { ChevronLeft, Loader2, RotateCw, Sparkles, UserRound, Volume2 } from "lucide-react";
+import { cn } from "@/lib/utils";
 import { getTextDirection } from "@/lib/textDirection";
+import { useGuidancePlayer } from "@/hooks/useGuidancePlayer";
+import { useProtectedPage } from "@/hooks/useProtectedPage";
+import { useAuth } from "@/contexts/AuthContext";
+import { shouldUseSupabase } from "@/lib/supabase";
+import { isDrmProtectedPage } from "@/lib/watermark";
+import { GuidancePlayerContext } from "@/contexts/GuidancePlayerContext";
 import VirtualTutorSelectionModal from "./VirtualTutorSelectionModal";
-import type { WorksheetMetadata, RegionData } from "@/types/worksheet";
+import TutorAvatar from "./TutorAvatar";
+import AnswerEntry from "./AnswerEntry";
+import PlaybackBar from "./PlaybackBar";
+import WatermarkedPage from "./WatermarkedPage";
+import { useZoomPan } from "@/hooks/useZoomPan";
+import { getRegionClipPath, getRegionShapePath } from "@/lib/regionShape";
+import { getRegionTypeDefinition } from "./regions/regionTypes";
+import type { AudioManifest, WorksheetMetadata, RegionData } from "@/types/worksheet";
+import type { VirtualTutor } from "@/types/virtualTutor";
 
 pdfjs.GlobalWorkerOptions.workerSrc = `//unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.js`;
 
@@ -20,49 +36,58 @@ interface WorksheetViewerProps {
   pageIndex: number;
   worksheetMeta: WorksheetMetadata;
   pdfUrl: string;
+  audioManifest?: AudioManifest;
   onTextModeChange?: (isTextMode: boolean) => void;
   initialActiveRegion?: RegionData | null;
   initialCurrentStepIndex?: number;
   onRegionStateChange?: (region: RegionData | null, stepIndex: number) => void;
   allRegionsState?: Record<string, StoredRegionData>;
+  onDocumentLoad?: (numPages: number) => void;
+  onZoomChange?: (isZoomed: boolean) => void;
 }
 
+// Widest the page is laid out at before zooming
+const MAX_PAGE_WIDTH = 600;
+
+// Regions are narrated from the files named after them
+const getRegionAudioName = (region: RegionData) => region.name;
+
 const WorksheetViewer: React.FC<WorksheetViewerProps> = ({ 
   worksheetId, 
   pageIndex, 
   worksheetMeta,
   pdfUrl,
+  audioManifest,
   onTextModeChange,
   initialActiveRegion,
   initialCurrentStepIndex = 0,
   onRegionStateChange,
-  allRegionsState = {}
+  allRegionsState = {},
+  onDocumentLoad,
+  onZoomChange
 }) => {
   const { t } = useTranslation();
+  const navigate = useNavigate();
   const [numPages, setNumPages] = useState<number | null>(null);
   
   const [pdfDimensions, setPdfDimensions] = useState({ width: 0, height: 0 });
-  const [scaleFactor, setScaleFactor] = useState(1);
-  const [pdfPosition, setPdfPosition] = useState({ top: 0, left: 0 });
+  const [baseWidth, setBaseWidth] = useState(() => Math.min(window.innerWidth, MAX_PAGE_WIDTH));
   
-  const [activeRegion, setActiveRegion] = useState<RegionData | null>(null);
-  const [currentStepIndex, setCurrentStepIndex] = useState<number>(0);
+  // Page size at 100% zoom, in CSS pixels
+  const baseHeight = pdfDimensions.width > 0 ? baseWidth * (pdfDimensions.height / pdfDimensions.width) : 0;
+  const { viewportRef, renderZoom, isZoomed, resetZoom, contentStyle, viewportHandlers } = useZoomPan(baseWidth, baseHeight);
   
-  const [isTextMode, setIsTextMode] = useState<boolean>(false);
+  // Regions are stored in PDF points; the page is rendered at baseWidth * renderZoom pixels wide.
+  // Overlays live inside the zoom layer with the page, so its transform keeps them aligned.
+  const renderWidth = baseWidth * renderZoom;
+  const scaleFactor = pdfDimensions.width > 0 ? renderWidth / pdfDimensions.width : 1;
   
-  const [displayedMessages, setDisplayedMessages] = useState<string[]>([]);
+  // Audio, hint and video regions open over the page instead of entering text mode
+  const [openInlineRegion, setOpenInlineRegion] = useState<RegionData | null>(null);
   
-  const [isCurrentPageDrmProtected, setIsCurrentPageDrmProtected] = useState<boolean>(false);
-  
-  const [isAudioPlaying, setIsAudioPlaying] = useState<boolean>(false);
-  const [audioAvailable, setAudioAvailable] = useState<boolean>(true);
-  const [audioCheckPerformed, setAudioCheckPerformed] = useState<boolean>(false);
+  const [isTextMode, setIsTextMode] = useState<boolean>(false);
   
-  // Virtual tutor selection state
-  const [selectedTutorVideoUrl, setSelectedTutorVideoUrl] = useState<string>(() => {
-    // Load saved tutor preference from localStorage, default to Virtual Tutor 1
-    return localStorage.getItem('selectedVirtualTutor') || '/video/1.mp4';
-  });
+  // Virtual tutor selection state; the tutor itself is saved with the student profile
   const [showTutorSelectionModal, setShowTutorSelectionModal] = useState<boolean>(false);
   
   // State to track if initial state has been restored for the current worksheet/page
@@ -73,9 +98,7 @@ const WorksheetViewer: React.FC<WorksheetViewerProps> = ({
   const prevPageIndexRef = useRef<number>(pageIndex);
   
   const pdfContainerRef = useRef<HTMLDivElement>(null);
-  const pdfRef = useRef<HTMLCanvasElement>(null);
-  const audioRef = useRef<HTMLAudioElement>(null);
-  const videoRef = useRef<HTMLVideoElement>(null);
+  const pdfAreaRef = useRef<HTMLDivElement>(null);
   const textDisplayRef = useRef<HTMLDivElement>(null);
 
   // Filter regions for current page and ensure description is properly split into paragraphs
@@ -107,15 +130,40 @@ const WorksheetViewer: React.FC<WorksheetViewerProps> = ({
       });
   }, [worksheetMeta, pageIndex]);
 
-  // Check if current page is DRM protected
-  useEffect(() => {
-    if (worksheetMeta) {
-      const { drmProtectedPages } = worksheetMeta;
-      const isDrmProtected = drmProtectedPages === true || 
-        (Array.isArray(drmProtectedPages) && drmProtectedPages.includes(pageIndex));
-      setIsCurrentPageDrmProtected(isDrmProtected);
-    }
-  }, [worksheetMeta, pageIndex]);
+  const guidanceRegions = useMemo(() => regions
+    .filter(region => getRegionTypeDefinition(region.type).opensGuidance), [regions]);
+  const player = useGuidancePlayer({
+    worksheetId,
+    items: guidanceRegions,
+    getAudioName: getRegionAudioName,
+    audioManifest,
+  });
+  const {
+    item: activeRegion,
+    stepIndex: currentStepIndex,
+    displayedMessages,
+    hasNextStep,
+    stepAudio,
+    canNarrate,
+    open: openPlayer,
+    close: closePlayer,
+  } = player;
+
+  // Protected pages carry a watermark naming the student they were shown to
+  const isCurrentPageDrmProtected = isDrmProtectedPage(worksheetMeta?.drmProtectedPages, pageIndex);
+  const { user, activeStudentProfile } = useAuth();
+  const watermark = isCurrentPageDrmProtected
+    ? { email: user?.email, studentName: activeStudentProfile?.profile_name }
+    : null;
+
+  // Supabase serves protected pages blanked in the PDF and renders them as images instead;
+  // local worksheets only have the full PDF, which is blurred outside the regions
+  const isServerRenderedPage = isCurrentPageDrmProtected && shouldUseSupabase();
+  const {
+    data: protectedPage,
+    isError: isProtectedPageError,
+    refetch: refetchProtectedPage,
+  } = useProtectedPage(worksheetId, pageIndex, isServerRenderedPage);
 
   // Reset component state ONLY when worksheet or page genuinely changes
   useEffect(() => {
@@ -124,140 +172,46 @@ const WorksheetViewer: React.FC<WorksheetViewerProps> = ({
     
     if (worksheetChanged || pageChanged) {
       // Reset all state to defaults
-      setActiveRegion(null);
-      setCurrentStepIndex(0);
-      setDisplayedMessages([]);
+      closePlayer();
+      setOpenInlineRegion(null);
       setIsTextMode(false);
-      setIsAudioPlaying(false);
-      setAudioCheckPerformed(false);
       setHasRestoredInitialState(false);
+      resetZoom();
       
       // Notify parent about text mode change
       if (onTextModeChange) {
         onTextModeChange(false);
       }
       
-      if (audioRef.current) {
-        audioRef.current.pause();
-        audioRef.current.currentTime = 0;
-      }
-      
-      if (videoRef.current) {
-        videoRef.current.pause();
-        videoRef.current.currentTime = 0;
-      }
-      
       // Update refs for next comparison
       prevWorksheetIdRef.current = worksheetId;
       prevPageIndexRef.current = pageIndex;
     }
-  }, [worksheetId, pageIndex, onTextModeChange]);
+  }, [worksheetId, pageIndex, onTextModeChange, resetZoom, closePlayer]);
 
   // Apply initial state restoration (only once when initialActiveRegion is provided and not yet restored)
   useEffect(() => {
     if (initialActiveRegion && regions.length > 0 && !hasRestoredInitialState) {
       // Find the matching region in the current regions
       const matchingRegion = regions.find(region => region.id === initialActiveRegion.id);
-      if (matchingRegion) {
-        setActiveRegion(matchingRegion);
-        setCurrentStepIndex(initialCurrentStepIndex);
+      if (matchingRegion && getRegionTypeDefinition(matchingRegion.type).opensGuidance) {
         setIsTextMode(true);
         
-        // Restore displayed messages up to the current step
+        // Restore displayed messages up to the current step and narrate it
         if (matchingRegion.description && matchingRegion.description.length > 0) {
-          const messagesToDisplay = matchingRegion.description.slice(0, initialCurrentStepIndex + 1);
-          setDisplayedMessages(messagesToDisplay);
+          openPlayer(matchingRegion, initialCurrentStepIndex);
           
           // Notify parent about text mode change
           if (onTextModeChange) {
             onTextModeChange(true);
           }
-          
-          // Start video if available
-          if (videoRef.current && audioAvailable) {
-            videoRef.current.currentTime = 0;
-            videoRef.current.play().catch(err => {
-              // Suppress expected errors when video is removed from DOM
-              if (err.name !== 'AbortError' && !err.message.includes('media was removed from the document')) {
-                // Suppress non-debug logs
-              }
-            });
-          }
-          
-          // Play audio for current step if available
-          if (audioAvailable) {
-            setTimeout(() => {
-              playAudioSegment(matchingRegion.name, initialCurrentStepIndex);
-            }, 500);
-          }
         }
         
         // Mark initial state as restored
         setHasRestoredInitialState(true);
       }
     }
-  }, [initialActiveRegion, initialCurrentStepIndex, regions, hasRestoredInitialState, onTextModeChange, audioAvailable]);
-
-  // Initial audio availability check - performed once when worksheet/page loads
-  useEffect(() => {
-    if (!audioCheckPerformed && regions.length > 0) {
-      const firstRegion = regions[0];
-      if (!firstRegion || !firstRegion.name) {
-        setAudioAvailable(false);
-        setAudioCheckPerformed(true);
-        return;
-      }
-      
-      const audioPath = `/audio/${worksheetId}/${firstRegion.name}_1.mp3`;
-      
-      // Create a temporary audio object for testing
-      const testAudio = new Audio();
-      let checkCompleted = false;
-      
-      const completeCheck = (available: boolean) => {
-        if (checkCompleted) return;
-        checkCompleted = true;
-        
-        setAudioAvailable(available);
-        setAudioCheckPerformed(true);
-        
-        // Clean up event listeners
-        testAudio.removeEventListener('canplaythrough', handleCanPlay);
-        testAudio.removeEventListener('error', handleError);
-      };
-      
-      const handleCanPlay = () => {
-        completeCheck(true);
-      };
-      
-      const handleError = () => {
-        completeCheck(false);
-      };
-      
-      // Set up event listeners
-      testAudio.addEventListener('canplaythrough', handleCanPlay);
-      testAudio.addEventListener('error', handleError);
-      
-      // Set timeout to handle cases where neither event fires
-      const timeout = setTimeout(() => {
-        completeCheck(false);
-      }, 3000); // 3 second timeout
-      
-      // Start the test
-      testAudio.src = audioPath;
-      testAudio.load();
-      
-      // Cleanup function
-      return () => {
-        clearTimeout(timeout);
-        testAudio.removeEventListener('canplaythrough', handleCanPlay);
-        testAudio.removeEventListener('error', handleError);
-        if (!checkCompleted) {
-          testAudio.src = '';
-        }
-      };
-    }
-  }, [worksheetId, pageIndex, regions, audioCheckPerformed]);
+  }, [initialActiveRegion, initialCurrentStepIndex, regions, hasRestoredInitialState, onTextModeChange, openPlayer]);
 
   // Notify parent when region state changes
   useEffect(() => {
@@ -267,13 +221,9 @@ const WorksheetViewer: React.FC<WorksheetViewerProps> = ({
   }, [activeRegion, currentStepIndex, onRegionStateChange]);
 
   const handleMessageClick = (index: number) => {
-    if (!activeRegion || !audioAvailable) return;
-    
-    if (audioRef.current) {
-      audioRef.current.pause();
-    }
+    if (!activeRegion || !canNarrate(activeRegion)) return;
     
-    playAudioSegment(activeRegion.name, index);
+    player.replay(index);
     
     const messageElement = document.querySelector(`[data-message-index="${index}"]`);
     if (messageElement) {
@@ -283,40 +233,44 @@ const WorksheetViewer: React.FC<WorksheetViewerProps> = ({
       }, 200);
     }
   };
+
+  // After a wrong answer, take the student back to the step that explains it
+  const handleReviewStep = (index: number) => {
+    const messageElement = textDisplayRef.current?.querySelector(`[data-message-index="${index}"]`);
+    if (messageElement) {
+      messageElement.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      messageElement.classList.add('message-review');
+      setTimeout(() => {
+        messageElement.classList.remove('message-review');
+      }, 1500);
+    }
+    handleMessageClick(index);
+  };
   
+  // Lay the page out at the available width, capped on large screens
   useEffect(() => {
-    const calculatePdfPositionAndScale = () => {
-      if (pdfContainerRef.current) {
-        const pdfCanvas = pdfContainerRef.current.querySelector('.react-pdf__Page__canvas') as HTMLCanvasElement | null;
-        
-        if (pdfCanvas && pdfDimensions.width > 0) {
-          const containerRect = pdfContainerRef.current.getBoundingClientRect();
-          const canvasRect = pdfCanvas.getBoundingClientRect();
-          
-          const top = canvasRect.top - containerRect.top;
-          const left = canvasRect.left - containerRect.left;
-          setPdfPosition({ top, left });
-          
-          const newScaleFactor = canvasRect.width / pdfDimensions.width;
-          setScaleFactor(newScaleFactor);
-        }
-      }
-    };
-    
-    calculatePdfPositionAndScale();
+    const pdfArea = pdfAreaRef.current;
+    if (!pdfArea) return;
     
     const resizeObserver = new ResizeObserver(() => {
-      calculatePdfPositionAndScale();
+      // The area has no width while hidden behind text mode
+      if (pdfArea.clientWidth > 0) {
+        setBaseWidth(Math.min(pdfArea.clientWidth, MAX_PAGE_WIDTH));
+      }
     });
-    
-    if (pdfContainerRef.current) {
-      resizeObserver.observe(pdfContainerRef.current);
-    }
+    resizeObserver.observe(pdfArea);
     
     return () => {
       resizeObserver.disconnect();
     };
-  }, [pdfDimensions.width, pdfContainerRef.current]);
+  }, []);
+  
+  // Let the parent pause page swipes while the page is zoomed in
+  useEffect(() => {
+    if (onZoomChange) {
+      onZoomChange(isZoomed);
+    }
+  }, [isZoomed, onZoomChange]);
 
   useEffect(() => {
     if (textDisplayRef.current && displayedMessages.length > 0) {
@@ -325,64 +279,11 @@ const WorksheetViewer: React.FC<WorksheetViewerProps> = ({
     }
   }, [displayedMessages]);
 
-  useEffect(() => {
-    if (!videoRef.current || !audioRef.current) return;
-    
-    const video = videoRef.current;
-    const audio = audioRef.current;
-    
-    const handleAudioPlaying = () => {
-      setIsAudioPlaying(true);
-      
-      // Check if video element still exists before attempting to play
-      if (videoRef.current && video.paused) {
-        video.currentTime = 10;
-        video.play().catch(err => {
-          // Suppress expected errors when video is removed from DOM or interrupted
-          if (err.name !== 'AbortError' && !err.message.includes('media was removed from the document')) {
-            // Suppress non-debug logs
-          }
-        });
-      }
-    };
-    
-    const handleAudioPause = () => {
-      setIsAudioPlaying(false);
-    };
-    
-    const handleAudioEnded = () => {
-      setIsAudioPlaying(false);
-    };
-    
-    const handleVideoTimeUpdate = () => {
-      if (video.currentTime >= 20) {
-        video.currentTime = 10;
-      }
-      
-      if (video.currentTime >= 9.9 && !isAudioPlaying) {
-        video.currentTime = 0;
-      }
-      
-      if (isAudioPlaying && video.currentTime < 10) {
-        video.currentTime = 10;
-      }
-    };
-    
-    audio.addEventListener('playing', handleAudioPlaying);
-    audio.addEventListener('pause', handleAudioPause);
-    audio.addEventListener('ended', handleAudioEnded);
-    video.addEventListener('timeupdate', handleVideoTimeUpdate);
-    
-    return () => {
-      audio.removeEventListener('playing', handleAudioPlaying);
-      audio.removeEventListener('pause', handleAudioPause);
-      audio.removeEventListener('ended', handleAudioEnded);
-      video.removeEventListener('timeupdate', handleVideoTimeUpdate);
-    };
-  }, [videoRef.current, audioRef.current, isAudioPlaying]);
-
   const onDocumentLoadSuccess = ({ numPages }: { numPages: number }) => {
     setNumPages(numPages);
+    if (onDocumentLoad) {
+      onDocumentLoad(numPages);
+    }
   };
 
   const onDocumentLoadError = (err: Error) => {
@@ -399,41 +300,24 @@ const WorksheetViewer: React.FC<WorksheetViewerProps> = ({
       : page.getViewport({ scale: 1 });
       
     setPdfDimensions({ width, height });
-    
-    setTimeout(() => {
-      const pdfCanvas = pdfContainerRef.current?.querySelector('.react-pdf__Page__canvas') as HTMLCanvasElement | null;
-      if (pdfCanvas) {
-        const containerRect = pdfContainerRef.current!.getBoundingClientRect();
-        const canvasRect = pdfCanvas.getBoundingClientRect();
-        
-        const top = canvasRect.top - containerRect.top;
-        const left = canvasRect.left - containerRect.left;
-        setPdfPosition({ top, left });
-        
-        const newScaleFactor = canvasRect.width / width;
-        setScaleFactor(newScaleFactor);
-      }
-    }, 100);
   };
   
-  const playAudioSegment = (regionName: string, stepIndex: number) => {
-    if (!audioRef.current) return;
-    
-    const audioPath = `/audio/${worksheetId}/${regionName}_${stepIndex + 1}.mp3`;
-    
-    audioRef.current.src = audioPath;
-    
-    audioRef.current.onerror = () => {
-      setIsAudioPlaying(false);
-    };
-    
-    audioRef.current.play().catch(err => {
-      setIsAudioPlaying(false);
-    });
+  const handleRegionClick = (region: RegionData) => {
+    console.log('🔍 [DEBUG] Region clicked:', region.id, 'type:', region.type);
+    
+    const regionType = getRegionTypeDefinition(region.type);
+    if (regionType.activate) {
+      regionType.activate(region, { worksheetId, navigate });
+    } else if (regionType.Renderer) {
+      // Clicking an open inline region again closes it
+      setOpenInlineRegion(current => (current?.id === region.id ? null : region));
+    } else {
+      openRegionGuidance(region);
+    }
   };
   
-  const handleRegionClick = (region: RegionData) => {
-    console.log('🔍 [DEBUG] Region clicked:', region.id);
+  const openRegionGuidance = (region: RegionData) => {
+    setOpenInlineRegion(null);
     
     // Check if region has no description or empty description
     if (!region.description || region.description.length === 0) {
@@ -446,34 +330,9 @@ const WorksheetViewer: React.FC<WorksheetViewerProps> = ({
     
     console.log(`🔍 [DEBUG] Region ${region.id} clicked. Saved state:`, savedRegionState, `Starting at step: ${startingStepIndex}`);
     
-    setCurrentStepIndex(startingStepIndex);
-    
-    if (region.description && region.description.length > 0) {
-      // Display messages up to the saved step index
-      const messagesToDisplay = region.description.slice(0, startingStepIndex + 1);
-      setDisplayedMessages(messagesToDisplay);
-      
-      if (videoRef.current && audioAvailable) {
-        videoRef.current.currentTime = 0;
-        videoRef.current.play().catch(err => {
-          // Suppress expected errors when video is removed from DOM
-          if (err.name !== 'AbortError' && !err.message.includes('media was removed from the document')) {
-            // Suppress non-debug logs
-          }
-        });
-      }
-      
-      // Only try to play audio if it's available (based on initial check)
-      if (audioAvailable) {
-        setTimeout(() => {
-          playAudioSegment(region.name, startingStepIndex);
-        }, 500);
-      }
-    } else {
-      setDisplayedMessages([]);
-    }
-    
-    setActiveRegion(region);
+    // Display messages up to the saved step index; regions without audio files or a
+    // speech synthesis fallback are shown without narration
+    openPlayer(region, startingStepIndex);
     setIsTextMode(true);
     
     // Notify parent about text mode change
@@ -482,31 +341,6 @@ const WorksheetViewer: React.FC<WorksheetViewerProps> = ({
     }
   };
   
-  const handleNextStep = () => {
-    if (activeRegion && activeRegion.description && currentStepIndex < activeRegion.description.length - 1) {
-      if (audioRef.current) {
-        audioRef.current.pause();
-      }
-      
-      const nextStepIndex = currentStepIndex + 1;
-      console.log('🔍 [DEBUG] Advancing to next step:', nextStepIndex, 'for region:', activeRegion.id);
-      
-      setCurrentStepIndex(nextStepIndex);
-      
-      setDisplayedMessages(prevMessages => [
-        ...prevMessages,
-        activeRegion.description[nextStepIndex]
-      ]);
-      
-      // Only try to play audio if it's available (based on initial check)
-      if (audioAvailable) {
-        setTimeout(() => {
-          playAudioSegment(activeRegion.name, nextStepIndex);
-        }, 500);
-      }
-    }
-  };
-  
   const handleBackButtonClick = () => {
     setIsTextMode(false);
     
@@ -516,55 +350,30 @@ const WorksheetViewer: React.FC<WorksheetViewerProps> = ({
     }
     
     // Clear the active region and reset state when manually exiting text mode
-    setActiveRegion(null);
-    setCurrentStepIndex(0);
-    setDisplayedMessages([]);
-    
-    if (audioRef.current) {
-      audioRef.current.pause();
-      audioRef.current.currentTime = 0;
-    }
-    
-    if (videoRef.current) {
-      videoRef.current.pause();
-    }
-    
-    setIsAudioPlaying(false);
+    closePlayer();
   };
 
-  const handleTutorSelected = (videoUrl: string) => {
-    setSelectedTutorVideoUrl(videoUrl);
-    // Persist the selected tutor as the new default
-    localStorage.setItem('selectedVirtualTutor', videoUrl);
+  const handleTutorSelected = (tutor: VirtualTutor) => {
+    // The video reloads with the new source and autoplays back into the current loop
+    player.selectTutor(tutor);
     setShowTutorSelectionModal(false);
-    
-    // Reload the video with the new source
-    if (videoRef.current) {
-      videoRef.current.load();
-      if (isAudioPlaying) {
-        videoRef.current.play().catch(err => {
-          // Suppress expected errors when video is removed from DOM
-          if (err.name !== 'AbortError' && !err.message.includes('media was removed from the document')) {
-            // Suppress non-debug logs
-          }
-        });
-      }
-    }
   };
 
   const handleVideoContextMenu = (e: React.MouseEvent) => {
     e.preventDefault();
   };
   
-  const hasNextStep = activeRegion?.description && currentStepIndex < activeRegion.description.length - 1;
+  // A region restored from the AI chat is a copy without its answer key
+  const activeAnswerKey = activeRegion ? regions.find(region => region.id === activeRegion.id)?.answerKey : null;
+
+  const inlineRegionType = getRegionTypeDefinition(openInlineRegion?.type);
+  const InlineRegionRenderer = openInlineRegion ? inlineRegionType.Renderer : undefined;
 
   return (
     <div 
       className={`worksheet-container ${isTextMode ? 'text-mode' : ''}`} 
       ref={pdfContainerRef}
     >
-      <audio ref={audioRef} className="hidden" />
-      
       {isTextMode && (
         <Button
           onClick={handleBackButtonClick}
@@ -576,7 +385,7 @@ const WorksheetViewer: React.FC<WorksheetViewerProps> = ({
       )}
       
       {/* Virtual Tutor Selection Button - positioned on right side with distance from QR button */}
-      {isTextMode && audioAvailable && (
+      {isTextMode && canNarrate(activeRegion) && (
         <Button
           onClick={() => setShowTutorSelectionModal(true)}
           className="fixed top-24 right-4 z-70 rounded-full bg-gradient-orange-magenta hover:bg-gradient-orange-magenta text-white shadow-lg h-8 w-8"
@@ -586,100 +395,222 @@ const WorksheetViewer: React.FC<WorksheetViewerProps> = ({
         </Button>
       )}
       
-      <div className={`worksheet-pdf-container ${isTextMode ? 'hidden' : ''} ${isCurrentPageDrmProtected ? 'drm-active' : ''}`}>
+      <div
+        ref={pdfAreaRef}
+        className={`worksheet-pdf-container ${isTextMode ? 'hidden' : ''} ${isCurrentPageDrmProtected ? 'drm-active' : ''}`}
+      >
         <Document
           file={pdfUrl}
           onLoadSuccess={onDocumentLoadSuccess}
           onLoadError={onDocumentLoadError}
           loading={null}
         >
-          <Page
-            pageNumber={pageIndex}
-            renderTextLayer={false}
-            renderAnnotationLayer={false}
-            className={`worksheet-page ${isCurrentPageDrmProtected ? 'blurred' : ''}`}
-            width={window.innerWidth > 768 ? 600 : undefined}
-            onLoadSuccess={onPageLoadSuccess}
-          />
-        </Document>
-        
-        {isCurrentPageDrmProtected && !isTextMode && regions.map((region) => (
           <div
-            key={`clear-${region.id}`}
-            className="worksheet-clear-region"
+            ref={viewportRef}
+            className="worksheet-zoom-viewport"
             style={{
-              position: 'absolute',
-              left: `${region.x * scaleFactor + pdfPosition.left}px`,
-              top: `${region.y * scaleFactor + pdfPosition.top}px`,
-              width: `${region.width * scaleFactor}px`,
-              height: `${region.height * scaleFactor}px`,
-              overflow: 'hidden',
-              zIndex: 5,
-              border: '2px solid rgba(255, 255, 255, 0.8)',
-              backgroundColor: 'rgba(255, 255, 255, 0.1)',
+              width: `${baseWidth}px`,
+              height: baseHeight > 0 ? `${baseHeight}px` : undefined,
+              touchAction: isZoomed ? 'none' : 'pan-y',
             }}
+            {...viewportHandlers}
           >
-            <Document
-              file={pdfUrl}
-              className="clear-document"
-              loading={null}
+            <div
+              className="worksheet-zoom-content"
+              style={{
+                ...contentStyle,
+                width: `${renderWidth}px`,
+                height: baseHeight > 0 ? `${baseHeight * renderZoom}px` : undefined,
+              }}
             >
-              <div
-                className="clear-page-container"
-                style={{
-                  position: 'absolute',
-                  left: `-${region.x * scaleFactor}px`,
-                  top: `-${region.y * scaleFactor}px`,
-                  width: `${pdfDimensions.width * scaleFactor}px`,
-                  height: `${pdfDimensions.height * scaleFactor}px`,
-                  filter: 'none !important',
-                  WebkitFilter: 'none !important',
-                }}
-              >
-                <Page
-                  pageNumber={pageIndex}
-                  renderTextLayer={false}
-                  renderAnnotationLayer={false}
-                  width={window.innerWidth > 768 ? 600 : undefined}
-                  className="clear-page"
-                />
-              </div>
-            </Document>
+              <WatermarkedPage
+                pageNumber={pageIndex}
+                renderTextLayer={false}
+                renderAnnotationLayer={false}
+                watermark={watermark}
+                className={`worksheet-page ${isCurrentPageDrmProtected && !isServerRenderedPage ? 'blurred' : ''}`}
+                width={renderWidth}
+                onLoadSuccess={onPageLoadSuccess}
+              />
+              
+              {isServerRenderedPage && protectedPage && (
+                <div className="worksheet-protected-page" onContextMenu={(e) => e.preventDefault()}>
+                  <img className="worksheet-protected-preview" src={protectedPage.preview} alt="" draggable={false} />
+                  {protectedPage.tiles.map((tile) => {
+                    const region = regions.find(pageRegion => pageRegion.id === tile.regionId);
+                    return region && (
+                      <img
+                        key={tile.regionId}
+                        className="worksheet-protected-tile"
+                        src={tile.image}
+                        alt=""
+                        draggable={false}
+                        style={{
+                          left: `${region.x * scaleFactor}px`,
+                          top: `${region.y * scaleFactor}px`,
+                          width: `${region.width * scaleFactor}px`,
+                          height: `${region.height * scaleFactor}px`,
+                          clipPath: getRegionClipPath(region, scaleFactor),
+                        }}
+                      />
+                    );
+                  })}
+                </div>
+              )}
+
+              {/* The PDF page underneath is blank, so say why until the images arrive */}
+              {isServerRenderedPage && !protectedPage && (
+                <div className="worksheet-protected-status">
+                  {isProtectedPageError ? (
+                    <>
+                      <p>{t('worksheet.protectedPageError')}</p>
+                      <Button variant="outline" size="sm" onClick={() => refetchProtectedPage()}>
+                        <RotateCw className="h-4 w-4" />
+                        {t('worksheet.retry')}
+                      </Button>
+                    </>
+                  ) : (
+                    <Loader2 className="h-8 w-8 animate-spin" aria-label={t('worksheet.protectedPageLoading')} />
+                  )}
+                </div>
+              )}
+              
+              {isCurrentPageDrmProtected && !isServerRenderedPage && !isTextMode && regions.map((region) => (
+                <div
+                  key={`clear-${region.id}`}
+                  className="worksheet-clear-region"
+                  style={{
+                    position: 'absolute',
+                    left: `${region.x * scaleFactor}px`,
+                    top: `${region.y * scaleFactor}px`,
+                    width: `${region.width * scaleFactor}px`,
+                    height: `${region.height * scaleFactor}px`,
+                    clipPath: getRegionClipPath(region, scaleFactor),
+                    overflow: 'hidden',
+                    zIndex: 5,
+                    border: '2px solid rgba(255, 255, 255, 0.8)',
+                    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+                  }}
+                >
+                  <Document
+                    file={pdfUrl}
+                    className="clear-document"
+                    loading={null}
+                  >
+                    <div
+                      className="clear-page-container"
+                      style={{
+                        position: 'absolute',
+                        left: `-${region.x * scaleFactor}px`,
+                        top: `-${region.y * scaleFactor}px`,
+                        width: `${pdfDimensions.width * scaleFactor}px`,
+                        height: `${pdfDimensions.height * scaleFactor}px`,
+                        filter: 'none !important',
+                        WebkitFilter: 'none !important',
+                      }}
+                    >
+                      <WatermarkedPage
+                        pageNumber={pageIndex}
+                        renderTextLayer={false}
+                        renderAnnotationLayer={false}
+                        watermark={watermark}
+                        width={renderWidth}
+                        className="clear-page"
+                      />
+                    </div>
+                  </Document>
+                </div>
+              ))}
+              
+              {regions.map((region) => (
+                <div
+                  key={region.id}
+                  className={`worksheet-region ${region.shape ? 'shaped' : ''}`}
+                  style={{
+                    position: 'absolute',
+                    left: `${region.x * scaleFactor}px`,
+                    top: `${region.y * scaleFactor}px`,
+                    width: `${region.width * scaleFactor}px`,
+                    height: `${region.height * scaleFactor}px`,
+                    // Clipping also limits hit-testing to the exact shape
+                    clipPath: getRegionClipPath(region, scaleFactor),
+                    zIndex: 10,
+                  }}
+                  onClick={() => handleRegionClick(region)}
+                  title={region.name}
+                >
+                  {region.shape && (
+                    <svg
+                      className="worksheet-region-outline"
+                      viewBox={`0 0 ${region.width} ${region.height}`}
+                      preserveAspectRatio="none"
+                      aria-hidden="true"
+                    >
+                      <path d={getRegionShapePath(region) || ''} vectorEffect="non-scaling-stroke" />
+                    </svg>
+                  )}
+                </div>
+              ))}
+              
+              {openInlineRegion && InlineRegionRenderer && inlineRegionType.anchored && (
+                <div
+                  className="region-popover-anchor"
+                  style={{
+                    left: `${openInlineRegion.x * scaleFactor}px`,
+                    top: `${(openInlineRegion.y + openInlineRegion.height) * scaleFactor}px`,
+                  }}
+                  // Keep taps on the popover's controls from panning the zoomed page
+                  onPointerDown={(e) => e.stopPropagation()}
+                >
+                  <InlineRegionRenderer
+                    region={openInlineRegion}
+                    worksheetId={worksheetId}
+                    onClose={() => setOpenInlineRegion(null)}
+                  />
+                </div>
+              )}
+            </div>
           </div>
-        ))}
-        
-        {regions.map((region) => (
-          <div
-            key={region.id}
-            className="worksheet-region"
-            style={{
-              position: 'absolute',
-              left: `${region.x * scaleFactor + pdfPosition.left}px`,
-              top: `${region.y * scaleFactor + pdfPosition.top}px`,
-              width: `${region.width * scaleFactor}px`,
-              height: `${region.height * scaleFactor}px`,
-              zIndex: 10,
-            }}
-            onClick={() => handleRegionClick(region)}
-            title={region.name}
-          />
-        ))}
+          
+          {/* Pre-render the neighbouring pages so page navigation is instant */}
+          {numPages && numPages > 1 && (
+            <div className="worksheet-prefetch-pages" aria-hidden="true">
+              {[pageIndex - 1, pageIndex + 1]
+                .filter(adjacentPage => adjacentPage >= 1 && adjacentPage <= numPages)
+                .map(adjacentPage => (
+                  <Page
+                    key={adjacentPage}
+                    pageNumber={adjacentPage}
+                    renderTextLayer={false}
+                    renderAnnotationLayer={false}
+                    width={baseWidth}
+                  />
+                ))}
+            </div>
+          )}
+        </Document>
       </div>
       
       {activeRegion && (
         <div className={`worksheet-text-display-container ${isTextMode ? 'active' : 'hidden'}`}>
-          {audioAvailable && (
+          {canNarrate(activeRegion) && (player.tutor.type === 'avatar' ? (
+            <TutorAvatar
+              tutor={player.tutor}
+              isSpeaking={player.status === 'speaking'}
+              getLevel={player.getNarrationLevel}
+            />
+          ) : (
             <video 
-              ref={videoRef}
+              ref={player.attachVideo}
               className="video-element"
-              src={selectedTutorVideoUrl}
+              src={player.tutor.videoUrl}
               muted
               autoPlay
               playsInline
               preload="auto"
               onContextMenu={handleVideoContextMenu}
             />
-          )}
+          ))}
           
           <div 
             className="worksheet-text-display"
@@ -689,7 +620,7 @@ const WorksheetViewer: React.FC<WorksheetViewerProps> = ({
               {displayedMessages.map((message, index) => (
                 <div 
                   key={index} 
-                  className="chat-message"
+                  className={cn("chat-message", stepAudio?.[activeRegion.name]?.[index] && "narrated")}
                   onClick={() => handleMessageClick(index)}
                   data-message-index={index}
                   role="button"
@@ -702,16 +633,37 @@ const WorksheetViewer: React.FC<WorksheetViewerProps> = ({
                   }}
                 >
                   <p>{message}</p>
+                  {stepAudio?.[activeRegion.name]?.[index] && (
+                    <Volume2 className="chat-message-narrated-icon" aria-label={t('worksheet.narrated')} />
+                  )}
                 </div>
               ))}
+              {activeRegion && activeAnswerKey && !hasNextStep && (
+                <AnswerEntry
+                  key={activeRegion.id}
+                  worksheetId={worksheetId}
+                  pageNumber={pageIndex}
+                  itemType="region"
+                  itemKey={activeRegion.id}
+                  answerKey={activeAnswerKey}
+                  stepCount={activeRegion.description.length}
+                  onReviewStep={handleReviewStep}
+                />
+              )}
             </div>
           </div>
+          
+          {canNarrate(activeRegion) && (
+            <GuidancePlayerContext.Provider value={player}>
+              <PlaybackBar />
+            </GuidancePlayerContext.Provider>
+          )}
         </div>
       )}
 
       {hasNextStep && isTextMode && (
         <Button 
-          onClick={handleNextStep} 
+          onClick={player.next} 
           className="next-button"
           variant="default"
         >
@@ -727,10 +679,19 @@ const WorksheetViewer: React.FC<WorksheetViewerProps> = ({
         </div>
       )}
       
+      {openInlineRegion && InlineRegionRenderer && !inlineRegionType.anchored && (
+        <InlineRegionRenderer
+          region={openInlineRegion}
+          worksheetId={worksheetId}
+          onClose={() => setOpenInlineRegion(null)}
+        />
+      )}
+      
       {/* Virtual Tutor Selection Modal */}
       <VirtualTutorSelectionModal
         isOpen={showTutorSelectionModal}
         onClose={() => setShowTutorSelectionModal(false)}
+        selectedTutorId={player.tutor.id}
         onSelectTutor={handleTutorSelected}
       />
     </div>
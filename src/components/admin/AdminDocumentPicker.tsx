@@ -0,0 +1,63 @@
+import React, { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2 } from "lucide-react";
+import { useAdminDocuments } from "@/hooks/useRegionAuthoring";
+
+interface AdminDocumentPickerProps {
+  // Route the chosen document id is appended to, e.g. "/admin/regions"
+  basePath: string;
+}
+
+const AdminDocumentPicker: React.FC<AdminDocumentPickerProps> = ({ basePath }) => {
+  const navigate = useNavigate();
+  const { data: documents, isLoading } = useAdminDocuments();
+  const [documentId, setDocumentId] = useState("");
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Choose a Document</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (documentId.trim()) navigate(`${basePath}/${documentId.trim()}`);
+          }}
+        >
+          <Input
+            value={documentId}
+            onChange={(e) => setDocumentId(e.target.value)}
+            placeholder="Document ID"
+          />
+          <Button type="submit" disabled={!documentId.trim()}>Open</Button>
+        </form>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin" />
+          </div>
+        ) : documents && documents.length > 0 ? (
+          <div className="divide-y border rounded-lg bg-white">
+            {documents.map(document => (
+              <Link
+                key={document.id}
+                to={`${basePath}/${document.id}`}
+                className="block px-4 py-3 hover:bg-gray-50"
+              >
+                <p className="font-medium text-gray-900">{document.name}</p>
+                <p className="text-xs text-gray-500">{document.id}</p>
+              </Link>
+            ))}
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AdminDocumentPicker;
@@ -0,0 +1,62 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { getTextDirection } from "@/lib/textDirection";
+
+interface DescriptionStepsEditorProps {
+  steps: string[];
+  onChange: (steps: string[]) => void;
+}
+
+// Edits the multi-paragraph `description` of a region or guidance item - one paragraph per step
+const DescriptionStepsEditor: React.FC<DescriptionStepsEditorProps> = ({ steps, onChange }) => {
+  const updateStep = (index: number, value: string) => {
+    onChange(steps.map((step, i) => (i === index ? value : step)));
+  };
+
+  const removeStep = (index: number) => {
+    onChange(steps.filter((_, i) => i !== index));
+  };
+
+  const moveStep = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= steps.length) return;
+    const reordered = [...steps];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  return (
+    <div className="space-y-3">
+      {steps.map((step, index) => (
+        <div key={index} className="flex gap-2">
+          <span className="text-sm font-medium text-gray-500 w-6 pt-2">{index + 1}</span>
+          <Textarea
+            value={step}
+            onChange={(e) => updateStep(index, e.target.value)}
+            className="flex-1 min-h-[80px]"
+            dir={getTextDirection(step)}
+          />
+          <div className="flex flex-col gap-1">
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => moveStep(index, -1)} disabled={index === 0} aria-label="Move step up">
+              <ArrowUp className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => moveStep(index, 1)} disabled={index === steps.length - 1} aria-label="Move step down">
+              <ArrowDown className="h-4 w-4" />
+            </Button>
+            <Button variant="ghost" size="icon" className="h-7 w-7 text-red-600" onClick={() => removeStep(index)} aria-label="Remove step">
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+      <Button variant="outline" size="sm" onClick={() => onChange([...steps, ''])}>
+        <Plus className="h-4 w-4" />
+        Add Step
+      </Button>
+    </div>
+  );
+};
+
+export default DescriptionStepsEditor;
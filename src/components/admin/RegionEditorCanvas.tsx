@@ -0,0 +1,239 @@
+import React, { useRef, useState } from "react";
+import { Document, Page, pdfjs } from "react-pdf";
+import { cn } from "@/lib/utils";
+import { getRegionShapePath } from "@/lib/regionShape";
+import type { RegionData } from "@/types/worksheet";
+
+pdfjs.GlobalWorkerOptions.workerSrc = `//unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.js`;
+
+export interface RegionRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+type LoadedPage = {
+  originalWidth?: number;
+  originalHeight?: number;
+  getViewport: (params: { scale: number }) => { width: number; height: number };
+};
+
+type ResizeHandle = 'nw' | 'ne' | 'sw' | 'se';
+
+type DragState =
+  | { kind: 'draw'; originX: number; originY: number }
+  | { kind: 'move'; regionId: string; offsetX: number; offsetY: number; start: RegionRect }
+  | { kind: 'resize'; regionId: string; handle: ResizeHandle; start: RegionRect };
+
+interface RegionEditorCanvasProps {
+  pdfUrl: string;
+  pageNumber: number;
+  regions: RegionData[];
+  selectedRegionId: string | null;
+  onSelectRegion: (regionId: string | null) => void;
+  onChangeRegion: (regionId: string, rect: RegionRect) => void;
+  onCreateRegion: (rect: RegionRect) => void;
+  onDocumentLoad?: (numPages: number) => void;
+}
+
+// Smallest rectangle (in PDF points) that counts as a drawn region rather than a click
+const MIN_REGION_SIZE = 8;
+
+const HANDLES: ResizeHandle[] = ['nw', 'ne', 'sw', 'se'];
+
+const roundPoint = (value: number) => Math.round(value * 100) / 100;
+
+const normalizeRect = (x1: number, y1: number, x2: number, y2: number): RegionRect => ({
+  x: roundPoint(Math.min(x1, x2)),
+  y: roundPoint(Math.min(y1, y2)),
+  width: roundPoint(Math.abs(x2 - x1)),
+  height: roundPoint(Math.abs(y2 - y1)),
+});
+
+const RegionEditorCanvas: React.FC<RegionEditorCanvasProps> = ({
+  pdfUrl,
+  pageNumber,
+  regions,
+  selectedRegionId,
+  onSelectRegion,
+  onChangeRegion,
+  onCreateRegion,
+  onDocumentLoad
+}) => {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const [pdfDimensions, setPdfDimensions] = useState({ width: 0, height: 0 });
+  const [dragState, setDragState] = useState<DragState | null>(null);
+  const [draftRect, setDraftRect] = useState<RegionRect | null>(null);
+
+  // Same coordinate system as WorksheetViewer: PDF points, scaled by rendered width / page width
+  const toPdfPoint = (clientX: number, clientY: number) => {
+    const overlayRect = overlayRef.current!.getBoundingClientRect();
+    const scaleFactor = overlayRect.width / pdfDimensions.width;
+    return {
+      x: Math.min(Math.max((clientX - overlayRect.left) / scaleFactor, 0), pdfDimensions.width),
+      y: Math.min(Math.max((clientY - overlayRect.top) / scaleFactor, 0), pdfDimensions.height),
+    };
+  };
+
+  const toPercentStyle = (rect: RegionRect): React.CSSProperties => ({
+    left: `${(rect.x / pdfDimensions.width) * 100}%`,
+    top: `${(rect.y / pdfDimensions.height) * 100}%`,
+    width: `${(rect.width / pdfDimensions.width) * 100}%`,
+    height: `${(rect.height / pdfDimensions.height) * 100}%`,
+  });
+
+  const onPageLoadSuccess = (page: LoadedPage) => {
+    const { width, height } = page.originalWidth
+      ? { width: page.originalWidth, height: page.originalHeight }
+      : page.getViewport({ scale: 1 });
+    setPdfDimensions({ width, height });
+  };
+
+  const startDrag = (e: React.PointerEvent, state: DragState) => {
+    e.stopPropagation();
+    overlayRef.current?.setPointerCapture(e.pointerId);
+    setDragState(state);
+  };
+
+  const handleBackgroundPointerDown = (e: React.PointerEvent) => {
+    const point = toPdfPoint(e.clientX, e.clientY);
+    onSelectRegion(null);
+    startDrag(e, { kind: 'draw', originX: point.x, originY: point.y });
+  };
+
+  const handleRegionPointerDown = (e: React.PointerEvent, region: RegionData) => {
+    const point = toPdfPoint(e.clientX, e.clientY);
+    onSelectRegion(region.id);
+    startDrag(e, {
+      kind: 'move',
+      regionId: region.id,
+      offsetX: point.x - region.x,
+      offsetY: point.y - region.y,
+      start: { x: region.x, y: region.y, width: region.width, height: region.height },
+    });
+  };
+
+  const handleResizePointerDown = (e: React.PointerEvent, region: RegionData, handle: ResizeHandle) => {
+    startDrag(e, {
+      kind: 'resize',
+      regionId: region.id,
+      handle,
+      start: { x: region.x, y: region.y, width: region.width, height: region.height },
+    });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragState) return;
+    const point = toPdfPoint(e.clientX, e.clientY);
+
+    if (dragState.kind === 'draw') {
+      setDraftRect(normalizeRect(dragState.originX, dragState.originY, point.x, point.y));
+    } else if (dragState.kind === 'move') {
+      const { start } = dragState;
+      const x = Math.min(Math.max(point.x - dragState.offsetX, 0), pdfDimensions.width - start.width);
+      const y = Math.min(Math.max(point.y - dragState.offsetY, 0), pdfDimensions.height - start.height);
+      onChangeRegion(dragState.regionId, { ...start, x: roundPoint(x), y: roundPoint(y) });
+    } else {
+      // Keep the corner opposite the dragged handle fixed
+      const { start, handle } = dragState;
+      const fixedX = handle.includes('w') ? start.x + start.width : start.x;
+      const fixedY = handle.includes('n') ? start.y + start.height : start.y;
+      const rect = normalizeRect(fixedX, fixedY, point.x, point.y);
+      if (rect.width >= MIN_REGION_SIZE && rect.height >= MIN_REGION_SIZE) {
+        onChangeRegion(dragState.regionId, rect);
+      }
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (overlayRef.current?.hasPointerCapture(e.pointerId)) {
+      overlayRef.current.releasePointerCapture(e.pointerId);
+    }
+    if (dragState?.kind === 'draw' && draftRect &&
+        draftRect.width >= MIN_REGION_SIZE && draftRect.height >= MIN_REGION_SIZE) {
+      onCreateRegion(draftRect);
+    }
+    setDragState(null);
+    setDraftRect(null);
+  };
+
+  return (
+    <Document file={pdfUrl} onLoadSuccess={({ numPages }) => onDocumentLoad?.(numPages)} loading={null}>
+      <div className="relative inline-block border border-gray-200 shadow-sm select-none">
+        <Page
+          pageNumber={pageNumber}
+          renderTextLayer={false}
+          renderAnnotationLayer={false}
+          width={800}
+          onLoadSuccess={onPageLoadSuccess}
+        />
+        {pdfDimensions.width > 0 && (
+          <div
+            ref={overlayRef}
+            className="absolute inset-0 cursor-crosshair touch-none"
+            onPointerDown={handleBackgroundPointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          >
+            {regions.map(region => {
+              const isSelected = region.id === selectedRegionId;
+              return (
+                <div
+                  key={region.id}
+                  className={cn(
+                    "absolute border-2 cursor-move",
+                    isSelected ? "border-orange-500 bg-orange-500/20" : "border-blue-500 bg-blue-500/10",
+                    // Shaped regions fill their outline; the box only marks the bounding box
+                    region.shape && "border-dashed bg-transparent"
+                  )}
+                  style={toPercentStyle(region)}
+                  onPointerDown={(e) => handleRegionPointerDown(e, region)}
+                >
+                  {region.shape && (
+                    <svg
+                      className="absolute inset-0 h-full w-full pointer-events-none"
+                      viewBox={`0 0 ${region.width} ${region.height}`}
+                      preserveAspectRatio="none"
+                    >
+                      <path
+                        d={getRegionShapePath(region) || ''}
+                        className={isSelected ? "fill-orange-500/30 stroke-orange-600" : "fill-blue-500/20 stroke-blue-600"}
+                        strokeWidth={2}
+                        vectorEffect="non-scaling-stroke"
+                      />
+                    </svg>
+                  )}
+                  <span className="absolute -top-5 left-0 text-xs font-medium bg-white px-1 rounded">
+                    {region.name}
+                  </span>
+                  {isSelected && HANDLES.map(handle => (
+                    <div
+                      key={handle}
+                      className={cn(
+                        "absolute h-3 w-3 bg-white border-2 border-orange-500 rounded-sm",
+                        handle.includes('n') ? "-top-1.5" : "-bottom-1.5",
+                        handle.includes('w') ? "-left-1.5" : "-right-1.5",
+                        handle === 'nw' || handle === 'se' ? "cursor-nwse-resize" : "cursor-nesw-resize"
+                      )}
+                      onPointerDown={(e) => handleResizePointerDown(e, region, handle)}
+                    />
+                  ))}
+                </div>
+              );
+            })}
+            {draftRect && (
+              <div
+                className="absolute border-2 border-dashed border-orange-500 bg-orange-500/10"
+                style={toPercentStyle(draftRect)}
+              />
+            )}
+          </div>
+        )}
+      </div>
+    </Document>
+  );
+};
+
+export default RegionEditorCanvas;
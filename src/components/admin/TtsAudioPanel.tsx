@@ -0,0 +1,91 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { CheckCircle2, Clock, Loader2, Wand2 } from "lucide-react";
+import { shouldUseSupabase } from "@/lib/supabase";
+import { useApproveTts, useGenerateTts, useTtsRequests, type TtsRequestStatus } from "@/hooks/useTtsRequests";
+
+interface TtsAudioPanelProps {
+  documentId: string;
+  // Generation reads the saved document, so unsaved edits would be missed
+  hasUnsavedChanges: boolean;
+}
+
+const STATUS_VARIANTS: Record<TtsRequestStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "outline",
+  generated: "secondary",
+  approved: "default",
+  failed: "destructive",
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleString();
+
+const TtsAudioPanel: React.FC<TtsAudioPanelProps> = ({ documentId, hasUnsavedChanges }) => {
+  const { data: requests = [], isLoading } = useTtsRequests(documentId);
+  const { mutate: generateTts, isPending: isGenerating } = useGenerateTts();
+  const { mutate: approveTts, isPending: isApproving } = useApproveTts();
+
+  if (!shouldUseSupabase()) {
+    return null;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="pb-3 flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-base">Generated Narration</CardTitle>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => generateTts(documentId)}
+          disabled={hasUnsavedChanges || isGenerating}
+          title={hasUnsavedChanges ? "Save your changes before generating audio" : undefined}
+        >
+          {isGenerating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Wand2 className="h-4 w-4" />}
+          Generate Audio
+        </Button>
+      </CardHeader>
+      <CardContent className="text-sm">
+        {isLoading ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : requests.length === 0 ? (
+          <p className="text-gray-500">No audio has been generated for this document yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {requests.map(request => (
+              <li key={request.id} className="flex flex-wrap items-center gap-2">
+                <Badge variant={STATUS_VARIANTS[request.status] || "outline"}>{request.status}</Badge>
+                <span className="text-gray-600">
+                  {formatDate(request.approved_at || request.generated_at || request.created_at)}
+                  {request.engine && ` · ${request.engine}`}
+                </span>
+                {request.status === 'pending' && (
+                  <span className="text-gray-500 w-full flex items-center gap-1">
+                    <Clock className="h-3 w-3" />
+                    Waiting for the TTS worker (supabase/functions/generate-tts/worker.ts)
+                  </span>
+                )}
+                {request.error_message && (
+                  <span className="text-red-600 w-full">{request.error_message}</span>
+                )}
+                {request.status === 'generated' && (
+                  <Button
+                    size="sm"
+                    className="ml-auto"
+                    onClick={() => approveTts({ documentId, requestId: request.id })}
+                    disabled={isApproving}
+                  >
+                    <CheckCircle2 className="h-4 w-4" />
+                    Approve
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TtsAudioPanel;
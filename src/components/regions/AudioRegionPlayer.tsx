@@ -0,0 +1,29 @@
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { X } from "lucide-react";
+import { getTextDirection } from "@/lib/textDirection";
+import type { RegionRendererProps } from "./regionTypes";
+
+// Plays a region's clip in a small card under the region, without leaving the page
+const AudioRegionPlayer: React.FC<RegionRendererProps> = ({ region, worksheetId, onClose }) => {
+  const { t } = useTranslation();
+  const src = region.target || `/audio/${worksheetId}/${region.name}_1.mp3`;
+  const caption = region.description[0];
+
+  return (
+    <div className="region-popover" role="dialog" aria-label={t('regions.audioClip')}>
+      <div className="flex items-center gap-2">
+        <audio src={src} controls autoPlay className="h-9 flex-1 min-w-0" onEnded={onClose} />
+        <Button variant="ghost" size="icon" className="h-8 w-8 flex-shrink-0" onClick={onClose} aria-label={t('regions.close')}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      {caption && (
+        <p className="text-sm text-gray-700 mt-2" dir={getTextDirection(caption)}>{caption}</p>
+      )}
+    </div>
+  );
+};
+
+export default AudioRegionPlayer;
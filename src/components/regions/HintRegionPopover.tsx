@@ -0,0 +1,26 @@
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { Lightbulb, X } from "lucide-react";
+import { getTextDirection } from "@/lib/textDirection";
+import type { RegionRendererProps } from "./regionTypes";
+
+// Shows a region's hint as a single popover under the region
+const HintRegionPopover: React.FC<RegionRendererProps> = ({ region, onClose }) => {
+  const { t } = useTranslation();
+  const hint = region.description.join('\n\n');
+
+  return (
+    <div className="region-popover" role="dialog" aria-label={t('regions.hint')}>
+      <div className="flex items-start gap-2">
+        <Lightbulb className="h-5 w-5 text-yellow-500 flex-shrink-0 mt-0.5" />
+        <p className="text-sm text-gray-800 flex-1 whitespace-pre-line" dir={getTextDirection(hint)}>{hint}</p>
+        <Button variant="ghost" size="icon" className="h-7 w-7 flex-shrink-0" onClick={onClose} aria-label={t('regions.close')}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default HintRegionPopover;
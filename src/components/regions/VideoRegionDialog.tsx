@@ -0,0 +1,32 @@
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { getTextDirection } from "@/lib/textDirection";
+import type { RegionRendererProps } from "./regionTypes";
+
+// Plays a region's explainer clip in a dialog over the page
+const VideoRegionDialog: React.FC<RegionRendererProps> = ({ region, worksheetId, onClose }) => {
+  const { t } = useTranslation();
+  const src = region.target || `/video/${worksheetId}/${region.name}.mp4`;
+  const title = region.description[0] || t('regions.explainer');
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle dir={getTextDirection(title)}>{title}</DialogTitle>
+        </DialogHeader>
+        <video
+          src={src}
+          controls
+          autoPlay
+          playsInline
+          className="w-full rounded-lg bg-black"
+          onContextMenu={(e) => e.preventDefault()}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default VideoRegionDialog;
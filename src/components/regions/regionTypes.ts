@@ -0,0 +1,61 @@
+import type React from "react";
+import { getWorksheetPath, parseQrPayload } from "@/lib/qrPayload";
+import type { RegionData } from "@/types/worksheet";
+import AudioRegionPlayer from "./AudioRegionPlayer";
+import HintRegionPopover from "./HintRegionPopover";
+import VideoRegionDialog from "./VideoRegionDialog";
+
+export interface RegionRendererProps {
+  region: RegionData;
+  worksheetId: string;
+  onClose: () => void;
+}
+
+export interface RegionActivationContext {
+  worksheetId: string;
+  navigate: (path: string) => void;
+}
+
+export interface RegionTypeDefinition {
+  // Opens the step-by-step text mode with the virtual tutor (the original region behaviour)
+  opensGuidance?: boolean;
+  // Anchored under the region: rendered inside the page so it follows zoom and pan
+  anchored?: boolean;
+  // Shown while the region is open
+  Renderer?: React.ComponentType<RegionRendererProps>;
+  // Runs on click instead of showing anything
+  activate?: (region: RegionData, context: RegionActivationContext) => void;
+}
+
+// `target` is a page number in the same worksheet, or any worksheet code or link the QR scanner accepts
+const resolveLinkTarget = (target: string, worksheetId: string): string | null => {
+  const trimmed = target.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return getWorksheetPath({ worksheetId, pageNumber: parseInt(trimmed, 10) });
+  }
+  const parsed = parseQrPayload(trimmed);
+  return parsed ? getWorksheetPath(parsed) : null;
+};
+
+export const REGION_TYPES: Record<string, RegionTypeDefinition> = {
+  area: { opensGuidance: true },
+  audio: { anchored: true, Renderer: AudioRegionPlayer },
+  hint: { anchored: true, Renderer: HintRegionPopover },
+  video: { Renderer: VideoRegionDialog },
+  link: {
+    activate: (region, { worksheetId, navigate }) => {
+      const path = region.target ? resolveLinkTarget(region.target, worksheetId) : null;
+      if (path) {
+        navigate(path);
+      } else {
+        console.warn(`Link region ${region.id} has no valid target:`, region.target);
+      }
+    },
+  },
+};
+
+export const DEFAULT_REGION_TYPE = 'area';
+
+// Unknown or missing types behave like plain guidance areas
+export const getRegionTypeDefinition = (type: string | null | undefined): RegionTypeDefinition =>
+  (type && REGION_TYPES[type]) || REGION_TYPES[DEFAULT_REGION_TYPE];
@@ -0,0 +1,585 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import type { Session, User } from '@supabase/supabase-js';
+import { supabase, shouldUseSupabase } from '@/lib/supabase';
+import { toast } from '@/components/ui/use-toast';
+import type { Account, AccountUpdate, StudentProfile, StudentProfileUpdate } from '@/types/auth';
+
+// Maximum number of active student profiles per account (see student_profiles table comment)
+const MAX_STUDENT_PROFILES = 10;
+
+// localStorage keys used by the offline JSON fallback mode
+const OFFLINE_ACCOUNTS_KEY = 'offlineAccounts';
+const OFFLINE_PASSWORDS_KEY = 'offlinePasswordHashes';
+const OFFLINE_PROFILES_KEY = 'offlineStudentProfiles';
+const OFFLINE_SESSION_KEY = 'offlineSession';
+
+const activeProfileStorageKey = (accountId: string) => `activeStudentProfileId_${accountId}`;
+
+type AuthResult = { error: Error | null };
+type ProfileResult = { data: StudentProfile | null; error: Error | null };
+
+interface AuthContextType {
+  user: User | null;
+  session: Session | null;
+  account: Account | null;
+  studentProfiles: StudentProfile[] | null;
+  activeStudentProfile: StudentProfile | null;
+  loading: boolean;
+  signUp: (email: string, password: string, fullName: string) => Promise<AuthResult>;
+  signIn: (email: string, password: string) => Promise<AuthResult>;
+  signInWithGoogle: () => Promise<AuthResult>;
+  signOut: () => Promise<void>;
+  resetPassword: (email: string) => Promise<AuthResult>;
+  updateAccount: (updates: AccountUpdate) => Promise<AuthResult>;
+  updateCreditsRemaining: (creditsRemaining: number) => void;
+  selectStudentProfile: (profileId: string) => Promise<void>;
+  createStudentProfile: (profileName: string, avatarUrl?: string, profileColor?: string) => Promise<ProfileResult>;
+  // `silent` skips the success toast, for settings saved in the background
+  updateStudentProfile: (profileId: string, updates: StudentProfileUpdate, options?: { silent?: boolean }) => Promise<ProfileResult>;
+  deleteStudentProfile: (profileId: string) => Promise<AuthResult>;
+  refreshStudentProfiles: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+// Offline helpers - accounts and profiles live in localStorage when Supabase is not configured
+const readOfflineAccounts = (): Account[] => {
+  try {
+    return JSON.parse(localStorage.getItem(OFFLINE_ACCOUNTS_KEY) || '[]') as Account[];
+  } catch (error) {
+    console.warn('Failed to read offline accounts:', error);
+    return [];
+  }
+};
+
+const writeOfflineAccount = (account: Account) => {
+  const otherAccounts = readOfflineAccounts().filter(existing => existing.id !== account.id);
+  localStorage.setItem(OFFLINE_ACCOUNTS_KEY, JSON.stringify([...otherAccounts, account]));
+};
+
+const findOfflineAccount = (email: string): Account | undefined =>
+  readOfflineAccounts().find(account => account.email.trim().toLowerCase() === email.trim().toLowerCase());
+
+// The account signed in on this device, if any
+const readOfflineAccount = (): Account | null => {
+  const sessionAccountId = localStorage.getItem(OFFLINE_SESSION_KEY);
+  return readOfflineAccounts().find(account => account.id === sessionAccountId) ?? null;
+};
+
+// Offline passwords are only kept as hashes salted with the account id, and only checked on this device
+const hashOfflinePassword = async (accountId: string, password: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(`${accountId}:${password}`));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const readOfflinePasswordHashes = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(OFFLINE_PASSWORDS_KEY) || '{}') as Record<string, string>;
+  } catch (error) {
+    console.warn('Failed to read offline passwords:', error);
+    return {};
+  }
+};
+
+const writeOfflinePasswordHash = (accountId: string, passwordHash: string) => {
+  localStorage.setItem(OFFLINE_PASSWORDS_KEY, JSON.stringify({ ...readOfflinePasswordHashes(), [accountId]: passwordHash }));
+};
+
+const readOfflineProfiles = (accountId: string): StudentProfile[] => {
+  try {
+    const stored = localStorage.getItem(OFFLINE_PROFILES_KEY);
+    const profiles = stored ? JSON.parse(stored) as StudentProfile[] : [];
+    return profiles.filter(profile => profile.account_id === accountId && profile.is_active);
+  } catch (error) {
+    console.warn('Failed to read offline student profiles:', error);
+    return [];
+  }
+};
+
+const writeOfflineProfiles = (profiles: StudentProfile[]) => {
+  localStorage.setItem(OFFLINE_PROFILES_KEY, JSON.stringify(profiles));
+};
+
+const createOfflineProfile = (accountId: string, profileName: string, avatarUrl?: string, profileColor?: string): StudentProfile => {
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    account_id: accountId,
+    profile_name: profileName,
+    avatar_url: avatarUrl || null,
+    profile_color: profileColor || '#3b82f6',
+    preferences: {},
+    created_at: now,
+    updated_at: now,
+    last_accessed_at: null,
+    is_active: true,
+  };
+};
+
+const toOfflineUser = (account: Account): User => ({
+  id: account.id,
+  email: account.email,
+  aud: 'authenticated',
+  app_metadata: {},
+  user_metadata: { full_name: account.full_name },
+  created_at: account.created_at,
+} as User);
+
+// Mirrors handle_new_user(): an account always starts with a default "Student 1" profile.
+// Other accounts on the device keep their profiles.
+const createOfflineAccount = async (email: string, fullName: string, password: string): Promise<Account> => {
+  const account: Account = {
+    id: crypto.randomUUID(),
+    email,
+    full_name: fullName,
+    role: 'user',
+    credits_remaining: 0,
+    onboarding_completed: false,
+    preferences: {},
+    created_at: new Date().toISOString(),
+  };
+  writeOfflineAccount(account);
+  writeOfflinePasswordHash(account.id, await hashOfflinePassword(account.id, password));
+  const allProfiles: StudentProfile[] = JSON.parse(localStorage.getItem(OFFLINE_PROFILES_KEY) || '[]');
+  writeOfflineProfiles([...allProfiles, createOfflineProfile(account.id, 'Student 1')]);
+  return account;
+};
+
+const startOfflineSession = (account: Account): User => {
+  localStorage.setItem(OFFLINE_SESSION_KEY, account.id);
+  return toOfflineUser(account);
+};
+
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const isOffline = !shouldUseSupabase();
+
+  const [session, setSession] = useState<Session | null>(null);
+  const [user, setUser] = useState<User | null>(null);
+  const [account, setAccount] = useState<Account | null>(null);
+  const [studentProfiles, setStudentProfiles] = useState<StudentProfile[] | null>(null);
+  const [activeStudentProfile, setActiveStudentProfile] = useState<StudentProfile | null>(null);
+  const [sessionLoading, setSessionLoading] = useState(true);
+  const [accountLoading, setAccountLoading] = useState(false);
+
+  // Restore the active profile saved for this account, falling back to nothing selected
+  const restoreActiveProfile = useCallback((accountId: string, profiles: StudentProfile[]) => {
+    const storedProfileId = localStorage.getItem(activeProfileStorageKey(accountId));
+    const storedProfile = profiles.find(profile => profile.id === storedProfileId) || null;
+
+    if (storedProfileId && !storedProfile) {
+      localStorage.removeItem(activeProfileStorageKey(accountId));
+    }
+
+    setActiveStudentProfile(storedProfile);
+  }, []);
+
+  const fetchStudentProfiles = useCallback(async (accountId: string): Promise<StudentProfile[]> => {
+    if (isOffline) {
+      return readOfflineProfiles(accountId);
+    }
+
+    const { data, error } = await supabase
+      .from('student_profiles')
+      .select('*')
+      .eq('account_id', accountId)
+      .eq('is_active', true)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Failed to fetch student profiles:', error);
+      return [];
+    }
+
+    return (data || []) as StudentProfile[];
+  }, [isOffline]);
+
+  const loadAccountData = useCallback(async (userId: string) => {
+    setAccountLoading(true);
+
+    try {
+      if (isOffline) {
+        const offlineAccount = readOfflineAccount();
+        setAccount(offlineAccount);
+        const profiles = offlineAccount ? readOfflineProfiles(offlineAccount.id) : [];
+        setStudentProfiles(profiles);
+        if (offlineAccount) {
+          restoreActiveProfile(offlineAccount.id, profiles);
+        }
+        return;
+      }
+
+      const { data: accountData, error: accountError } = await supabase
+        .from('accounts')
+        .select('*')
+        .eq('id', userId)
+        .single();
+
+      if (accountError) {
+        console.error('Failed to fetch account:', accountError);
+        setAccount(null);
+        setStudentProfiles([]);
+        setActiveStudentProfile(null);
+        return;
+      }
+
+      const profiles = await fetchStudentProfiles(userId);
+      setAccount(accountData as Account);
+      setStudentProfiles(profiles);
+      restoreActiveProfile(userId, profiles);
+    } finally {
+      setAccountLoading(false);
+    }
+  }, [isOffline, fetchStudentProfiles, restoreActiveProfile]);
+
+  const clearAccountData = useCallback(() => {
+    setAccount(null);
+    setStudentProfiles(null);
+    setActiveStudentProfile(null);
+  }, []);
+
+  // Track the auth session
+  useEffect(() => {
+    if (isOffline) {
+      const offlineAccount = readOfflineAccount();
+      setUser(offlineAccount ? toOfflineUser(offlineAccount) : null);
+      setSessionLoading(false);
+      return;
+    }
+
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setSession(session);
+      setUser(session?.user ?? null);
+      setSessionLoading(false);
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, newSession) => {
+      setSession(newSession);
+      setUser(newSession?.user ?? null);
+    });
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [isOffline]);
+
+  // Load account and student profiles whenever the signed-in user changes
+  const userId = user?.id;
+  useEffect(() => {
+    if (userId) {
+      loadAccountData(userId);
+    } else {
+      clearAccountData();
+    }
+  }, [userId, loadAccountData, clearAccountData]);
+
+  const signUp = async (email: string, password: string, fullName: string): Promise<AuthResult> => {
+    if (isOffline) {
+      if (findOfflineAccount(email)) {
+        return { error: new Error('An account with this email already exists on this device.') };
+      }
+      setUser(startOfflineSession(await createOfflineAccount(email, fullName, password)));
+      return { error: null };
+    }
+
+    const { error } = await supabase.auth.signUp({
+      email,
+      password,
+      options: {
+        data: { full_name: fullName },
+        emailRedirectTo: `${window.location.origin}/profile-selection`,
+      },
+    });
+
+    if (error) {
+      return { error };
+    }
+
+    toast({ title: "Account created", description: "Welcome to Jooy! Please check your email to confirm your account." });
+    return { error: null };
+  };
+
+  const signIn = async (email: string, password: string): Promise<AuthResult> => {
+    if (isOffline) {
+      const offlineAccount = findOfflineAccount(email);
+      const storedPasswordHash = offlineAccount ? readOfflinePasswordHashes()[offlineAccount.id] : undefined;
+      if (!offlineAccount || !storedPasswordHash || storedPasswordHash !== await hashOfflinePassword(offlineAccount.id, password)) {
+        return { error: new Error('Invalid login credentials') };
+      }
+
+      setUser(startOfflineSession(offlineAccount));
+      return { error: null };
+    }
+
+    const { error } = await supabase.auth.signInWithPassword({ email, password });
+    return { error: error || null };
+  };
+
+  const signInWithGoogle = async (): Promise<AuthResult> => {
+    if (isOffline) {
+      const error = new Error('Google sign-in is not available in offline mode');
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return { error };
+    }
+
+    const { error } = await supabase.auth.signInWithOAuth({
+      provider: 'google',
+      options: {
+        redirectTo: `${window.location.origin}/profile-selection`,
+      },
+    });
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    }
+
+    return { error: error || null };
+  };
+
+  const signOut = async () => {
+    if (isOffline) {
+      localStorage.removeItem(OFFLINE_SESSION_KEY);
+      setUser(null);
+      return;
+    }
+
+    const { error } = await supabase.auth.signOut();
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    }
+  };
+
+  const resetPassword = async (email: string): Promise<AuthResult> => {
+    if (isOffline) {
+      return { error: new Error('Password reset is not available in offline mode') };
+    }
+
+    const { error } = await supabase.auth.resetPasswordForEmail(email, {
+      redirectTo: `${window.location.origin}/reset-password`,
+    });
+    return { error: error || null };
+  };
+
+  const updateAccount = async (updates: AccountUpdate): Promise<AuthResult> => {
+    if (!account) {
+      return { error: new Error('Not signed in') };
+    }
+
+    if (isOffline) {
+      const updatedAccount = { ...account, ...updates, updated_at: new Date().toISOString() };
+      writeOfflineAccount(updatedAccount);
+      setAccount(updatedAccount);
+      toast({ title: "Success", description: "Account updated successfully." });
+      return { error: null };
+    }
+
+    const { data, error } = await supabase
+      .from('accounts')
+      .update(updates)
+      .eq('id', account.id)
+      .select()
+      .single();
+
+    if (error) {
+      toast({ title: "Error", description: `Failed to update account: ${error.message}`, variant: "destructive" });
+      return { error };
+    }
+
+    setAccount(data as Account);
+    toast({ title: "Success", description: "Account updated successfully." });
+    return { error: null };
+  };
+
+  // Reflect a balance reported by the server (e.g. after an AI tutor reply) without refetching
+  const updateCreditsRemaining = useCallback((creditsRemaining: number) => {
+    setAccount(current => current ? { ...current, credits_remaining: creditsRemaining } : current);
+  }, []);
+
+  const refreshStudentProfiles = useCallback(async () => {
+    if (!account) return;
+    const profiles = await fetchStudentProfiles(account.id);
+    setStudentProfiles(profiles);
+    setActiveStudentProfile(current => current ? profiles.find(profile => profile.id === current.id) || null : null);
+  }, [account, fetchStudentProfiles]);
+
+  const selectStudentProfile = async (profileId: string) => {
+    if (!account || !studentProfiles) return;
+
+    const profile = studentProfiles.find(p => p.id === profileId);
+    if (!profile) {
+      toast({ title: "Error", description: "Student profile not found.", variant: "destructive" });
+      return;
+    }
+
+    const lastAccessedAt = new Date().toISOString();
+
+    if (isOffline) {
+      const allProfiles: StudentProfile[] = JSON.parse(localStorage.getItem(OFFLINE_PROFILES_KEY) || '[]');
+      writeOfflineProfiles(allProfiles.map(p => p.id === profileId ? { ...p, last_accessed_at: lastAccessedAt } : p));
+    } else {
+      const { error } = await supabase.rpc('switch_to_profile', { profile_id: profileId });
+      if (error) {
+        // Switching still works locally; only the last_accessed_at bookkeeping failed
+        console.warn('Failed to record profile switch:', error);
+      }
+    }
+
+    const selectedProfile = { ...profile, last_accessed_at: lastAccessedAt };
+    localStorage.setItem(activeProfileStorageKey(account.id), profileId);
+    setStudentProfiles(prev => prev?.map(p => p.id === profileId ? selectedProfile : p) || null);
+    setActiveStudentProfile(selectedProfile);
+  };
+
+  const createStudentProfile = async (profileName: string, avatarUrl?: string, profileColor?: string): Promise<ProfileResult> => {
+    if (!account) {
+      return { data: null, error: new Error('Not signed in') };
+    }
+
+    if ((studentProfiles?.length || 0) >= MAX_STUDENT_PROFILES) {
+      const error = new Error(`You can have at most ${MAX_STUDENT_PROFILES} profiles per account.`);
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return { data: null, error };
+    }
+
+    if (studentProfiles?.some(profile => profile.profile_name.toLowerCase() === profileName.toLowerCase())) {
+      const error = new Error(`A profile named "${profileName}" already exists.`);
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      return { data: null, error };
+    }
+
+    let createdProfile: StudentProfile;
+
+    if (isOffline) {
+      createdProfile = createOfflineProfile(account.id, profileName, avatarUrl, profileColor);
+      const allProfiles: StudentProfile[] = JSON.parse(localStorage.getItem(OFFLINE_PROFILES_KEY) || '[]');
+      writeOfflineProfiles([...allProfiles, createdProfile]);
+    } else {
+      const { data, error } = await supabase
+        .from('student_profiles')
+        .insert({
+          account_id: account.id,
+          profile_name: profileName,
+          avatar_url: avatarUrl || null,
+          profile_color: profileColor || '#3b82f6',
+        })
+        .select()
+        .single();
+
+      if (error) {
+        toast({ title: "Error", description: `Failed to create profile: ${error.message}`, variant: "destructive" });
+        return { data: null, error };
+      }
+
+      createdProfile = data as StudentProfile;
+    }
+
+    setStudentProfiles(prev => [...(prev || []), createdProfile]);
+    toast({ title: "Success", description: `Profile "${createdProfile.profile_name}" created.` });
+    return { data: createdProfile, error: null };
+  };
+
+  const updateStudentProfile = async (
+    profileId: string,
+    updates: StudentProfileUpdate,
+    { silent = false }: { silent?: boolean } = {}
+  ): Promise<ProfileResult> => {
+    if (!account) {
+      return { data: null, error: new Error('Not signed in') };
+    }
+
+    let updatedProfile: StudentProfile;
+
+    if (isOffline) {
+      const allProfiles: StudentProfile[] = JSON.parse(localStorage.getItem(OFFLINE_PROFILES_KEY) || '[]');
+      const existing = allProfiles.find(profile => profile.id === profileId);
+      if (!existing) {
+        return { data: null, error: new Error('Student profile not found') };
+      }
+      updatedProfile = { ...existing, ...updates, updated_at: new Date().toISOString() };
+      writeOfflineProfiles(allProfiles.map(profile => profile.id === profileId ? updatedProfile : profile));
+    } else {
+      const { data, error } = await supabase
+        .from('student_profiles')
+        .update(updates)
+        .eq('id', profileId)
+        .eq('account_id', account.id)
+        .select()
+        .single();
+
+      if (error) {
+        toast({ title: "Error", description: `Failed to update profile: ${error.message}`, variant: "destructive" });
+        return { data: null, error };
+      }
+
+      updatedProfile = data as StudentProfile;
+    }
+
+    setStudentProfiles(prev => prev?.map(profile => profile.id === profileId ? updatedProfile : profile) || null);
+    setActiveStudentProfile(current => current?.id === profileId ? updatedProfile : current);
+    if (!silent) {
+      toast({ title: "Success", description: "Profile updated successfully." });
+    }
+    return { data: updatedProfile, error: null };
+  };
+
+  const deleteStudentProfile = async (profileId: string): Promise<AuthResult> => {
+    if (!account) {
+      return { error: new Error('Not signed in') };
+    }
+
+    if (isOffline) {
+      const allProfiles: StudentProfile[] = JSON.parse(localStorage.getItem(OFFLINE_PROFILES_KEY) || '[]');
+      writeOfflineProfiles(allProfiles.filter(profile => profile.id !== profileId));
+    } else {
+      const { error } = await supabase
+        .from('student_profiles')
+        .delete()
+        .eq('id', profileId)
+        .eq('account_id', account.id);
+
+      if (error) {
+        toast({ title: "Error", description: `Failed to delete profile: ${error.message}`, variant: "destructive" });
+        return { error };
+      }
+    }
+
+    if (activeStudentProfile?.id === profileId) {
+      localStorage.removeItem(activeProfileStorageKey(account.id));
+      setActiveStudentProfile(null);
+    }
+
+    setStudentProfiles(prev => prev?.filter(profile => profile.id !== profileId) || null);
+    toast({ title: "Success", description: "Profile deleted successfully." });
+    return { error: null };
+  };
+
+  const value: AuthContextType = {
+    user,
+    session,
+    account,
+    studentProfiles,
+    activeStudentProfile,
+    loading: sessionLoading || accountLoading || (!!user && account === null && studentProfiles === null),
+    signUp,
+    signIn,
+    signInWithGoogle,
+    signOut,
+    resetPassword,
+    updateAccount,
+    updateCreditsRemaining,
+    selectStudentProfile,
+    createStudentProfile,
+    updateStudentProfile,
+    deleteStudentProfile,
+    refreshStudentProfiles,
+  };
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
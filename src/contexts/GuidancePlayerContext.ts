@@ -0,0 +1,19 @@
+import { createContext, useContext } from 'react';
+import type { GuidancePlayer } from '@/hooks/useGuidancePlayer';
+
+// What the controls around the messages need; the views keep the item-specific parts of the player
+export type GuidancePlayerControls = Pick<
+  GuidancePlayer,
+  'status' | 'togglePause' | 'replay' | 'playbackPreferences' | 'updatePlaybackPreferences'
+>;
+
+// Provided by WorksheetViewer and AutoModeContentDisplay to their playback controls
+export const GuidancePlayerContext = createContext<GuidancePlayerControls | undefined>(undefined);
+
+export const useGuidancePlayerContext = () => {
+  const context = useContext(GuidancePlayerContext);
+  if (context === undefined) {
+    throw new Error('useGuidancePlayerContext must be used within a GuidancePlayerContext provider');
+  }
+  return context;
+};
@@ -0,0 +1,52 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import { toast } from '@/components/ui/use-toast';
+import type { AutoModePageData } from '@/types/worksheet';
+
+export interface SaveAutoModeGuidanceInput {
+  documentId: string;
+  data: AutoModePageData[];
+}
+
+// Hook for saving edited Auto Mode guidance back to documents.metadata
+export const useSaveAutoModeGuidance = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ documentId, data }: SaveAutoModeGuidanceInput) => {
+      // Keep any other metadata keys the document already has
+      const { data: document, error: documentError } = await supabase
+        .from('documents')
+        .select('metadata')
+        .eq('id', documentId)
+        .single();
+
+      if (documentError) {
+        throw new Error(`Failed to fetch document: ${documentError.message}`);
+      }
+
+      const { error: updateError } = await supabase
+        .from('documents')
+        .update({ metadata: { ...(document.metadata || {}), mode: 'auto', data } })
+        .eq('id', documentId);
+
+      if (updateError) {
+        throw new Error(`Failed to save guidance: ${updateError.message}`);
+      }
+    },
+    onSuccess: (_, { documentId }) => {
+      queryClient.invalidateQueries({ queryKey: ['worksheet', documentId] });
+      toast({
+        title: "Success",
+        description: "Guidance saved successfully.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+};
@@ -0,0 +1,91 @@
+import { useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import { useTranslation } from 'react-i18next';
+import { createGuidancePlayer, type GuidancePlayerItem } from '@/lib/guidancePlayer';
+import { createAudioLevelMeter } from '@/lib/audioLevel';
+import { useStepAudioAvailability } from '@/hooks/useStepAudioAvailability';
+import { usePlaybackPreferences } from '@/hooks/usePlaybackPreferences';
+import { useSelectedVirtualTutor } from '@/hooks/useVirtualTutors';
+import type { AudioManifest } from '@/types/worksheet';
+
+interface GuidancePlayerHookOptions<T extends GuidancePlayerItem> {
+  worksheetId: string;
+  // The page's narratable regions or guidance items, whose step audio is checked up front
+  items: T[];
+  // Should be defined outside the component so it keeps its identity between renders
+  getAudioName: (item: T) => string;
+  audioManifest?: AudioManifest;
+}
+
+// Hook for the guidance player of a page, used by both regions mode and Auto Mode
+export const useGuidancePlayer = <T extends GuidancePlayerItem>({
+  worksheetId,
+  items,
+  getAudioName,
+  audioManifest
+}: GuidancePlayerHookOptions<T>) => {
+  const { i18n } = useTranslation();
+  const { playbackPreferences, updatePlaybackPreferences } = usePlaybackPreferences();
+  const { tutor, selectTutor } = useSelectedVirtualTutor();
+
+  const narratedItems = useMemo(() => items
+    .filter(item => getAudioName(item))
+    .map(item => ({ audioName: getAudioName(item), stepCount: item.description.length })), [items, getAudioName]);
+  const { data: stepAudio } = useStepAudioAvailability(worksheetId, narratedItems, audioManifest);
+
+  const playerOptions = {
+    worksheetId,
+    getAudioName,
+    audioManifest,
+    stepAudio,
+    uiLanguage: i18n.language,
+    rate: playbackPreferences.rate,
+    autoAdvance: playbackPreferences.autoAdvance,
+    tutorSegments: tutor.type === 'video' ? tutor.segments : undefined,
+    voiceName: tutor.voice,
+    measureLevel: tutor.type === 'avatar',
+  };
+  const [player] = useState(() => {
+    const audio = new Audio();
+    return createGuidancePlayer<T>(playerOptions, {
+      audio,
+      createLevelMeter: () => createAudioLevelMeter(audio),
+    });
+  });
+  // Media callbacks read the options when they fire, so keep them current
+  player.setOptions(playerOptions);
+
+  const state = useSyncExternalStore(player.subscribe, player.getState);
+
+  // Stop narrating when leaving the page; the viewer is remounted for each page, so this also
+  // frees the page's AudioContext
+  useEffect(() => {
+    return () => {
+      player.destroy();
+    };
+  }, [player]);
+
+  const { item, stepIndex } = state;
+
+  return {
+    ...state,
+    displayedMessages: item ? item.description.slice(0, stepIndex + 1) : [],
+    hasNextStep: !!item && stepIndex < item.description.length - 1,
+    // Per audio name, which steps have narration files, once checked
+    stepAudio,
+    canNarrate: player.canNarrate,
+    getNarrationLevel: player.getNarrationLevel,
+    open: player.open,
+    update: player.update,
+    next: player.next,
+    replay: player.replay,
+    togglePause: player.togglePause,
+    close: player.close,
+    attachVideo: player.attachVideo,
+    playbackPreferences,
+    updatePlaybackPreferences,
+    tutor,
+    selectTutor,
+  };
+};
+
+export type GuidancePlayer<T extends GuidancePlayerItem = GuidancePlayerItem> = ReturnType<typeof useGuidancePlayer<T>>;
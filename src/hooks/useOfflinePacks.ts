@@ -0,0 +1,86 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from '@/components/ui/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { shouldUseSupabase } from '@/lib/supabase';
+import { fetchProtectedPage } from '@/hooks/useProtectedPage';
+import {
+  listOfflinePacks,
+  getOfflinePackManifest,
+  downloadOfflinePack,
+  deleteOfflinePack,
+  type OfflinePackData,
+  type OfflinePackProgress,
+} from '@/lib/offlinePacks';
+
+// Hook for listing every downloaded worksheet pack
+export const useOfflinePacks = () => {
+  return useQuery({
+    queryKey: ['offline-packs'],
+    queryFn: listOfflinePacks,
+  });
+};
+
+// Hook for checking whether a single worksheet has been downloaded
+export const useOfflinePackStatus = (worksheetId: string) => {
+  return useQuery({
+    queryKey: ['offline-packs', worksheetId],
+    queryFn: () => getOfflinePackManifest(worksheetId),
+    enabled: !!worksheetId,
+  });
+};
+
+// Hook for downloading a worksheet pack, exposing download progress
+export const useDownloadOfflinePack = () => {
+  const queryClient = useQueryClient();
+  const { activeStudentProfile } = useAuth();
+  const [progress, setProgress] = useState<OfflinePackProgress | null>(null);
+
+  const mutation = useMutation({
+    mutationFn: async ({ worksheetId, data }: { worksheetId: string; data: OfflinePackData }) => {
+      setProgress({ completed: 0, total: 1 });
+      // Protected pages are blank in the downloaded PDF, so their server-rendered images are kept too
+      const protectedPageSource = shouldUseSupabase()
+        ? {
+            studentProfileId: activeStudentProfile?.id ?? null,
+            render: (pageNumber: number) => fetchProtectedPage(worksheetId, pageNumber, activeStudentProfile?.id),
+          }
+        : undefined;
+      return downloadOfflinePack(worksheetId, data, setProgress, protectedPageSource);
+    },
+    onSuccess: (manifest) => {
+      queryClient.invalidateQueries({ queryKey: ['offline-packs'] });
+      toast({ title: "Success", description: `"${manifest.documentName}" is available offline.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+    onSettled: () => {
+      setProgress(null);
+    },
+  });
+
+  return { ...mutation, progress };
+};
+
+// Hook for evicting a downloaded worksheet pack
+export const useDeleteOfflinePack = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (worksheetId: string) => {
+      const deleted = await deleteOfflinePack(worksheetId);
+      if (!deleted) {
+        throw new Error('Offline worksheet not found');
+      }
+      return worksheetId;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['offline-packs'] });
+      toast({ title: "Success", description: "Offline worksheet removed." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+};
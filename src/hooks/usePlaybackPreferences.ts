@@ -0,0 +1,32 @@
+import { useStudentPreference } from '@/hooks/useStudentPreference';
+
+export interface PlaybackPreferences {
+  // Narration speed; audio files keep their pitch
+  rate: number;
+  // Reveal and read the next step when the current one finishes
+  autoAdvance: boolean;
+}
+
+export const PLAYBACK_RATES = [0.75, 1, 1.25, 1.5];
+
+const DEFAULT_PLAYBACK_PREFERENCES: PlaybackPreferences = { rate: 1, autoAdvance: false };
+
+// Stored under `preferences.playback` of the student profile
+const readPlaybackPreferences = (stored: unknown): PlaybackPreferences => {
+  const playback = (stored || {}) as Partial<PlaybackPreferences>;
+  return {
+    rate: PLAYBACK_RATES.includes(playback.rate as number) ? playback.rate as number : DEFAULT_PLAYBACK_PREFERENCES.rate,
+    autoAdvance: typeof playback.autoAdvance === 'boolean' ? playback.autoAdvance : DEFAULT_PLAYBACK_PREFERENCES.autoAdvance,
+  };
+};
+
+// Hook for the active student profile's narration speed and auto-advance settings
+export const usePlaybackPreferences = () => {
+  const [playbackPreferences, setPlaybackPreferences] = useStudentPreference('playback', readPlaybackPreferences);
+
+  const updatePlaybackPreferences = (updates: Partial<PlaybackPreferences>) => {
+    setPlaybackPreferences({ ...playbackPreferences, ...updates });
+  };
+
+  return { playbackPreferences, updatePlaybackPreferences };
+};
@@ -0,0 +1,52 @@
+import { useQuery } from '@tanstack/react-query';
+import { supabase, shouldUseSupabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { getOfflineProtectedPage } from '@/lib/offlinePacks';
+import type { ProtectedPageImages } from '@/types/worksheet';
+
+export const protectedPageQueryKey = (studentProfileId: string | undefined, worksheetId: string, pageNumber: number) =>
+  ['protected-page', studentProfileId, worksheetId, pageNumber];
+
+export const fetchProtectedPage = async (
+  worksheetId: string,
+  pageNumber: number,
+  studentProfileId: string | undefined
+): Promise<ProtectedPageImages> => {
+  const { data, error } = await supabase.functions.invoke('render-protected-page', {
+    body: { worksheetId, pageNumber, studentProfileId },
+  });
+
+  if (error) {
+    throw new Error(`Failed to render protected page: ${error.message}`);
+  }
+
+  if (!data?.preview) {
+    throw new Error('Invalid response from protected page function');
+  }
+
+  return { preview: data.preview, tiles: data.tiles || [] };
+};
+
+// Hook for the server-rendered images of a DRM-protected page, with the active student profile's
+// unlocked regions. Local worksheets have no server to render them, so they keep using the PDF.
+export const useProtectedPage = (worksheetId: string, pageNumber: number, isProtected: boolean) => {
+  const { activeStudentProfile } = useAuth();
+
+  return useQuery({
+    queryKey: protectedPageQueryKey(activeStudentProfile?.id, worksheetId, pageNumber),
+    queryFn: async (): Promise<ProtectedPageImages> => {
+      try {
+        return await fetchProtectedPage(worksheetId, pageNumber, activeStudentProfile?.id);
+      } catch (error) {
+        // Network requests failed - fall back to the images of a downloaded pack if there are some
+        const offlinePage = await getOfflineProtectedPage(worksheetId, pageNumber, activeStudentProfile?.id ?? null);
+        if (offlinePage) {
+          return offlinePage;
+        }
+        throw error;
+      }
+    },
+    enabled: isProtected && shouldUseSupabase() && !!worksheetId && !isNaN(pageNumber),
+    staleTime: 10 * 60 * 1000, // 10 minutes
+  });
+};
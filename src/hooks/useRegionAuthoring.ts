@@ -0,0 +1,107 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase, shouldUseSupabase } from '@/lib/supabase';
+import { toast } from '@/components/ui/use-toast';
+import type { RegionData } from '@/types/worksheet';
+
+export interface AdminDocumentSummary {
+  id: string;
+  name: string;
+  created_at: string;
+}
+
+export interface SaveDocumentRegionsInput {
+  documentId: string;
+  regions: RegionData[];
+  deletedRegionIds: string[];
+}
+
+// Hook for listing every document an admin can author
+export const useAdminDocuments = () => {
+  return useQuery({
+    queryKey: ['admin-documents'],
+    queryFn: async (): Promise<AdminDocumentSummary[]> => {
+      const { data, error } = await supabase
+        .from('documents')
+        .select('id, name, created_at')
+        .order('name', { ascending: true });
+
+      if (error) {
+        throw new Error(`Failed to fetch documents: ${error.message}`);
+      }
+
+      return data || [];
+    },
+    enabled: shouldUseSupabase(),
+  });
+};
+
+// Hook for saving the edited regions of a document to document_regions
+export const useSaveDocumentRegions = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ documentId, regions, deletedRegionIds }: SaveDocumentRegionsInput) => {
+      // Regions belong to the same account and student profile as their document
+      const { data: document, error: documentError } = await supabase
+        .from('documents')
+        .select('user_id, student_profile_id')
+        .eq('id', documentId)
+        .single();
+
+      if (documentError) {
+        throw new Error(`Failed to fetch document: ${documentError.message}`);
+      }
+
+      if (deletedRegionIds.length > 0) {
+        const { error: deleteError } = await supabase
+          .from('document_regions')
+          .delete()
+          .in('id', deletedRegionIds);
+
+        if (deleteError) {
+          throw new Error(`Failed to delete regions: ${deleteError.message}`);
+        }
+      }
+
+      if (regions.length > 0) {
+        const { error: upsertError } = await supabase
+          .from('document_regions')
+          .upsert(regions.map(region => ({
+            id: region.id,
+            document_id: documentId,
+            user_id: document.user_id,
+            student_profile_id: document.student_profile_id,
+            page: region.page,
+            x: region.x,
+            y: region.y,
+            width: region.width,
+            height: region.height,
+            type: region.type,
+            name: region.name,
+            description: region.description,
+            shape: region.shape ?? null,
+            target: region.target || null,
+            answer_key: region.answerKey ?? null,
+          })));
+
+        if (upsertError) {
+          throw new Error(`Failed to save regions: ${upsertError.message}`);
+        }
+      }
+    },
+    onSuccess: (_, { documentId }) => {
+      queryClient.invalidateQueries({ queryKey: ['worksheet', documentId] });
+      toast({
+        title: "Success",
+        description: "Regions saved successfully.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+};
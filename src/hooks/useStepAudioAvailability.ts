@@ -0,0 +1,47 @@
+import { useQuery } from '@tanstack/react-query';
+import { hasStepAudioFile } from '@/lib/guidanceAudio';
+import type { AudioManifest } from '@/types/worksheet';
+
+export interface NarratedItem {
+  audioName: string;
+  stepCount: number;
+}
+
+// Per audio name, whether each step (index 0 is step 1) has a narration file
+export type StepAudioAvailability = Record<string, boolean[]>;
+
+// As checked: null marks steps that could not be checked, e.g. while offline
+type StepAudioChecks = Record<string, (boolean | null)[]>;
+
+const hasUncheckedSteps = (checks: StepAudioChecks | undefined) =>
+  Object.values(checks || {}).some(steps => steps.includes(null));
+
+// Hook for finding out which steps of a page's regions or guidance items have narration files
+export const useStepAudioAvailability = (
+  worksheetId: string,
+  items: NarratedItem[],
+  audioManifest?: AudioManifest
+) => {
+  return useQuery({
+    queryKey: ['step-audio', worksheetId, !!audioManifest, items.map(item => `${item.audioName}:${item.stepCount}`)],
+    queryFn: async (): Promise<StepAudioChecks> => {
+      const entries = await Promise.all(items.map(async item => [
+        item.audioName,
+        await Promise.all(
+          Array.from({ length: item.stepCount }, (_, stepIndex) =>
+            hasStepAudioFile(worksheetId, item.audioName, stepIndex, audioManifest)
+          )
+        ),
+      ] as const));
+
+      return Object.fromEntries(entries);
+    },
+    // Steps without a file until they can be checked
+    select: (checks): StepAudioAvailability => Object.fromEntries(
+      Object.entries(checks).map(([audioName, steps]) => [audioName, steps.map(exists => exists === true)])
+    ),
+    enabled: !!worksheetId && items.length > 0,
+    // Kept for the session once every step is known; otherwise checked again, e.g. on reconnecting
+    staleTime: (query) => (hasUncheckedSteps(query.state.data) ? 0 : Infinity),
+  });
+};
@@ -0,0 +1,27 @@
+import { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+
+// Hook for one setting stored under the active student profile's `preferences`. Changes apply before the
+// profile save comes back, and only to the profile they were made for.
+export const useStudentPreference = <T,>(key: string, read: (stored: unknown) => T) => {
+  const { activeStudentProfile, updateStudentProfile } = useAuth();
+  const [changed, setChanged] = useState<{ profileId?: string; value: T } | null>(null);
+  const value = changed && changed.profileId === activeStudentProfile?.id
+    ? changed.value
+    : read(activeStudentProfile?.preferences?.[key]);
+
+  // Saved to the profile in the background
+  const setValue = (next: T) => {
+    setChanged({ profileId: activeStudentProfile?.id, value: next });
+
+    if (activeStudentProfile) {
+      updateStudentProfile(
+        activeStudentProfile.id,
+        { preferences: { ...(activeStudentProfile.preferences || {}), [key]: next } },
+        { silent: true }
+      );
+    }
+  };
+
+  return [value, setValue] as const;
+};
@@ -0,0 +1,61 @@
+import { useEffect, useRef } from 'react';
+
+interface SwipeNavigationOptions {
+  onSwipeLeft: () => void;
+  onSwipeRight: () => void;
+  enabled: boolean;
+}
+
+// Minimum horizontal travel in pixels before a touch counts as a swipe
+const SWIPE_THRESHOLD = 60;
+
+// Hook for turning horizontal one-finger swipes anywhere on the page into navigation
+export const useSwipeNavigation = ({ onSwipeLeft, onSwipeRight, enabled }: SwipeNavigationOptions) => {
+  // Keep the latest callbacks without re-attaching listeners on every render
+  const handlersRef = useRef({ onSwipeLeft, onSwipeRight });
+  handlersRef.current = { onSwipeLeft, onSwipeRight };
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let start: { x: number; y: number } | null = null;
+
+    const handleTouchStart = (e: TouchEvent) => {
+      // Pinch gestures, panning a zoomed-in page and scrolling strips marked data-swipe-ignore are not swipes
+      const isZoomed = (window.visualViewport?.scale ?? 1) > 1.01;
+      const isIgnored = e.target instanceof Element && !!e.target.closest('[data-swipe-ignore]');
+      start = e.touches.length === 1 && !isZoomed && !isIgnored
+        ? { x: e.touches[0].clientX, y: e.touches[0].clientY }
+        : null;
+    };
+
+    const handleTouchMove = (e: TouchEvent) => {
+      if (e.touches.length > 1) start = null;
+    };
+
+    const handleTouchEnd = (e: TouchEvent) => {
+      if (!start || e.changedTouches.length === 0) return;
+      const deltaX = e.changedTouches[0].clientX - start.x;
+      const deltaY = e.changedTouches[0].clientY - start.y;
+      start = null;
+
+      if (Math.abs(deltaX) < SWIPE_THRESHOLD || Math.abs(deltaX) < Math.abs(deltaY) * 1.5) return;
+
+      if (deltaX < 0) {
+        handlersRef.current.onSwipeLeft();
+      } else {
+        handlersRef.current.onSwipeRight();
+      }
+    };
+
+    window.addEventListener('touchstart', handleTouchStart, { passive: true });
+    window.addEventListener('touchmove', handleTouchMove, { passive: true });
+    window.addEventListener('touchend', handleTouchEnd);
+
+    return () => {
+      window.removeEventListener('touchstart', handleTouchStart);
+      window.removeEventListener('touchmove', handleTouchMove);
+      window.removeEventListener('touchend', handleTouchEnd);
+    };
+  }, [enabled]);
+};
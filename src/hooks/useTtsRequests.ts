@@ -0,0 +1,112 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase, shouldUseSupabase } from '@/lib/supabase';
+import { toast } from '@/components/ui/use-toast';
+
+export type TtsRequestStatus = 'pending' | 'generated' | 'approved' | 'failed';
+
+export interface TtsRequest {
+  id: string;
+  status: TtsRequestStatus;
+  engine: string | null;
+  error_message: string | null;
+  created_at: string;
+  generated_at: string | null;
+  approved_at: string | null;
+}
+
+const ttsRequestsQueryKey = (documentId: string) => ['tts-requests', documentId];
+
+// How often the list is refreshed while a request waits for the TTS worker
+const PENDING_REFETCH_INTERVAL = 10000;
+
+// Hook for listing a document's recent TTS generation requests (admin only)
+export const useTtsRequests = (documentId: string) => {
+  return useQuery({
+    queryKey: ttsRequestsQueryKey(documentId),
+    queryFn: async (): Promise<TtsRequest[]> => {
+      const { data, error } = await supabase
+        .from('tts_requests')
+        .select('id, status, engine, error_message, created_at, generated_at, approved_at')
+        .eq('document_id', documentId)
+        .order('created_at', { ascending: false })
+        .limit(5);
+
+      if (error) {
+        throw new Error(`Failed to fetch TTS requests: ${error.message}`);
+      }
+
+      return data || [];
+    },
+    enabled: !!documentId && shouldUseSupabase(),
+    refetchInterval: (query) =>
+      query.state.data?.some(request => request.status === 'pending') ? PENDING_REFETCH_INTERVAL : false,
+  });
+};
+
+// Hook for queueing narration for every description step of a document; worker.ts generates it
+export const useGenerateTts = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (documentId: string) => {
+      const { data, error } = await supabase.functions.invoke('generate-tts', {
+        body: { action: 'generate', documentId, queue: true },
+      });
+
+      if (error) {
+        throw new Error(`Failed to queue audio generation: ${error.message}`);
+      }
+
+      return data as { requestId: string; status: TtsRequestStatus };
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Audio generation queued. Once the TTS worker has generated it, approve it here to publish it to students.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+    // Failed runs are recorded too, so refresh the list either way
+    onSettled: (_, __, documentId) => {
+      queryClient.invalidateQueries({ queryKey: ttsRequestsQueryKey(documentId) });
+    },
+  });
+};
+
+// Hook for approving generated audio so students hear it
+export const useApproveTts = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ requestId }: { documentId: string; requestId: string }) => {
+      const { error } = await supabase.functions.invoke('generate-tts', {
+        body: { action: 'approve', requestId },
+      });
+
+      if (error) {
+        throw new Error(`Failed to approve audio: ${error.message}`);
+      }
+    },
+    onSuccess: (_, { documentId }) => {
+      queryClient.invalidateQueries({ queryKey: ttsRequestsQueryKey(documentId) });
+      queryClient.invalidateQueries({ queryKey: ['worksheet', documentId] });
+      toast({
+        title: "Success",
+        description: "Audio approved and published.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+};
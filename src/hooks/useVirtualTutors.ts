@@ -0,0 +1,30 @@
+import { useQuery } from '@tanstack/react-query';
+import { useStudentPreference } from '@/hooks/useStudentPreference';
+import { DEFAULT_VIRTUAL_TUTOR, fetchVirtualTutors } from '@/lib/virtualTutors';
+import type { VirtualTutor } from '@/types/virtualTutor';
+
+// Hook for the tutors students can choose from, checked against the deployed videos
+export const useVirtualTutors = () => {
+  return useQuery({
+    queryKey: ['virtual-tutors'],
+    queryFn: fetchVirtualTutors,
+    staleTime: Infinity,
+  });
+};
+
+const readTutorId = (stored: unknown) => (typeof stored === 'string' ? stored : null);
+
+// Hook for the active student profile's tutor, stored under `preferences.virtualTutorId`
+export const useSelectedVirtualTutor = () => {
+  const { data: tutors } = useVirtualTutors();
+  const [tutorId, setTutorId] = useStudentPreference('virtualTutorId', readTutorId);
+
+  // A tutor that was removed from the catalog falls back to the first one
+  const tutor: VirtualTutor = tutors?.find(candidate => candidate.id === tutorId) || tutors?.[0] || DEFAULT_VIRTUAL_TUTOR;
+
+  const selectTutor = (selected: VirtualTutor) => {
+    setTutorId(selected.id);
+  };
+
+  return { tutor, selectTutor };
+};
@@ -0,0 +1,132 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase, shouldUseSupabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { toast } from '@/components/ui/use-toast';
+import { checkAnswer, isAnswerPrompt } from '@/lib/answerKey';
+import type { ProgressItemType } from '@/hooks/useWorksheetProgress';
+import type { AnswerKey, AnswerPrompt } from '@/types/worksheet';
+
+export interface StoredAnswer {
+  answer: string;
+  isCorrect: boolean;
+  attempts: number;
+}
+
+// Keyed by `${itemType}_${itemKey}`, e.g. "region_<id>" or "guidance_0"
+export type WorksheetPageAnswers = Record<string, StoredAnswer>;
+
+interface WorksheetAnswerRow {
+  item_type: ProgressItemType;
+  item_key: string;
+  answer: string;
+  is_correct: boolean;
+  attempts: number;
+}
+
+export interface CheckWorksheetAnswerInput {
+  worksheetId: string;
+  pageNumber: number;
+  itemType: ProgressItemType;
+  itemKey: string;
+  answer: string;
+  answerKey: AnswerKey | AnswerPrompt;
+}
+
+export const getAnswerItemKey = (itemType: ProgressItemType, itemKey: string) => `${itemType}_${itemKey}`;
+
+const answersQueryKey = (studentProfileId: string | undefined, worksheetId: string, pageNumber: number) =>
+  ['worksheet-answers', studentProfileId, worksheetId, pageNumber];
+
+// Hook for fetching the active student profile's answers on a worksheet page
+export const useWorksheetAnswers = (worksheetId: string, pageNumber: number) => {
+  const { activeStudentProfile } = useAuth();
+
+  return useQuery({
+    queryKey: answersQueryKey(activeStudentProfile?.id, worksheetId, pageNumber),
+    queryFn: async (): Promise<WorksheetPageAnswers> => {
+      if (!activeStudentProfile) {
+        throw new Error('No active student profile');
+      }
+
+      const { data, error } = await supabase
+        .from('worksheet_answers')
+        .select('item_type, item_key, answer, is_correct, attempts')
+        .eq('student_profile_id', activeStudentProfile.id)
+        .eq('worksheet_id', worksheetId)
+        .eq('page_number', pageNumber);
+
+      if (error) {
+        throw new Error(`Failed to fetch worksheet answers: ${error.message}`);
+      }
+
+      const answers: WorksheetPageAnswers = {};
+      (data as WorksheetAnswerRow[] || []).forEach(row => {
+        answers[getAnswerItemKey(row.item_type, row.item_key)] = {
+          answer: row.answer,
+          isCorrect: row.is_correct,
+          attempts: row.attempts,
+        };
+      });
+
+      return answers;
+    },
+    // Answers are only stored when Supabase is configured
+    enabled: !!activeStudentProfile && shouldUseSupabase() && !!worksheetId && !isNaN(pageNumber),
+    staleTime: 60 * 1000, // 1 minute
+  });
+};
+
+// Hook for checking an answer to a single region or guidance item. Supabase worksheets are checked,
+// and the result stored, by the check-answer function; local worksheets carry their keys and are
+// checked here.
+export const useCheckWorksheetAnswer = () => {
+  const { activeStudentProfile } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: CheckWorksheetAnswerInput): Promise<StoredAnswer> => {
+      const queryKey = answersQueryKey(activeStudentProfile?.id, input.worksheetId, input.pageNumber);
+      const previous = queryClient.getQueryData<WorksheetPageAnswers>(queryKey)?.[getAnswerItemKey(input.itemType, input.itemKey)];
+      const attempts = (previous?.attempts ?? 0) + 1;
+
+      if (!isAnswerPrompt(input.answerKey)) {
+        return { answer: input.answer, isCorrect: checkAnswer(input.answerKey, input.answer), attempts };
+      }
+
+      const { data, error } = await supabase.functions.invoke('check-answer', {
+        body: {
+          worksheetId: input.worksheetId,
+          pageNumber: input.pageNumber,
+          itemType: input.itemType,
+          itemKey: input.itemKey,
+          answer: input.answer,
+          studentProfileId: activeStudentProfile?.id,
+        },
+      });
+
+      if (error) {
+        throw new Error(`Failed to check answer: ${error.message}`);
+      }
+
+      if (typeof data?.isCorrect !== 'boolean') {
+        throw new Error('Invalid response from check answer function');
+      }
+
+      // Guests' answers are not stored, so the count is kept here
+      return { answer: input.answer, isCorrect: data.isCorrect, attempts: data.attempts ?? attempts };
+    },
+    onSuccess: (stored, input) => {
+      queryClient.setQueryData<WorksheetPageAnswers>(
+        answersQueryKey(activeStudentProfile?.id, input.worksheetId, input.pageNumber),
+        (previous) => ({ ...previous, [getAnswerItemKey(input.itemType, input.itemKey)]: stored })
+      );
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+};
@@ -1,56 +1,104 @@
 import { useQuery } from '@tanstack/react-query'
 import { supabase, shouldUseSupabase } from '@/lib/supabase'
-import type { WorksheetMetadata, RegionsModeMetadata } from '@/types/worksheet'
+import { getOfflinePack } from '@/lib/offlinePacks'
+import { normalizeRegionShape } from '@/lib/regionShape'
+import { parseAnswerKey, parseAnswerPrompt } from '@/lib/answerKey'
+import type { AudioManifest, WorksheetMetadata, RegionsModeMetadata, RegionData } from '@/types/worksheet'
 
-interface WorksheetDataResponse {
+export interface WorksheetDataResponse {
   meta: WorksheetMetadata;
   pdfUrl: string;
+  // Only set for Supabase documents; the JSON fallback and offline packs use /audio paths instead
+  audioManifest?: AudioManifest;
+}
+
+// Students of Supabase worksheets get a prompt in place of each answer key
+const normalizeAnswerKey = (value: unknown) => parseAnswerKey(value) ?? parseAnswerPrompt(value)
+
+// Validate the optional shape and answer key of each region or guidance item
+const normalizeRegion = (region: RegionData): RegionData => ({
+  ...normalizeRegionShape(region),
+  answerKey: normalizeAnswerKey(region.answerKey)
+})
+
+const normalizeMetadata = (meta: WorksheetMetadata): WorksheetMetadata =>
+  meta.mode === 'auto'
+    ? {
+        ...meta,
+        data: (meta.data || []).map(page => ({
+          ...page,
+          guidance: (page.guidance || []).map(guidance => ({ ...guidance, answerKey: normalizeAnswerKey(guidance.answerKey) }))
+        }))
+      }
+    : { ...meta, regions: (meta.regions || []).map(normalizeRegion) }
+
+const fetchWorksheetData = async (worksheetId: string): Promise<WorksheetDataResponse> => {
+  // If Supabase is not configured, fallback to JSON files
+  if (!shouldUseSupabase()) {
+    console.log('Supabase not configured, using JSON fallback')
+    const response = await fetch(`/data/${worksheetId}.json`)
+    if (!response.ok) {
+      throw new Error(`Failed to fetch worksheet data: ${response.status}`)
+    }
+    const jsonData = await response.json()
+    
+    // Cast JSON data to RegionsModeMetadata for local files (legacy format)
+    const regionsMetadata: RegionsModeMetadata = {
+      mode: 'regions',
+      documentName: jsonData.documentName,
+      documentId: jsonData.documentId,
+      drmProtectedPages: jsonData.drmProtectedPages || [],
+      regions: (jsonData.regions || []).map(normalizeRegion)
+    }
+    
+    return {
+      meta: regionsMetadata,
+      pdfUrl: `/pdfs/${worksheetId}.pdf`
+    }
+  }
+
+  // Use Supabase edge function to get both metadata and PDF URL
+  const { data, error } = await supabase.functions.invoke('get-worksheet-data', {
+    body: { worksheetId },
+  });
+
+  if (error) {
+    throw new Error(`Failed to fetch worksheet: ${error.message}`)
+  }
+
+  if (!data?.meta || !data?.pdfUrl) {
+    throw new Error('Invalid response from worksheet data function')
+  }
+
+  return {
+    meta: normalizeMetadata(data.meta),
+    pdfUrl: data.pdfUrl,
+    audioManifest: data.audioManifest || {}
+  }
 }
 
 export const useWorksheetData = (worksheetId: string) => {
   return useQuery({
     queryKey: ['worksheet', worksheetId],
     queryFn: async (): Promise<WorksheetDataResponse> => {
-      // If Supabase is not configured, fallback to JSON files
-      if (!shouldUseSupabase()) {
-        console.log('Supabase not configured, using JSON fallback')
-        const response = await fetch(`/data/${worksheetId}.json`)
-        if (!response.ok) {
-          throw new Error(`Failed to fetch worksheet data: ${response.status}`)
-        }
-        const jsonData = await response.json()
-        
-        // Cast JSON data to RegionsModeMetadata for local files (legacy format)
-        const regionsMetadata: RegionsModeMetadata = {
-          mode: 'regions',
-          documentName: jsonData.documentName,
-          documentId: jsonData.documentId,
-          drmProtectedPages: jsonData.drmProtectedPages || [],
-          regions: jsonData.regions || []
-        }
-        
-        return {
-          meta: regionsMetadata,
-          pdfUrl: `/pdfs/${worksheetId}.pdf`
+      // Use the downloaded pack straight away when the device is offline
+      if (!navigator.onLine) {
+        const offlinePack = await getOfflinePack(worksheetId)
+        if (offlinePack) {
+          return offlinePack
         }
       }
 
-      // Use Supabase edge function to get both metadata and PDF URL
-      const { data, error } = await supabase.functions.invoke('get-worksheet-data', {
-        body: { worksheetId },
-      });
-
-      if (error) {
-        throw new Error(`Failed to fetch worksheet: ${error.message}`)
-      }
-
-      if (!data?.meta || !data?.pdfUrl) {
-        throw new Error('Invalid response from worksheet data function')
-      }
-
-      return {
-        meta: data.meta,
-        pdfUrl: data.pdfUrl
+      try {
+        return await fetchWorksheetData(worksheetId)
+      } catch (error) {
+        // Network requests failed - fall back to a downloaded pack if there is one
+        const offlinePack = await getOfflinePack(worksheetId)
+        if (offlinePack) {
+          console.log('Using offline pack for worksheet:', worksheetId)
+          return offlinePack
+        }
+        throw error
       }
     },
     enabled: !!worksheetId,
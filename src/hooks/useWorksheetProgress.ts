@@ -0,0 +1,147 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase, shouldUseSupabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import { protectedPageQueryKey } from '@/hooks/useProtectedPage';
+import type { StoredRegionData, StoredGuidanceData } from '@/lib/pageState';
+
+export type ProgressItemType = 'region' | 'guidance';
+
+export interface WorksheetPageProgress {
+  regions: Record<string, StoredRegionData>;
+  guidance: Record<number, StoredGuidanceData>;
+}
+
+interface WorksheetProgressRow {
+  item_type: ProgressItemType;
+  item_key: string;
+  current_step_index: number;
+}
+
+export interface SaveWorksheetProgressInput {
+  worksheetId: string;
+  pageNumber: number;
+  itemType: ProgressItemType;
+  itemKey: string;
+  stepIndex: number;
+  totalSteps?: number;
+}
+
+const progressQueryKey = (studentProfileId: string | undefined, worksheetId: string, pageNumber: number) =>
+  ['worksheet-progress', studentProfileId, worksheetId, pageNumber];
+
+// Hook for fetching the active student profile's progress on a worksheet page
+export const useWorksheetProgress = (worksheetId: string, pageNumber: number) => {
+  const { activeStudentProfile } = useAuth();
+
+  return useQuery({
+    queryKey: progressQueryKey(activeStudentProfile?.id, worksheetId, pageNumber),
+    queryFn: async (): Promise<WorksheetPageProgress> => {
+      if (!activeStudentProfile) {
+        throw new Error('No active student profile');
+      }
+
+      const { data, error } = await supabase
+        .from('worksheet_progress')
+        .select('item_type, item_key, current_step_index')
+        .eq('student_profile_id', activeStudentProfile.id)
+        .eq('worksheet_id', worksheetId)
+        .eq('page_number', pageNumber);
+
+      if (error) {
+        throw new Error(`Failed to fetch worksheet progress: ${error.message}`);
+      }
+
+      const progress: WorksheetPageProgress = { regions: {}, guidance: {} };
+      (data as WorksheetProgressRow[] || []).forEach(row => {
+        if (row.item_type === 'region') {
+          progress.regions[row.item_key] = { currentStepIndex: row.current_step_index };
+        } else {
+          progress.guidance[Number(row.item_key)] = { currentStepIndex: row.current_step_index };
+        }
+      });
+
+      return progress;
+    },
+    // Progress is only synced when Supabase is configured; otherwise sessionStorage is used alone
+    enabled: !!activeStudentProfile && shouldUseSupabase() && !!worksheetId && !isNaN(pageNumber),
+    staleTime: 60 * 1000, // 1 minute
+  });
+};
+
+// Hook for saving progress of a single region or guidance item
+export const useSaveWorksheetProgress = () => {
+  const { activeStudentProfile } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: SaveWorksheetProgressInput) => {
+      if (!activeStudentProfile || !shouldUseSupabase()) {
+        return null;
+      }
+
+      const { error } = await supabase
+        .from('worksheet_progress')
+        .upsert({
+          student_profile_id: activeStudentProfile.id,
+          worksheet_id: input.worksheetId,
+          page_number: input.pageNumber,
+          item_type: input.itemType,
+          item_key: input.itemKey,
+          current_step_index: input.stepIndex,
+          total_steps: input.totalSteps ?? null,
+        }, {
+          onConflict: 'student_profile_id,worksheet_id,page_number,item_type,item_key',
+        });
+
+      if (error) {
+        throw new Error(`Failed to save worksheet progress: ${error.message}`);
+      }
+
+      // Opening a region unlocks it on protected pages; unlocks are recorded on the server,
+      // since the renderer does not trust progress the client writes
+      const queryKey = progressQueryKey(activeStudentProfile.id, input.worksheetId, input.pageNumber);
+      const isNewRegion = input.itemType === 'region' &&
+        !queryClient.getQueryData<WorksheetPageProgress>(queryKey)?.regions[input.itemKey];
+
+      if (isNewRegion) {
+        const { error: unlockError } = await supabase.rpc('unlock_region', {
+          student_profile_id: activeStudentProfile.id,
+          region_id: input.itemKey,
+        });
+
+        if (unlockError) {
+          throw new Error(`Failed to unlock region: ${unlockError.message}`);
+        }
+      }
+
+      return { ...input, isNewRegion };
+    },
+    onSuccess: (input) => {
+      if (!input) return;
+
+      const queryKey = progressQueryKey(activeStudentProfile?.id, input.worksheetId, input.pageNumber);
+
+      // Protected page images are rendered again with the newly unlocked region
+      if (input.isNewRegion) {
+        queryClient.invalidateQueries({
+          queryKey: protectedPageQueryKey(activeStudentProfile?.id, input.worksheetId, input.pageNumber),
+        });
+      }
+
+      queryClient.setQueryData<WorksheetPageProgress>(
+        queryKey,
+        (previous) => {
+          const progress = previous || { regions: {}, guidance: {} };
+          const storedItem = { currentStepIndex: input.stepIndex };
+          return input.itemType === 'region'
+            ? { ...progress, regions: { ...progress.regions, [input.itemKey]: storedItem } }
+            : { ...progress, guidance: { ...progress.guidance, [Number(input.itemKey)]: storedItem } };
+        }
+      );
+    },
+    onError: (error: Error) => {
+      // Progress is still cached in sessionStorage, so a failed sync is not fatal
+      console.warn(error.message);
+    },
+  });
+};
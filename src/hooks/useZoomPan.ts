@@ -0,0 +1,206 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type React from 'react';
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 4;
+const DOUBLE_TAP_ZOOM = 2;
+const DOUBLE_TAP_DELAY = 300;
+// Pointer travel in pixels after which a press is treated as a pan rather than a tap
+const TAP_SLOP = 6;
+// How long the zoom has to settle before the content is re-rendered at the new resolution
+const RENDER_DELAY = 250;
+
+interface ZoomPanState {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+type Gesture =
+  | { kind: 'pan'; startPointer: Point; start: ZoomPanState }
+  | { kind: 'pinch'; startDistance: number; startMidpoint: Point; start: ZoomPanState };
+
+const clampZoom = (zoom: number) => Math.min(Math.max(zoom, MIN_ZOOM), MAX_ZOOM);
+
+// Hook for pinch-zoom and pan of a fixed-size content box inside a same-sized viewport.
+// `renderZoom` trails `zoom` and only changes once a gesture settles, so callers can re-render
+// the content at renderZoom and let the CSS transform cover the difference while zooming.
+export const useZoomPan = (viewportWidth: number, viewportHeight: number) => {
+  const [state, setState] = useState<ZoomPanState>({ zoom: 1, x: 0, y: 0 });
+  const [renderZoom, setRenderZoom] = useState(1);
+
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const pointersRef = useRef(new Map<number, Point>());
+  const gestureRef = useRef<Gesture | null>(null);
+  const movedRef = useRef(false);
+  const lastTapRef = useRef(0);
+
+  // Keep the content covering the viewport so it can never be panned out of view
+  const clampState = useCallback((next: ZoomPanState): ZoomPanState => {
+    const zoom = clampZoom(next.zoom);
+    const minX = viewportWidth - viewportWidth * zoom;
+    const minY = viewportHeight - viewportHeight * zoom;
+    return {
+      zoom,
+      x: Math.min(Math.max(next.x, minX), 0),
+      y: Math.min(Math.max(next.y, minY), 0),
+    };
+  }, [viewportWidth, viewportHeight]);
+
+  // Zoom so the content point under `anchor` (viewport coordinates) stays put
+  const zoomAround = useCallback((from: ZoomPanState, zoom: number, anchor: Point, translate: Point = { x: 0, y: 0 }) => {
+    const ratio = clampZoom(zoom) / from.zoom;
+    return clampState({
+      zoom,
+      x: anchor.x - (anchor.x - from.x) * ratio + translate.x,
+      y: anchor.y - (anchor.y - from.y) * ratio + translate.y,
+    });
+  }, [clampState]);
+
+  const resetZoom = useCallback(() => {
+    setState({ zoom: 1, x: 0, y: 0 });
+    setRenderZoom(1);
+  }, []);
+
+  // Re-render at the effective resolution once the zoom level has settled
+  useEffect(() => {
+    if (state.zoom === renderZoom) return;
+    const timeout = setTimeout(() => setRenderZoom(state.zoom), RENDER_DELAY);
+    return () => clearTimeout(timeout);
+  }, [state.zoom, renderZoom]);
+
+  // Re-clamp when the viewport is resized
+  useEffect(() => {
+    setState(current => clampState(current));
+  }, [clampState]);
+
+  const toViewportPoint = (e: { clientX: number; clientY: number }): Point => {
+    const rect = viewportRef.current?.getBoundingClientRect();
+    return { x: e.clientX - (rect?.left ?? 0), y: e.clientY - (rect?.top ?? 0) };
+  };
+
+  const startGesture = () => {
+    const points = Array.from(pointersRef.current.values());
+    if (points.length >= 2) {
+      const [a, b] = points;
+      gestureRef.current = {
+        kind: 'pinch',
+        startDistance: Math.hypot(b.x - a.x, b.y - a.y) || 1,
+        startMidpoint: { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 },
+        start: stateRef.current,
+      };
+    } else if (points.length === 1) {
+      gestureRef.current = { kind: 'pan', startPointer: points[0], start: stateRef.current };
+    } else {
+      gestureRef.current = null;
+    }
+  };
+
+  const onPointerDown = (e: React.PointerEvent) => {
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+    if (pointersRef.current.size === 0) movedRef.current = false;
+    pointersRef.current.set(e.pointerId, toViewportPoint(e));
+    startGesture();
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    if (!pointersRef.current.has(e.pointerId)) return;
+    const point = toViewportPoint(e);
+    pointersRef.current.set(e.pointerId, point);
+    const gesture = gestureRef.current;
+    if (!gesture) return;
+
+    if (gesture.kind === 'pinch') {
+      const [a, b] = Array.from(pointersRef.current.values());
+      const distance = Math.hypot(b.x - a.x, b.y - a.y);
+      const midpoint = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+      movedRef.current = true;
+      setState(zoomAround(
+        gesture.start,
+        gesture.start.zoom * (distance / gesture.startDistance),
+        gesture.startMidpoint,
+        { x: midpoint.x - gesture.startMidpoint.x, y: midpoint.y - gesture.startMidpoint.y }
+      ));
+    } else {
+      const deltaX = point.x - gesture.startPointer.x;
+      const deltaY = point.y - gesture.startPointer.y;
+      if (Math.hypot(deltaX, deltaY) > TAP_SLOP) movedRef.current = true;
+      // At 100% there is nothing to pan, so leave one-finger drags to page scrolling and swipes
+      if (gesture.start.zoom > MIN_ZOOM && movedRef.current) {
+        setState(clampState({ ...gesture.start, x: gesture.start.x + deltaX, y: gesture.start.y + deltaY }));
+      }
+    }
+  };
+
+  const onPointerUp = (e: React.PointerEvent) => {
+    if (!pointersRef.current.delete(e.pointerId)) return;
+    // Continue as a pan with the remaining finger after a pinch
+    startGesture();
+
+    if (pointersRef.current.size === 0 && !movedRef.current && e.type === 'pointerup') {
+      const now = Date.now();
+      if (now - lastTapRef.current < DOUBLE_TAP_DELAY) {
+        lastTapRef.current = 0;
+        const current = stateRef.current;
+        setState(current.zoom > MIN_ZOOM
+          ? { zoom: 1, x: 0, y: 0 }
+          : zoomAround(current, DOUBLE_TAP_ZOOM, toViewportPoint(e)));
+      } else {
+        lastTapRef.current = now;
+      }
+    }
+  };
+
+  // Swallow the click that ends a pan or pinch so it does not open a region underneath
+  const onClickCapture = (e: React.MouseEvent) => {
+    if (movedRef.current) {
+      e.stopPropagation();
+      e.preventDefault();
+      movedRef.current = false;
+    }
+  };
+
+  // Trackpad pinches arrive as ctrl + wheel events; they need a non-passive listener
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey) return;
+      e.preventDefault();
+      const rect = viewport.getBoundingClientRect();
+      const anchor = { x: e.clientX - rect.left, y: e.clientY - rect.top };
+      setState(current => zoomAround(current, current.zoom * Math.exp(-e.deltaY / 100), anchor));
+    };
+
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  }, [zoomAround]);
+
+  return {
+    viewportRef,
+    zoom: state.zoom,
+    renderZoom,
+    isZoomed: state.zoom > MIN_ZOOM,
+    resetZoom,
+    // Content is rendered at renderZoom; the transform scales it the rest of the way to zoom
+    contentStyle: {
+      transform: `translate(${state.x}px, ${state.y}px) scale(${state.zoom / renderZoom})`,
+      transformOrigin: '0 0',
+    } as React.CSSProperties,
+    viewportHandlers: {
+      onPointerDown,
+      onPointerMove,
+      onPointerUp,
+      onPointerCancel: onPointerUp,
+      onClickCapture,
+    },
+  };
+};
@@ -0,0 +1,123 @@
+import { supabase, shouldUseSupabase } from '@/lib/supabase';
+import type { RegionData, GuidanceItem } from '@/types/worksheet';
+
+export interface AiTutorMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface AiTutorContext {
+  mode?: 'auto' | 'regions';
+  pageDescription?: string;
+  activeGuidance?: Pick<GuidanceItem, 'title' | 'description'>;
+  activeRegion?: Pick<RegionData, 'description'>;
+}
+
+export interface AiTutorRequest {
+  question: string;
+  // The page image is uploaded once per session; later messages only send its URI
+  pageImage?: string;
+  pageImageUri?: string;
+  history: AiTutorMessage[];
+  context: AiTutorContext;
+}
+
+export interface AiTutorResponse {
+  reply: string;
+  creditsRemaining: number;
+  pageImageUri: string;
+}
+
+export class AiTutorError extends Error {
+  status: number | null;
+
+  constructor(message: string, status: number | null = null) {
+    super(message);
+    this.name = 'AiTutorError';
+    this.status = status;
+  }
+
+  get isOutOfCredits() {
+    return this.status === 402;
+  }
+
+  get isPageImageExpired() {
+    return this.status === 410;
+  }
+}
+
+export interface AiTutorStreamOptions {
+  signal?: AbortSignal;
+  onText: (text: string) => void;
+}
+
+const readErrorMessage = async (response: Response) => {
+  try {
+    const body = await response.json();
+    return body?.error || response.statusText;
+  } catch {
+    // Keep the status text when the body is not JSON
+    return response.statusText;
+  }
+};
+
+// Ask the ai-tutor edge function, which holds the model key and charges the account's credits.
+// The reply is streamed back as server-sent events and the text so far is passed to onText;
+// supabase.functions.invoke cannot be aborted, so the function is called with fetch directly.
+export const streamAiTutor = async (
+  request: AiTutorRequest,
+  { signal, onText }: AiTutorStreamOptions
+): Promise<AiTutorResponse> => {
+  if (!shouldUseSupabase()) {
+    throw new AiTutorError('AI tutor requires Supabase to be configured');
+  }
+
+  const { data: { session } } = await supabase.auth.getSession();
+  const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/ai-tutor`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      apikey: anonKey,
+      Authorization: `Bearer ${session?.access_token || anonKey}`,
+    },
+    body: JSON.stringify({ ...request, stream: true }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    throw new AiTutorError(await readErrorMessage(response), response.status);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let reply = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += value;
+    const events = buffer.split('\n\n');
+    buffer = events.pop() || '';
+
+    for (const event of events) {
+      if (!event.startsWith('data:')) continue;
+      const payload = JSON.parse(event.slice(5).trim());
+
+      if (payload.error) {
+        throw new AiTutorError(payload.error);
+      }
+      if (payload.done) {
+        return { reply, creditsRemaining: payload.creditsRemaining, pageImageUri: payload.pageImageUri };
+      }
+      if (payload.text) {
+        reply += payload.text;
+        onText(reply);
+      }
+    }
+  }
+
+  throw new AiTutorError('AI tutor stream ended unexpectedly');
+};
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { checkAnswer, getReviewStepIndex, parseAnswerKey, parseAnswerPrompt } from '@/lib/answerKey';
+import type { AnswerKey } from '@/types/worksheet';
+
+describe('parseAnswerKey', () => {
+  it('parses every key type', () => {
+    expect(parseAnswerKey({ type: 'exact', answer: 'Cairo' }))
+      .toEqual({ type: 'exact', answer: 'Cairo', caseSensitive: false });
+    expect(parseAnswerKey({ type: 'choice', options: ['a', 'b'], correct: 1, reviewStep: 2.7 }))
+      .toEqual({ type: 'choice', options: ['a', 'b'], correct: 1, reviewStep: 2 });
+    expect(parseAnswerKey({ type: 'numeric', answer: 12.5, tolerance: -0.1 }))
+      .toEqual({ type: 'numeric', answer: 12.5, tolerance: 0.1 });
+    expect(parseAnswerKey({ type: 'regex', pattern: '^x\\s*=\\s*4$', flags: 'i' }))
+      .toEqual({ type: 'regex', pattern: '^x\\s*=\\s*4$', flags: 'i' });
+  });
+
+  it('rejects malformed keys', () => {
+    expect(parseAnswerKey(null)).toBeNull();
+    expect(parseAnswerKey({ type: 'unknown', answer: 'x' })).toBeNull();
+    expect(parseAnswerKey({ type: 'exact', answer: 4 })).toBeNull();
+    expect(parseAnswerKey({ type: 'choice', options: ['only one'], correct: 0 })).toBeNull();
+    expect(parseAnswerKey({ type: 'choice', options: ['a', 'b'], correct: 2 })).toBeNull();
+    expect(parseAnswerKey({ type: 'numeric', answer: Number.NaN })).toBeNull();
+  });
+
+  it('rejects regex keys that do not compile', () => {
+    expect(parseAnswerKey({ type: 'regex', pattern: '([a-z' })).toBeNull();
+    expect(parseAnswerKey({ type: 'regex', pattern: 'a', flags: 'zz' })).toBeNull();
+  });
+
+  it('does not take a prompt for a key', () => {
+    expect(parseAnswerKey({ type: 'exact', serverChecked: true })).toBeNull();
+  });
+});
+
+describe('parseAnswerPrompt', () => {
+  it('parses prompts sent in place of keys', () => {
+    expect(parseAnswerPrompt({ type: 'numeric', serverChecked: true, reviewStep: 1 }))
+      .toEqual({ type: 'numeric', serverChecked: true, reviewStep: 1 });
+    expect(parseAnswerPrompt({ type: 'choice', options: ['a', 'b'], serverChecked: true }))
+      .toEqual({ type: 'choice', options: ['a', 'b'], serverChecked: true });
+  });
+
+  it('rejects full keys and malformed prompts', () => {
+    expect(parseAnswerPrompt({ type: 'exact', answer: 'Cairo' })).toBeNull();
+    expect(parseAnswerPrompt({ type: 'choice', options: ['a'], serverChecked: true })).toBeNull();
+  });
+});
+
+describe('checkAnswer', () => {
+  it('compares exact answers without extra whitespace, ignoring case unless asked', () => {
+    const key: AnswerKey = { type: 'exact', answer: 'New  York' };
+    expect(checkAnswer(key, '  new york ')).toBe(true);
+    expect(checkAnswer({ ...key, caseSensitive: true }, 'new york')).toBe(false);
+    expect(checkAnswer({ ...key, caseSensitive: true }, 'New York')).toBe(true);
+  });
+
+  it('checks the chosen option', () => {
+    const key: AnswerKey = { type: 'choice', options: ['3', '4'], correct: 1 };
+    expect(checkAnswer(key, '4')).toBe(true);
+    expect(checkAnswer(key, '3')).toBe(false);
+  });
+
+  it('reads Arabic-Indic digits and decimal commas', () => {
+    const key: AnswerKey = { type: 'numeric', answer: 12.5 };
+    expect(checkAnswer(key, '١٢٫٥')).toBe(true);
+    expect(checkAnswer(key, '۱۲٫۵')).toBe(true);
+    expect(checkAnswer(key, '12,5')).toBe(true);
+    expect(checkAnswer(key, '12.5')).toBe(true);
+    expect(checkAnswer(key, 'twelve')).toBe(false);
+  });
+
+  it('accepts numbers within the tolerance', () => {
+    const key: AnswerKey = { type: 'numeric', answer: 3.14, tolerance: 0.01 };
+    expect(checkAnswer(key, '3.15')).toBe(true);
+    expect(checkAnswer(key, '3.13')).toBe(true);
+    expect(checkAnswer(key, '3.16')).toBe(false);
+    expect(checkAnswer({ type: 'numeric', answer: 0.3 }, '0.3')).toBe(true);
+  });
+
+  it('matches regex keys and treats a bad pattern as wrong', () => {
+    expect(checkAnswer({ type: 'regex', pattern: '^x\\s*=\\s*4$', flags: 'i' }, ' X = 4 ')).toBe(true);
+    expect(checkAnswer({ type: 'regex', pattern: '^x=4$' }, 'x=5')).toBe(false);
+    expect(checkAnswer({ type: 'regex', pattern: '([a-z' }, 'a')).toBe(false);
+  });
+});
+
+describe('getReviewStepIndex', () => {
+  it('clamps the review step to the item steps', () => {
+    expect(getReviewStepIndex({ type: 'exact', answer: 'a', reviewStep: 5 }, 3)).toBe(2);
+    expect(getReviewStepIndex({ type: 'numeric', serverChecked: true }, 3)).toBe(0);
+  });
+});
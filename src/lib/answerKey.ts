@@ -0,0 +1,118 @@
+import type { AnswerKey, AnswerPrompt, GuidanceItem, RegionData, WorksheetMetadata } from '@/types/worksheet';
+
+// Answers are compared without surrounding or repeated whitespace
+const normalizeText = (value: string) => value.trim().replace(/\s+/g, ' ');
+
+// Accepts a key from JSON or the database, returning null when it is missing or malformed
+export const parseAnswerKey = (value: unknown): AnswerKey | null => {
+  if (!value || typeof value !== 'object') return null;
+  const key = value as Record<string, unknown>;
+  const reviewStep = typeof key.reviewStep === 'number' && key.reviewStep >= 0
+    ? { reviewStep: Math.floor(key.reviewStep) }
+    : {};
+
+  switch (key.type) {
+    case 'exact':
+      return typeof key.answer === 'string'
+        ? { type: 'exact', answer: key.answer, caseSensitive: key.caseSensitive === true, ...reviewStep }
+        : null;
+    case 'choice': {
+      const options = Array.isArray(key.options) ? key.options.filter((option): option is string => typeof option === 'string') : [];
+      return options.length > 1 && typeof key.correct === 'number' && key.correct >= 0 && key.correct < options.length
+        ? { type: 'choice', options, correct: key.correct, ...reviewStep }
+        : null;
+    }
+    case 'numeric':
+      return typeof key.answer === 'number' && Number.isFinite(key.answer)
+        ? { type: 'numeric', answer: key.answer, tolerance: typeof key.tolerance === 'number' ? Math.abs(key.tolerance) : 0, ...reviewStep }
+        : null;
+    case 'regex':
+      if (typeof key.pattern !== 'string') return null;
+      try {
+        new RegExp(key.pattern, typeof key.flags === 'string' ? key.flags : undefined);
+      } catch {
+        return null;
+      }
+      return { type: 'regex', pattern: key.pattern, flags: typeof key.flags === 'string' ? key.flags : undefined, ...reviewStep };
+    default:
+      return null;
+  }
+};
+
+// Accepts a prompt sent in place of a key, returning null for anything else
+export const parseAnswerPrompt = (value: unknown): AnswerPrompt | null => {
+  if (!value || typeof value !== 'object') return null;
+  const prompt = value as Record<string, unknown>;
+  if (prompt.serverChecked !== true) return null;
+  const reviewStep = typeof prompt.reviewStep === 'number' && prompt.reviewStep >= 0
+    ? { reviewStep: Math.floor(prompt.reviewStep) }
+    : {};
+
+  switch (prompt.type) {
+    case 'exact':
+    case 'numeric':
+    case 'regex':
+      return { type: prompt.type, serverChecked: true, ...reviewStep };
+    case 'choice': {
+      const options = Array.isArray(prompt.options) ? prompt.options.filter((option): option is string => typeof option === 'string') : [];
+      return options.length > 1 ? { type: 'choice', options, serverChecked: true, ...reviewStep } : null;
+    }
+    default:
+      return null;
+  }
+};
+
+export const isAnswerPrompt = (key: AnswerKey | AnswerPrompt): key is AnswerPrompt =>
+  'serverChecked' in key && key.serverChecked === true;
+
+// Floating-point error in the difference of two typed numbers
+const TOLERANCE_MARGIN = 1e-9;
+
+// Parses numbers typed with either a decimal point or a decimal comma, including Arabic-Indic digits
+const parseNumber = (value: string): number | null => {
+  const western = value
+    .trim()
+    .replace(/[٠-٩]/g, digit => String(digit.charCodeAt(0) - 0x0660))
+    .replace(/[۰-۹]/g, digit => String(digit.charCodeAt(0) - 0x06F0))
+    .replace(/[٫,]/g, '.');
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)$/.test(western)) return null;
+  return parseFloat(western);
+};
+
+export const checkAnswer = (key: AnswerKey, answer: string): boolean => {
+  switch (key.type) {
+    case 'exact':
+      return key.caseSensitive
+        ? normalizeText(answer) === normalizeText(key.answer)
+        : normalizeText(answer).toLocaleLowerCase() === normalizeText(key.answer).toLocaleLowerCase();
+    case 'choice':
+      return answer === key.options[key.correct];
+    case 'numeric': {
+      const value = parseNumber(answer);
+      // The margin keeps answers right at the edge of the tolerance, like 3.15 for 3.14 ± 0.01, correct
+      return value !== null && Math.abs(value - key.answer) <= (key.tolerance ?? 0) + TOLERANCE_MARGIN;
+    }
+    case 'regex':
+      try {
+        return new RegExp(key.pattern, key.flags).test(answer.trim());
+      } catch {
+        return false;
+      }
+  }
+};
+
+// Step to re-offer after a wrong answer, clamped to the item's steps
+export const getReviewStepIndex = (key: AnswerKey | AnswerPrompt, stepCount: number) =>
+  Math.min(Math.max(key.reviewStep ?? 0, 0), Math.max(stepCount - 1, 0));
+
+// Copies worksheet data without any answer keys, for anything that leaves the worksheet view
+// (the AI chat in particular must never see them)
+export const withoutAnswerKey = <T extends RegionData | GuidanceItem>(item: T): T => {
+  const { answerKey: _answerKey, ...rest } = item;
+  return rest as T;
+};
+
+export const metadataWithoutAnswerKeys = (meta: WorksheetMetadata): WorksheetMetadata =>
+  meta.mode === 'auto'
+    ? { ...meta, data: meta.data.map(page => ({ ...page, guidance: page.guidance.map(withoutAnswerKey) })) }
+    : { ...meta, regions: meta.regions.map(withoutAnswerKey) };
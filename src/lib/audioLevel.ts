@@ -0,0 +1,62 @@
+// Loudness of what an <audio> element is playing, read from a Web Audio AnalyserNode
+export interface AudioLevelMeter {
+  // 0 (silent) to 1 (loud)
+  getLevel: () => number;
+  // Browsers start an AudioContext suspended until the page has been interacted with
+  resume: () => void;
+  // Releases the AudioContext, which browsers only allow a few of. The element stays routed
+  // through it, so it plays nothing afterwards.
+  close: () => void;
+}
+
+// Speech is quieter than full scale, so its RMS is scaled up to use the whole range
+const LEVEL_GAIN = 4;
+
+// Routes the element through an AudioContext, which is permanent for that element, so call it only
+// when the level is needed. Cross-origin files (signed storage URLs) must then be fetched with CORS,
+// or the analyser would read, and the speakers play, silence.
+export const createAudioLevelMeter = (audio: HTMLAudioElement): AudioLevelMeter | null => {
+  const AudioContextClass = window.AudioContext
+    || (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  if (!AudioContextClass) {
+    return null;
+  }
+
+  audio.crossOrigin = 'anonymous';
+
+  const context = new AudioContextClass();
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 512;
+  analyser.smoothingTimeConstant = 0.6;
+
+  const source = context.createMediaElementSource(audio);
+  source.connect(analyser);
+  analyser.connect(context.destination);
+
+  const samples = new Float32Array(analyser.fftSize);
+
+  return {
+    getLevel: () => {
+      analyser.getFloatTimeDomainData(samples);
+      let sumOfSquares = 0;
+      for (const sample of samples) {
+        sumOfSquares += sample * sample;
+      }
+      return Math.min(1, Math.sqrt(sumOfSquares / samples.length) * LEVEL_GAIN);
+    },
+    resume: () => {
+      if (context.state === 'suspended') {
+        context.resume().catch(() => {
+          // Retried on the next narration
+        });
+      }
+    },
+    close: () => {
+      source.disconnect();
+      analyser.disconnect();
+      context.close().catch(() => {
+        // Already closed
+      });
+    },
+  };
+};
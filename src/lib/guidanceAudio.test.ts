@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { hasStepAudioFile } from '@/lib/guidanceAudio';
+
+const audioResponse = (status: number) =>
+  new Response(null, { status, headers: { 'content-type': 'audio/mpeg' } });
+
+describe('hasStepAudioFile', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('answers from the manifest without a request', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    const manifest = { '1_1': [{ url: 'https://cdn/1_1_1.mp3', durationSeconds: 2 }, null] };
+    expect(await hasStepAudioFile('ws', '1_1', 0, manifest)).toBe(true);
+    expect(await hasStepAudioFile('ws', '1_1', 1, manifest)).toBe(false);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('keeps files that were found or missing for the session', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(audioResponse(200))
+      .mockResolvedValueOnce(audioResponse(404));
+    vi.stubGlobal('fetch', fetchMock);
+
+    expect(await hasStepAudioFile('cached', '1_1', 0)).toBe(true);
+    expect(await hasStepAudioFile('cached', '1_1', 1)).toBe(false);
+    expect(await hasStepAudioFile('cached', '1_1', 0)).toBe(true);
+    expect(await hasStepAudioFile('cached', '1_1', 1)).toBe(false);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('checks again after a network or server error', async () => {
+    const fetchMock = vi.fn()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(audioResponse(503))
+      .mockResolvedValueOnce(audioResponse(200));
+    vi.stubGlobal('fetch', fetchMock);
+
+    expect(await hasStepAudioFile('offline', '1_1', 0)).toBeNull();
+    expect(await hasStepAudioFile('offline', '1_1', 0)).toBeNull();
+    expect(await hasStepAudioFile('offline', '1_1', 0)).toBe(true);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,128 @@
+import type { AudioManifest, AutoModePageData } from '@/types/worksheet';
+
+export interface GuidanceAudioIssue {
+  pageNumber: number;
+  guidanceIndex: number;
+  message: string;
+}
+
+// Path of the audio file played for one step of a guidance item (steps are 1-based on disk)
+export const getGuidanceAudioPath = (worksheetId: string, audioName: string, step: number) =>
+  `/audio/${worksheetId}/${audioName}_${step}.mp3`;
+
+// URL of the narration for one step (0-based), or null when it has none. Supabase documents come with an
+// audio manifest; the JSON fallback and offline packs keep the /audio naming convention.
+export const getStepAudioUrl = (
+  worksheetId: string,
+  audioName: string,
+  stepIndex: number,
+  audioManifest?: AudioManifest
+): string | null =>
+  audioManifest
+    ? audioManifest[audioName]?.[stepIndex]?.url ?? null
+    : getGuidanceAudioPath(worksheetId, audioName, stepIndex + 1);
+
+// Whether the file exists, or null when that could not be found out: offline, or a server error such as
+// the service worker's 503 for files it has not downloaded
+const checkAudioFile = async (path: string): Promise<boolean | null> => {
+  try {
+    const response = await fetch(path, { method: 'HEAD', cache: 'no-store' });
+    if (response.status >= 500) {
+      return null;
+    }
+    // The SPA fallback answers unknown paths with index.html, so a 200 alone is not enough
+    const contentType = response.headers.get('content-type') || '';
+    return response.ok && !contentType.startsWith('text/html');
+  } catch {
+    return null;
+  }
+};
+
+const audioFileExists = async (path: string) => (await checkAudioFile(path)) === true;
+
+// Results of /audio checks for this session, shared by every page
+const stepAudioChecks = new Map<string, Promise<boolean | null>>();
+
+// Whether one step (0-based) has a narration file, or null when it could not be checked. Manifest lookups
+// need no request; /audio paths get a HEAD request, which the service worker answers from its caches after
+// the first time. Checks that could not be made are not kept, so the next call tries again.
+export const hasStepAudioFile = (
+  worksheetId: string,
+  audioName: string,
+  stepIndex: number,
+  audioManifest?: AudioManifest
+): Promise<boolean | null> => {
+  if (audioManifest) {
+    return Promise.resolve(!!audioManifest[audioName]?.[stepIndex]);
+  }
+
+  const path = getGuidanceAudioPath(worksheetId, audioName, stepIndex + 1);
+  let check = stepAudioChecks.get(path);
+  if (!check) {
+    const newCheck = checkAudioFile(path).then(exists => {
+      if (exists === null && stepAudioChecks.get(path) === newCheck) {
+        stepAudioChecks.delete(path);
+      }
+      return exists;
+    });
+    stepAudioChecks.set(path, newCheck);
+    check = newCheck;
+  }
+  return check;
+};
+
+// Checks that every guidance item has an audioName with one audio file per description step
+export const validateGuidanceAudio = async (
+  worksheetId: string,
+  pages: AutoModePageData[],
+  audioManifest?: AudioManifest
+): Promise<GuidanceAudioIssue[]> => {
+  const issues: GuidanceAudioIssue[] = [];
+  const seenAudioNames = new Map<string, number>();
+  const fileChecks: Promise<void>[] = [];
+
+  pages.forEach(page => {
+    page.guidance.forEach((guidance, guidanceIndex) => {
+      const audioName = guidance.audioName.trim();
+      if (!audioName) {
+        issues.push({ pageNumber: page.page_number, guidanceIndex, message: 'Audio name is empty' });
+        return;
+      }
+
+      const duplicatePage = seenAudioNames.get(audioName);
+      if (duplicatePage !== undefined) {
+        issues.push({
+          pageNumber: page.page_number,
+          guidanceIndex,
+          message: `Audio name "${audioName}" is already used on page ${duplicatePage}`,
+        });
+      } else {
+        seenAudioNames.set(audioName, page.page_number);
+      }
+
+      guidance.description.forEach((_, stepIndex) => {
+        if (audioManifest) {
+          if (!audioManifest[audioName]?.[stepIndex]) {
+            issues.push({ pageNumber: page.page_number, guidanceIndex, message: `Missing audio for ${audioName}_${stepIndex + 1}` });
+          }
+          return;
+        }
+
+        const path = getGuidanceAudioPath(worksheetId, audioName, stepIndex + 1);
+        fileChecks.push(
+          audioFileExists(path).then(exists => {
+            if (!exists) {
+              issues.push({ pageNumber: page.page_number, guidanceIndex, message: `Missing ${path}` });
+            }
+          })
+        );
+      });
+    });
+  });
+
+  await Promise.all(fileChecks);
+
+  return issues.sort((a, b) =>
+    a.pageNumber - b.pageNumber || a.guidanceIndex - b.guidanceIndex || a.message.localeCompare(b.message, undefined, { numeric: true })
+  );
+};
@@ -0,0 +1,204 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  createGuidancePlayer,
+  type GuidancePlayerDependencies,
+  type GuidancePlayerItem,
+  type GuidancePlayerOptions,
+  type PlayerAudio,
+  type PlayerSpeech,
+} from '@/lib/guidancePlayer';
+import type { SpeakOptions } from '@/lib/speechSynthesis';
+
+interface TestItem extends GuidancePlayerItem {
+  name: string;
+}
+
+const ITEM: TestItem = { name: '1_1', description: ['First step', 'Second step', 'Third step'] };
+
+const createFakeAudio = () => {
+  const listeners: Record<string, (() => void)[]> = {};
+  const audio: PlayerAudio & { playing: boolean; emit: (type: 'ended' | 'error') => void } = {
+    src: '',
+    playbackRate: 1,
+    defaultPlaybackRate: 1,
+    preservesPitch: false,
+    playing: false,
+    play: () => {
+      audio.playing = true;
+      return Promise.resolve();
+    },
+    pause: () => {
+      audio.playing = false;
+    },
+    addEventListener: (type, listener) => {
+      (listeners[type] ||= []).push(listener);
+    },
+    emit: (type) => {
+      audio.playing = false;
+      listeners[type]?.forEach(listener => listener());
+    },
+  };
+  return audio;
+};
+
+const createFakeSpeech = () => {
+  const spoken: { text: string; options: SpeakOptions }[] = [];
+  const speech: PlayerSpeech & { spoken: typeof spoken; paused: boolean } = {
+    spoken,
+    paused: false,
+    isSupported: () => true,
+    speak: (text, options) => {
+      spoken.push({ text, options });
+    },
+    cancel: () => {},
+    pause: () => {
+      speech.paused = true;
+    },
+    resume: () => {
+      speech.paused = false;
+    },
+  };
+  return speech;
+};
+
+const setup = (
+  options: Partial<GuidancePlayerOptions<TestItem>> = {},
+  createLevelMeter?: GuidancePlayerDependencies['createLevelMeter']
+) => {
+  const audio = createFakeAudio();
+  const speech = createFakeSpeech();
+  const player = createGuidancePlayer<TestItem>({
+    worksheetId: 'ws',
+    getAudioName: item => item.name,
+    rate: 1,
+    autoAdvance: false,
+    ...options,
+  }, { audio, speech, createLevelMeter });
+  return { audio, speech, player };
+};
+
+describe('createGuidancePlayer', () => {
+  it('moves from idle to speaking, paused and finished', () => {
+    const { audio, player } = setup();
+    expect(player.getState().status).toBe('idle');
+
+    player.open(ITEM);
+    expect(player.getState()).toMatchObject({ item: ITEM, stepIndex: 0, narratedStepIndex: 0, status: 'speaking' });
+    expect(audio.src).toBe('/audio/ws/1_1_1.mp3');
+    expect(audio.playing).toBe(true);
+
+    player.togglePause();
+    expect(player.getState().status).toBe('paused');
+    expect(audio.playing).toBe(false);
+
+    player.togglePause();
+    expect(player.getState().status).toBe('speaking');
+    expect(audio.playing).toBe(true);
+
+    audio.emit('ended');
+    expect(player.getState()).toMatchObject({ stepIndex: 0, status: 'finished' });
+  });
+
+  it('advances to the next step when a file ends with auto-advance on', () => {
+    const { audio, player } = setup({ autoAdvance: true });
+
+    player.open(ITEM);
+    audio.emit('ended');
+
+    expect(player.getState()).toMatchObject({ stepIndex: 1, narratedStepIndex: 1, status: 'speaking' });
+    expect(audio.src).toBe('/audio/ws/1_1_2.mp3');
+  });
+
+  it('does not advance after replaying an earlier step', () => {
+    const { audio, player } = setup({ autoAdvance: true });
+
+    player.open(ITEM, 1);
+    player.replay(0);
+    audio.emit('ended');
+
+    expect(player.getState()).toMatchObject({ stepIndex: 1, narratedStepIndex: 0, status: 'finished' });
+  });
+
+  it('reads a step with speech synthesis when its file fails to load', () => {
+    const { audio, speech, player } = setup();
+
+    player.open(ITEM);
+    audio.emit('error');
+
+    expect(speech.spoken.map(({ text }) => text)).toEqual(['First step']);
+    expect(player.getState().status).toBe('speaking');
+
+    speech.spoken[0].options.onFinish?.();
+    expect(player.getState().status).toBe('finished');
+  });
+
+  it('speaks steps that are known to have no file', () => {
+    const { audio, speech, player } = setup({ stepAudio: { '1_1': [false, true, true] } });
+
+    player.open(ITEM);
+
+    expect(audio.src).toBe('');
+    expect(speech.spoken.map(({ text }) => text)).toEqual(['First step']);
+  });
+
+  it('ignores speech callbacks from a step that was moved past', () => {
+    const { speech, player } = setup({ stepAudio: { '1_1': [false, false, false] } });
+
+    player.open(ITEM);
+    player.next();
+    expect(speech.spoken.map(({ text }) => text)).toEqual(['First step', 'Second step']);
+
+    speech.spoken[0].options.onEnd?.();
+    speech.spoken[0].options.onFinish?.();
+    expect(player.getState()).toMatchObject({ stepIndex: 1, narratedStepIndex: 1, status: 'speaking' });
+  });
+
+  it('ignores media callbacks after closing', () => {
+    const { audio, speech, player } = setup({ autoAdvance: true, stepAudio: { '1_1': [true, false, false] } });
+
+    player.open(ITEM);
+    player.close();
+    audio.emit('ended');
+    audio.emit('error');
+
+    expect(player.getState()).toEqual({ item: null, stepIndex: 0, narratedStepIndex: null, status: 'idle' });
+    expect(speech.spoken).toEqual([]);
+  });
+
+  it('swaps in an edited item without restarting its narration', () => {
+    const { audio, player } = setup();
+
+    player.open(ITEM, 2);
+    player.update({ ...ITEM, description: ['First step', 'Second step, edited'] });
+
+    expect(player.getState()).toMatchObject({ stepIndex: 1, status: 'speaking' });
+    expect(player.getState().item?.description[1]).toBe('Second step, edited');
+    expect(audio.src).toBe('/audio/ws/1_1_3.mp3');
+  });
+
+  it('closes the level meter when destroyed', () => {
+    const meter = { getLevel: () => 0.5, resume: vi.fn(), close: vi.fn() };
+    const { player } = setup({ measureLevel: true }, () => meter);
+
+    player.open(ITEM);
+    expect(player.getNarrationLevel()).toBe(0.5);
+
+    player.destroy();
+    expect(meter.close).toHaveBeenCalledTimes(1);
+    expect(player.getState().status).toBe('idle');
+  });
+
+  it('notifies subscribers of every change', () => {
+    const { audio, player } = setup();
+    const statuses: string[] = [];
+    const unsubscribe = player.subscribe(() => statuses.push(player.getState().status));
+
+    player.open(ITEM);
+    audio.emit('ended');
+    unsubscribe();
+    player.close();
+
+    expect(statuses).toContain('speaking');
+    expect(statuses[statuses.length - 1]).toBe('finished');
+  });
+});
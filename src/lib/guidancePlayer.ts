@@ -0,0 +1,390 @@
+import { getStepAudioUrl } from '@/lib/guidanceAudio';
+import {
+  cancelSpeech,
+  isSpeechSynthesisSupported,
+  pauseSpeech,
+  resumeSpeech,
+  speakText,
+  type SpeakOptions,
+} from '@/lib/speechSynthesis';
+import type { AudioLevelMeter } from '@/lib/audioLevel';
+import type { AudioManifest } from '@/types/worksheet';
+import type { TutorSegment, TutorSegments } from '@/types/virtualTutor';
+
+// idle: nothing is being narrated; speaking: a step is being read; paused: the student paused it;
+// finished: the narrated step was read to its end
+export type GuidancePlayerStatus = 'idle' | 'speaking' | 'paused' | 'finished';
+
+// Jumps back a little before a segment's end, so the next segment's first frame never shows
+const SEGMENT_END_MARGIN = 0.1;
+
+type MediaListener = () => void;
+
+// The parts of the <audio> and <video> elements the player uses, so tests can pass fakes
+export interface PlayerAudio {
+  src: string;
+  playbackRate: number;
+  defaultPlaybackRate: number;
+  preservesPitch: boolean;
+  play: () => Promise<void>;
+  pause: () => void;
+  addEventListener: (type: 'ended' | 'error', listener: MediaListener) => void;
+}
+
+export interface PlayerVideo {
+  currentTime: number;
+  paused: boolean;
+  play: () => Promise<void>;
+  pause: () => void;
+  addEventListener: (type: 'timeupdate', listener: MediaListener) => void;
+  removeEventListener: (type: 'timeupdate', listener: MediaListener) => void;
+}
+
+export interface PlayerSpeech {
+  isSupported: () => boolean;
+  speak: (text: string, options: SpeakOptions) => void;
+  cancel: () => void;
+  pause: () => void;
+  resume: () => void;
+}
+
+const browserSpeech: PlayerSpeech = {
+  isSupported: isSpeechSynthesisSupported,
+  speak: speakText,
+  cancel: cancelSpeech,
+  pause: pauseSpeech,
+  resume: resumeSpeech,
+};
+
+// A region or guidance item: one message per step
+export interface GuidancePlayerItem {
+  description: string[];
+}
+
+export interface GuidancePlayerOptions<T extends GuidancePlayerItem> {
+  worksheetId: string;
+  getAudioName: (item: T) => string;
+  audioManifest?: AudioManifest;
+  // Per audio name, whether each step has a narration file; steps are played optimistically until known
+  stepAudio?: Record<string, boolean[]>;
+  uiLanguage?: string;
+  rate: number;
+  autoAdvance: boolean;
+  // Where the tutor video idles and talks, and the voice it reads unnarrated steps with
+  tutorSegments?: TutorSegments;
+  voiceName?: string;
+  // Measure the loudness of narration files, for tutors animated by it
+  measureLevel?: boolean;
+}
+
+export interface GuidancePlayerDependencies {
+  audio: PlayerAudio;
+  speech?: PlayerSpeech;
+  // Called once, the first time a file is played with `measureLevel` set
+  createLevelMeter?: () => AudioLevelMeter | null;
+}
+
+export interface GuidancePlayerState<T extends GuidancePlayerItem> {
+  item: T | null;
+  // Newest step shown; the ones before it stay on screen
+  stepIndex: number;
+  // Step being narrated, or the last one that was; replays can move it back
+  narratedStepIndex: number | null;
+  status: GuidancePlayerStatus;
+}
+
+// Player shared by regions mode and Auto Mode: reveals steps, narrates each one from its file or by
+// speech synthesis, and keeps the tutor video in its idle or talking loop
+export const createGuidancePlayer = <T extends GuidancePlayerItem>(
+  initialOptions: GuidancePlayerOptions<T>,
+  { audio, speech = browserSpeech, createLevelMeter }: GuidancePlayerDependencies
+) => {
+  let options = initialOptions;
+  let state: GuidancePlayerState<T> = { item: null, stepIndex: 0, narratedStepIndex: null, status: 'idle' };
+  const listeners = new Set<() => void>();
+  let video: PlayerVideo | null = null;
+
+  // Media callbacks can arrive after their narration was replaced, so each narration gets an id
+  let narration: { id: number; source: 'audio' | 'speech' } | null = null;
+  let narrationCount = 0;
+
+  let levelMeter: AudioLevelMeter | null = null;
+  let hasCreatedLevelMeter = false;
+
+  const startNarration = (source: 'audio' | 'speech') => {
+    narration = { id: ++narrationCount, source };
+    return narration.id;
+  };
+
+  const isCurrentNarration = (id: number) => narration?.id === id;
+
+  const playVideo = () => {
+    video?.play().catch(() => {
+      // Expected when the video is removed from the document or interrupted
+    });
+  };
+
+  // The tutor loops its talking segment while a step is read and its idle segment otherwise
+  const getTutorSegment = (): TutorSegment | undefined =>
+    state.status === 'speaking' ? options.tutorSegments?.talking : options.tutorSegments?.idle;
+
+  const isInSegment = (time: number, segment: TutorSegment) =>
+    time >= segment.start && time < segment.end - SEGMENT_END_MARGIN;
+
+  // Moves the tutor into the right loop as soon as narration starts or stops
+  const syncVideo = () => {
+    const segment = getTutorSegment();
+    if (!video || !state.item || !segment) return;
+    if (!isInSegment(video.currentTime, segment)) {
+      video.currentTime = segment.start;
+    }
+    if (video.paused) {
+      playVideo();
+    }
+  };
+
+  const setState = (updates: Partial<GuidancePlayerState<T>>) => {
+    state = { ...state, ...updates };
+    syncVideo();
+    listeners.forEach(listener => listener());
+  };
+
+  const handleVideoTimeUpdate = () => {
+    const segment = getTutorSegment();
+    if (!video || !segment) return;
+    if (!isInSegment(video.currentTime, segment)) {
+      video.currentTime = segment.start;
+    }
+  };
+
+  const hasStepAudio = (item: T, stepIndex: number) =>
+    options.stepAudio ? !!options.stepAudio[options.getAudioName(item)]?.[stepIndex] : true;
+
+  // An item is narrated when any of its steps has a file; the rest are read by speech synthesis
+  const canNarrate = (item: T | null) =>
+    !!item && (speech.isSupported() || item.description.some((_, stepIndex) => hasStepAudio(item, stepIndex)));
+
+  const stopNarration = () => {
+    narration = null;
+    audio.pause();
+    speech.cancel();
+  };
+
+  const next = () => {
+    const { item, stepIndex } = state;
+    if (!item || stepIndex >= item.description.length - 1) return;
+
+    stopNarration();
+    setState({ stepIndex: stepIndex + 1, narratedStepIndex: null, status: 'idle' });
+    narrate(stepIndex + 1);
+  };
+
+  const finishStep = () => {
+    narration = null;
+    setState({ status: 'finished' });
+
+    // Only the newest step advances; replaying an earlier one does not
+    if (options.autoAdvance && state.narratedStepIndex === state.stepIndex) {
+      next();
+    }
+  };
+
+  // Reads a step with the browser's voice when it has no narration file
+  const speakStep = (stepIndex: number) => {
+    const { item } = state;
+    if (!item) return;
+    if (!speech.isSupported()) {
+      narration = null;
+      setState({ status: 'idle' });
+      return;
+    }
+
+    const id = startNarration('speech');
+    speech.speak(item.description[stepIndex] || '', {
+      uiLanguage: options.uiLanguage,
+      rate: options.rate,
+      voiceName: options.voiceName,
+      onEnd: () => {
+        if (isCurrentNarration(id) && state.status === 'speaking') {
+          setState({ status: 'idle' });
+        }
+      },
+      onFinish: () => {
+        if (isCurrentNarration(id)) {
+          finishStep();
+        }
+      },
+    });
+  };
+
+  const narrate = (stepIndex: number) => {
+    const { item } = state;
+    if (!item || !canNarrate(item)) return;
+
+    stopNarration();
+    setState({ narratedStepIndex: stepIndex, status: 'speaking' });
+
+    const audioUrl = hasStepAudio(item, stepIndex)
+      ? getStepAudioUrl(options.worksheetId, options.getAudioName(item), stepIndex, options.audioManifest)
+      : null;
+    if (!audioUrl) {
+      speakStep(stepIndex);
+      return;
+    }
+
+    // The meter has to be in place before the file loads
+    if (options.measureLevel && !hasCreatedLevelMeter && createLevelMeter) {
+      hasCreatedLevelMeter = true;
+      levelMeter = createLevelMeter();
+    }
+    levelMeter?.resume();
+
+    const id = startNarration('audio');
+    audio.src = audioUrl;
+    // Loading a new file resets the rate to the default one
+    audio.defaultPlaybackRate = options.rate;
+    audio.playbackRate = options.rate;
+    audio.preservesPitch = true;
+    audio.play().catch(() => {
+      if (isCurrentNarration(id)) {
+        narration = null;
+        setState({ status: 'idle' });
+      }
+    });
+  };
+
+  audio.addEventListener('ended', () => {
+    if (narration?.source === 'audio') {
+      finishStep();
+    }
+  });
+
+  // A file that fails to load is read out instead, so one broken step does not silence the tutor
+  audio.addEventListener('error', () => {
+    if (narration?.source === 'audio' && state.narratedStepIndex !== null) {
+      speakStep(state.narratedStepIndex);
+    }
+  });
+
+  return {
+    getState: () => state,
+
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    // A new speed applies to the file being played at once; speech picks it up from the next step
+    setOptions: (updates: Partial<GuidancePlayerOptions<T>>) => {
+      options = { ...options, ...updates };
+      if (updates.rate && updates.rate !== audio.playbackRate) {
+        audio.defaultPlaybackRate = updates.rate;
+        audio.playbackRate = updates.rate;
+      }
+    },
+
+    hasStepAudio,
+    canNarrate,
+
+    // Loudness of the narration from 0 to 1, or null while speech synthesis reads a step,
+    // since its output cannot be measured
+    getNarrationLevel: (): number | null => {
+      if (state.status !== 'speaking' || !narration) return 0;
+      if (narration.source === 'speech') return null;
+      return levelMeter?.getLevel() ?? null;
+    },
+
+    // Shows the item's messages up to the starting step and narrates that step
+    open: (item: T, startStepIndex = 0) => {
+      stopNarration();
+      if (video && options.tutorSegments) {
+        video.currentTime = options.tutorSegments.idle.start;
+      }
+      setState({
+        item,
+        stepIndex: Math.max(0, Math.min(startStepIndex, item.description.length - 1)),
+        narratedStepIndex: null,
+        status: 'idle',
+      });
+      narrate(state.stepIndex);
+    },
+
+    // Swaps in an edited copy of the open item, keeping its step and any narration in progress
+    update: (item: T) => {
+      if (!state.item) return;
+      setState({
+        item,
+        stepIndex: Math.max(0, Math.min(state.stepIndex, item.description.length - 1)),
+      });
+    },
+
+    next,
+
+    replay: (stepIndex = state.stepIndex) => {
+      narrate(stepIndex);
+    },
+
+    togglePause: () => {
+      if (!narration) return;
+
+      if (state.status === 'paused') {
+        setState({ status: 'speaking' });
+        if (narration.source === 'audio') {
+          const { id } = narration;
+          audio.play().catch(() => {
+            if (isCurrentNarration(id)) {
+              setState({ status: 'idle' });
+            }
+          });
+        } else {
+          speech.resume();
+        }
+      } else if (state.status === 'speaking') {
+        setState({ status: 'paused' });
+        if (narration.source === 'audio') {
+          audio.pause();
+        } else {
+          speech.pause();
+        }
+      }
+    },
+
+    // Silences the tutor but keeps the item open
+    stop: () => {
+      stopNarration();
+      setState({ status: 'idle' });
+    },
+
+    close: () => {
+      stopNarration();
+      setState({ item: null, stepIndex: 0, narratedStepIndex: null, status: 'idle' });
+      video?.pause();
+    },
+
+    // Stops narrating and releases the level meter's AudioContext; the player cannot narrate files afterwards
+    destroy: () => {
+      stopNarration();
+      levelMeter?.close();
+      levelMeter = null;
+      setState({ status: 'idle' });
+    },
+
+    // Ref callback for the tutor <video>, which mounts after the item opens
+    attachVideo: (element: PlayerVideo | null) => {
+      video?.removeEventListener('timeupdate', handleVideoTimeUpdate);
+      video = element;
+      if (!video) return;
+
+      video.addEventListener('timeupdate', handleVideoTimeUpdate);
+      const segment = getTutorSegment();
+      if (state.item && segment) {
+        video.currentTime = segment.start;
+        playVideo();
+      }
+    },
+  };
+};
+
+export type GuidancePlayerEngine<T extends GuidancePlayerItem> = ReturnType<typeof createGuidancePlayer<T>>;
@@ -0,0 +1,349 @@
+import { pdfjs } from 'react-pdf'
+import type { AudioManifest, ProtectedPageImages, WorksheetMetadata } from '@/types/worksheet'
+import { getGuidanceAudioPath, getStepAudioUrl } from '@/lib/guidanceAudio'
+import { isDrmProtectedPage } from '@/lib/watermark'
+
+/**
+ * Offline worksheet packs
+ *
+ * A pack bundles everything a worksheet needs to work without a network:
+ * the worksheet metadata (the get-worksheet-data response or the legacy JSON),
+ * the PDF and every narration clip referenced by its regions or guidance items.
+ * DRM-protected pages are blank in that PDF, so the pack also keeps their
+ * server-rendered images, as unlocked for the student profile that downloaded it.
+ * Each pack lives in its own Cache Storage cache so it can be measured and
+ * evicted independently. The service worker keeps these caches across updates
+ * and serves the audio files from them when the network is unavailable.
+ *
+ * Narration is always stored under its /audio/{worksheetId}/{name}_{step}.mp3
+ * path, even when it was downloaded from a signed storage URL, so a pack keeps
+ * working after those URLs expire. Packs are loaded without an audio manifest
+ * for the same reason.
+ */
+
+export const OFFLINE_PACK_CACHE_PREFIX = 'worksheet-pack-'
+
+// Number of files fetched in parallel while downloading a pack
+const DOWNLOAD_CONCURRENCY = 4
+
+export interface OfflinePackManifest {
+  worksheetId: string;
+  documentName: string;
+  downloadedAt: string;
+  sizeBytes: number;
+  audioFileCount: number;
+}
+
+export interface OfflinePackData {
+  meta: WorksheetMetadata;
+  pdfUrl: string;
+  audioManifest?: AudioManifest;
+}
+
+interface OfflineAudioFile {
+  // Where the service worker looks the file up
+  cachePath: string;
+  // Where it is downloaded from
+  sourceUrl: string;
+}
+
+export interface OfflinePackProgress {
+  completed: number;
+  total: number;
+}
+
+// Renders the DRM-protected pages for the pack, with this student profile's unlocked regions
+export interface ProtectedPageSource {
+  studentProfileId: string | null;
+  render: (pageNumber: number) => Promise<ProtectedPageImages>;
+}
+
+interface OfflineProtectedPage {
+  studentProfileId: string | null;
+  images: ProtectedPageImages;
+}
+
+const packCacheName = (worksheetId: string) => `${OFFLINE_PACK_CACHE_PREFIX}${worksheetId}`
+
+const packFileUrl = (worksheetId: string, fileName: string) =>
+  `/offline-packs/${encodeURIComponent(worksheetId)}/${fileName}`
+
+// Blob URLs created for offline PDFs, reused for the lifetime of the page
+const offlinePdfUrls = new Map<string, string>()
+
+export const isOfflinePackSupported = () => typeof window !== 'undefined' && 'caches' in window
+
+/**
+ * Lists the narration files a worksheet can reference, following the
+ * /audio/{worksheetId}/{name}_{step}.mp3 naming convention. With an audio
+ * manifest only the steps it lists are included, downloaded from their signed URLs.
+ */
+export const getWorksheetAudioFiles = (
+  worksheetId: string,
+  meta: WorksheetMetadata,
+  audioManifest?: AudioManifest
+): OfflineAudioFile[] => {
+  const clips: { name: string; steps: number }[] = []
+
+  if (meta.mode === 'auto') {
+    meta.data.forEach(page => {
+      page.guidance.forEach(guidance => {
+        if (guidance.audioName) {
+          clips.push({ name: guidance.audioName, steps: guidance.description.length })
+        }
+      })
+    })
+  } else {
+    meta.regions.forEach(region => {
+      if (region.name) {
+        clips.push({ name: region.name, steps: region.description?.length || 0 })
+      }
+    })
+  }
+
+  const files = new Map<string, OfflineAudioFile>()
+  clips.forEach(({ name, steps }) => {
+    for (let stepIndex = 0; stepIndex < steps; stepIndex++) {
+      const sourceUrl = getStepAudioUrl(worksheetId, name, stepIndex, audioManifest)
+      const cachePath = getGuidanceAudioPath(worksheetId, name, stepIndex + 1)
+      if (sourceUrl && !files.has(cachePath)) {
+        files.set(cachePath, { cachePath, sourceUrl })
+      }
+    }
+  })
+
+  return Array.from(files.values())
+}
+
+const getProtectedPageNumbers = async (meta: WorksheetMetadata, pdfBlob: Blob): Promise<number[]> => {
+  if (Array.isArray(meta.drmProtectedPages)) {
+    return meta.drmProtectedPages
+  }
+  if (meta.drmProtectedPages !== true) {
+    return []
+  }
+
+  // Every page is protected, so count them
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await pdfBlob.arrayBuffer()) }).promise
+  try {
+    return Array.from({ length: pdf.numPages }, (_, index) => index + 1)
+      .filter(pageNumber => isDrmProtectedPage(meta.drmProtectedPages, pageNumber))
+  } finally {
+    await pdf.destroy()
+  }
+}
+
+const runWithConcurrency = async <T>(items: T[], limit: number, worker: (item: T) => Promise<void>) => {
+  const queue = [...items]
+  const runners = Array.from({ length: Math.min(limit, queue.length) }, async () => {
+    while (queue.length > 0) {
+      const item = queue.shift()!
+      await worker(item)
+    }
+  })
+  await Promise.all(runners)
+}
+
+/**
+ * Downloads a worksheet pack into Cache Storage.
+ * Missing narration clips are skipped; a missing PDF or a protected page that
+ * fails to render fails the download.
+ */
+export const downloadOfflinePack = async (
+  worksheetId: string,
+  data: OfflinePackData,
+  onProgress?: (progress: OfflinePackProgress) => void,
+  protectedPageSource?: ProtectedPageSource
+): Promise<OfflinePackManifest> => {
+  if (!isOfflinePackSupported()) {
+    throw new Error('Offline storage is not supported in this browser')
+  }
+
+  // Ask the browser not to evict our packs under storage pressure
+  if (navigator.storage?.persist) {
+    await navigator.storage.persist().catch(() => false)
+  }
+
+  const audioFiles = getWorksheetAudioFiles(worksheetId, data.meta, data.audioManifest)
+  let total = audioFiles.length + 2
+  let completed = 0
+  let sizeBytes = 0
+  let audioFileCount = 0
+
+  const reportProgress = () => {
+    completed++
+    onProgress?.({ completed, total })
+  }
+
+  // Start from a clean cache so re-downloading refreshes stale files
+  await caches.delete(packCacheName(worksheetId))
+  const cache = await caches.open(packCacheName(worksheetId))
+
+  try {
+    const pdfResponse = await fetch(data.pdfUrl)
+    if (!pdfResponse.ok) {
+      throw new Error(`Failed to download PDF: ${pdfResponse.status}`)
+    }
+    const pdfBlob = await pdfResponse.blob()
+    sizeBytes += pdfBlob.size
+    await cache.put(packFileUrl(worksheetId, 'document.pdf'), new Response(pdfBlob, {
+      headers: { 'Content-Type': 'application/pdf' }
+    }))
+    reportProgress()
+
+    const protectedPageNumbers = protectedPageSource ? await getProtectedPageNumbers(data.meta, pdfBlob) : []
+    total += protectedPageNumbers.length
+    for (const pageNumber of protectedPageNumbers) {
+      const protectedPage: OfflineProtectedPage = {
+        studentProfileId: protectedPageSource!.studentProfileId,
+        images: await protectedPageSource!.render(pageNumber)
+      }
+      const protectedPageBody = JSON.stringify(protectedPage)
+      sizeBytes += new Blob([protectedPageBody]).size
+      await cache.put(packFileUrl(worksheetId, `protected-page-${pageNumber}.json`), new Response(protectedPageBody, {
+        headers: { 'Content-Type': 'application/json' }
+      }))
+      reportProgress()
+    }
+
+    const metaBody = JSON.stringify(data.meta)
+    sizeBytes += new Blob([metaBody]).size
+    await cache.put(packFileUrl(worksheetId, 'meta.json'), new Response(metaBody, {
+      headers: { 'Content-Type': 'application/json' }
+    }))
+    reportProgress()
+
+    await runWithConcurrency(audioFiles, DOWNLOAD_CONCURRENCY, async ({ cachePath, sourceUrl }) => {
+      try {
+        const response = await fetch(sourceUrl)
+        // The SPA rewrite answers unknown paths with index.html, so check the content type too
+        const contentType = response.headers.get('Content-Type') || ''
+        if (response.ok && contentType.startsWith('audio/')) {
+          const audioBlob = await response.blob()
+          sizeBytes += audioBlob.size
+          await cache.put(cachePath, new Response(audioBlob, {
+            headers: { 'Content-Type': contentType }
+          }))
+          audioFileCount++
+        }
+      } catch (error) {
+        console.warn(`Skipping audio file ${cachePath}:`, error)
+      }
+      reportProgress()
+    })
+  } catch (error) {
+    await caches.delete(packCacheName(worksheetId))
+    throw error
+  }
+
+  const manifest: OfflinePackManifest = {
+    worksheetId,
+    documentName: data.meta.documentName,
+    downloadedAt: new Date().toISOString(),
+    sizeBytes,
+    audioFileCount
+  }
+
+  await cache.put(packFileUrl(worksheetId, 'manifest.json'), new Response(JSON.stringify(manifest), {
+    headers: { 'Content-Type': 'application/json' }
+  }))
+
+  return manifest
+}
+
+const readManifest = async (worksheetId: string): Promise<OfflinePackManifest | null> => {
+  const cache = await caches.open(packCacheName(worksheetId))
+  const response = await cache.match(packFileUrl(worksheetId, 'manifest.json'))
+  if (!response) return null
+  return response.json()
+}
+
+export const listOfflinePacks = async (): Promise<OfflinePackManifest[]> => {
+  if (!isOfflinePackSupported()) return []
+
+  const cacheNames = await caches.keys()
+  const manifests = await Promise.all(
+    cacheNames
+      .filter(name => name.startsWith(OFFLINE_PACK_CACHE_PREFIX))
+      .map(name => readManifest(name.slice(OFFLINE_PACK_CACHE_PREFIX.length)))
+  )
+
+  return manifests
+    .filter((manifest): manifest is OfflinePackManifest => manifest !== null)
+    .sort((a, b) => b.downloadedAt.localeCompare(a.downloadedAt))
+}
+
+export const getOfflinePackManifest = async (worksheetId: string): Promise<OfflinePackManifest | null> => {
+  if (!isOfflinePackSupported()) return null
+  if (!(await caches.has(packCacheName(worksheetId)))) return null
+  return readManifest(worksheetId)
+}
+
+/**
+ * Loads a downloaded worksheet, returning the stored metadata and a blob URL for the PDF.
+ */
+export const getOfflinePack = async (worksheetId: string): Promise<OfflinePackData | null> => {
+  if (!(await getOfflinePackManifest(worksheetId))) return null
+
+  const cache = await caches.open(packCacheName(worksheetId))
+  const [metaResponse, pdfResponse] = await Promise.all([
+    cache.match(packFileUrl(worksheetId, 'meta.json')),
+    cache.match(packFileUrl(worksheetId, 'document.pdf'))
+  ])
+
+  if (!metaResponse || !pdfResponse) return null
+
+  let pdfUrl = offlinePdfUrls.get(worksheetId)
+  if (!pdfUrl) {
+    pdfUrl = URL.createObjectURL(await pdfResponse.blob())
+    offlinePdfUrls.set(worksheetId, pdfUrl)
+  }
+
+  return {
+    meta: await metaResponse.json(),
+    pdfUrl
+  }
+}
+
+/**
+ * Loads the images a downloaded pack keeps for a protected page, if they were
+ * rendered for the given student profile.
+ */
+export const getOfflineProtectedPage = async (
+  worksheetId: string,
+  pageNumber: number,
+  studentProfileId: string | null
+): Promise<ProtectedPageImages | null> => {
+  if (!(await getOfflinePackManifest(worksheetId))) return null
+
+  const cache = await caches.open(packCacheName(worksheetId))
+  const response = await cache.match(packFileUrl(worksheetId, `protected-page-${pageNumber}.json`))
+  if (!response) return null
+
+  const protectedPage: OfflineProtectedPage = await response.json()
+  return protectedPage.studentProfileId === studentProfileId ? protectedPage.images : null
+}
+
+export const deleteOfflinePack = async (worksheetId: string): Promise<boolean> => {
+  if (!isOfflinePackSupported()) return false
+
+  const pdfUrl = offlinePdfUrls.get(worksheetId)
+  if (pdfUrl) {
+    URL.revokeObjectURL(pdfUrl)
+    offlinePdfUrls.delete(worksheetId)
+  }
+
+  return caches.delete(packCacheName(worksheetId))
+}
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`
+  const units = ['KB', 'MB', 'GB']
+  let value = bytes / 1024
+  let unitIndex = 0
+  while (value >= 1024 && unitIndex < units.length - 1) {
+    value /= 1024
+    unitIndex++
+  }
+  return `${value.toFixed(1)} ${units[unitIndex]}`
+}
@@ -0,0 +1,32 @@
+/**
+ * Per-page worksheet state kept in sessionStorage.
+ *
+ * sessionStorage acts as a fast local write-through cache for the
+ * worksheet_progress table, and is keyed by student profile so that
+ * profiles sharing a device never see each other's progress.
+ */
+
+export interface StoredRegionData {
+  currentStepIndex: number;
+}
+
+export interface StoredGuidanceData {
+  currentStepIndex: number;
+}
+
+export interface SessionPageData {
+  lastActiveRegionId: string | null;
+  lastActiveGuidanceIndex: number | null;
+  regions: Record<string, StoredRegionData>;
+  guidance: Record<number, StoredGuidanceData>;
+}
+
+export const getPageStateKey = (
+  worksheetId: string,
+  pageNumber: number | string,
+  studentProfileId?: string | null
+) => {
+  return studentProfileId
+    ? `worksheet_page_state_${studentProfileId}_${worksheetId}_${pageNumber}`
+    : `worksheet_page_state_${worksheetId}_${pageNumber}`;
+};
@@ -0,0 +1,43 @@
+import type { ProtectedPageImages, RegionData } from '@/types/worksheet';
+import { getRegionShapePath } from '@/lib/regionShape';
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const image = new Image();
+  image.onload = () => resolve(image);
+  image.onerror = () => reject(new Error('Failed to load protected page image'));
+  image.src = src;
+});
+
+// Draws a server-rendered protected page into a canvas sized to the page at `scale` pixels per PDF point:
+// the unreadable preview across the page, then each unlocked tile clipped to its region's shape.
+// The server already watermarked the images, so no watermark is drawn over them.
+export const drawProtectedPage = async (
+  canvas: HTMLCanvasElement,
+  images: ProtectedPageImages,
+  regions: RegionData[],
+  scale: number
+) => {
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas is not supported');
+  }
+
+  const [preview, ...tiles] = await Promise.all(
+    [images.preview, ...images.tiles.map(tile => tile.image)].map(loadImage)
+  );
+
+  context.drawImage(preview, 0, 0, canvas.width, canvas.height);
+  images.tiles.forEach((tile, index) => {
+    const region = regions.find(pageRegion => pageRegion.id === tile.regionId);
+    if (!region) return;
+
+    context.save();
+    context.translate(region.x * scale, region.y * scale);
+    const shapePath = getRegionShapePath(region, scale);
+    if (shapePath) {
+      context.clip(new Path2D(shapePath));
+    }
+    context.drawImage(tiles[index], 0, 0, region.width * scale, region.height * scale);
+    context.restore();
+  });
+};
@@ -0,0 +1,37 @@
+import { BrowserQRCodeReader, ChecksumException, FormatException, NotFoundException } from '@zxing/library';
+
+// Decode a QR code from a still image (gallery photo or pasted screenshot).
+// Returns the QR text, or null when the image does not contain a readable code.
+export const decodeQrFromImage = async (image: Blob): Promise<string | null> => {
+  const imageUrl = URL.createObjectURL(image);
+  const reader = new BrowserQRCodeReader();
+
+  try {
+    const result = await reader.decodeFromImageUrl(imageUrl);
+    return result.getText();
+  } catch (error) {
+    if (error instanceof NotFoundException || error instanceof ChecksumException || error instanceof FormatException) {
+      return null;
+    }
+    throw error;
+  } finally {
+    reader.reset();
+    URL.revokeObjectURL(imageUrl);
+  }
+};
+
+// Read the first image from the clipboard, if the browser allows it
+export const readClipboardImage = async (): Promise<Blob | null> => {
+  if (!navigator.clipboard?.read) {
+    return null;
+  }
+
+  const items = await navigator.clipboard.read();
+  for (const item of items) {
+    const imageType = item.types.find(type => type.startsWith('image/'));
+    if (imageType) {
+      return item.getType(imageType);
+    }
+  }
+  return null;
+};
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { buildWorksheetLink, getWorksheetPath, parseQrPayload } from '@/lib/qrPayload';
+
+const DOCUMENT_ID = '3f2b8c1e-6a4d-4e0f-9b7a-2c5d8e1f0a93';
+
+describe('parseQrPayload', () => {
+  it('parses legacy codes', () => {
+    expect(parseQrPayload('ABCDE1')).toEqual({ worksheetId: 'ABCDE', pageNumber: 1 });
+    expect(parseQrPayload('  ABCDE12 ')).toEqual({ worksheetId: 'ABCDE', pageNumber: 12 });
+  });
+
+  it('parses version 1 links', () => {
+    expect(parseQrPayload(`https://jooy.app/w/${DOCUMENT_ID}?p=3&r=1_2`))
+      .toEqual({ worksheetId: DOCUMENT_ID, pageNumber: 3, itemName: '1_2' });
+    expect(parseQrPayload(`https://jooy.app/w/${DOCUMENT_ID}?v=1&p=3`))
+      .toEqual({ worksheetId: DOCUMENT_ID, pageNumber: 3 });
+  });
+
+  it('parses relative links', () => {
+    expect(parseQrPayload(`/w/${DOCUMENT_ID}?p=2`)).toEqual({ worksheetId: DOCUMENT_ID, pageNumber: 2 });
+  });
+
+  it('rejects unknown versions', () => {
+    expect(parseQrPayload(`https://jooy.app/w/${DOCUMENT_ID}?v=2&p=3`)).toBeNull();
+  });
+
+  it('defaults a missing page to the first one', () => {
+    expect(parseQrPayload(`https://jooy.app/w/${DOCUMENT_ID}`)).toEqual({ worksheetId: DOCUMENT_ID, pageNumber: 1 });
+    expect(parseQrPayload(`https://jooy.app/w/${DOCUMENT_ID}?p=`)).toEqual({ worksheetId: DOCUMENT_ID, pageNumber: 1 });
+  });
+
+  it('rejects zero and non-numeric pages', () => {
+    expect(parseQrPayload(`https://jooy.app/w/${DOCUMENT_ID}?p=0`)).toBeNull();
+    expect(parseQrPayload(`https://jooy.app/w/${DOCUMENT_ID}?p=abc`)).toBeNull();
+    expect(parseQrPayload(`https://jooy.app/w/${DOCUMENT_ID}?p=-1`)).toBeNull();
+  });
+
+  it('rejects item names that are not {page}_{item}', () => {
+    expect(parseQrPayload(`https://jooy.app/w/${DOCUMENT_ID}?p=1&r=intro`)).toBeNull();
+    expect(parseQrPayload(`https://jooy.app/w/${DOCUMENT_ID}?p=1&r=1_`)).toBeNull();
+  });
+
+  it('rejects empty and unrelated text', () => {
+    expect(parseQrPayload('')).toBeNull();
+    expect(parseQrPayload('   ')).toBeNull();
+    expect(parseQrPayload('hello world!')).toBeNull();
+    expect(parseQrPayload('https://example.com/some/other/page')).toBeNull();
+    expect(parseQrPayload(`mailto:w/${DOCUMENT_ID}`)).toBeNull();
+  });
+});
+
+describe('getWorksheetPath', () => {
+  it('builds the in-app route with the item to open', () => {
+    expect(getWorksheetPath({ worksheetId: DOCUMENT_ID, pageNumber: 3 })).toBe(`/worksheet/${DOCUMENT_ID}/3`);
+    expect(getWorksheetPath({ worksheetId: DOCUMENT_ID, pageNumber: 3, itemName: '3_1' }))
+      .toBe(`/worksheet/${DOCUMENT_ID}/3?r=3_1`);
+  });
+});
+
+describe('buildWorksheetLink', () => {
+  it('builds links that parse back to the same target', () => {
+    const target = { worksheetId: DOCUMENT_ID, pageNumber: 4, itemName: '4_2' };
+    const link = buildWorksheetLink('https://jooy.app', target);
+
+    expect(link).toBe(`https://jooy.app/w/${DOCUMENT_ID}?p=4&r=4_2`);
+    expect(parseQrPayload(link)).toEqual(target);
+  });
+});
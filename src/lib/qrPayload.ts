@@ -0,0 +1,85 @@
+/**
+ * QR code / deep link payloads.
+ *
+ * Two formats are accepted:
+ * - Legacy: letters followed by the page number, e.g. `ABCDE1`
+ * - Version 1 links: `https://host/w/{documentId}?p=3&r=1_2`
+ *   - `p` is the page number (defaults to 1)
+ *   - `r` names the region or guidance item to open, using the `{page}_{item}`
+ *     naming of regions and guidance audio
+ *   - `v` is optional and, when present, must be a supported version
+ */
+
+export const QR_PAYLOAD_VERSION = 1;
+
+export interface WorksheetTarget {
+  worksheetId: string;
+  pageNumber: number;
+  itemName?: string;
+}
+
+const LEGACY_PATTERN = /^([A-Za-z]+)(\d+)$/;
+const DOCUMENT_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+const ITEM_NAME_PATTERN = /^\d+_\d+$/;
+
+const parsePageNumber = (value: string | null) => {
+  if (value === null || value === '') return 1;
+  if (!/^\d+$/.test(value)) return null;
+  const pageNumber = parseInt(value, 10);
+  return pageNumber > 0 ? pageNumber : null;
+};
+
+const parseLinkUrl = (url: URL): WorksheetTarget | null => {
+  const segments = url.pathname.split('/').filter(Boolean);
+  if (segments.length !== 2 || segments[0] !== 'w') return null;
+
+  const version = url.searchParams.get('v');
+  if (version !== null && version !== String(QR_PAYLOAD_VERSION)) return null;
+
+  const worksheetId = decodeURIComponent(segments[1]);
+  if (!DOCUMENT_ID_PATTERN.test(worksheetId)) return null;
+
+  const pageNumber = parsePageNumber(url.searchParams.get('p'));
+  if (pageNumber === null) return null;
+
+  const itemName = url.searchParams.get('r');
+  if (itemName !== null && !ITEM_NAME_PATTERN.test(itemName)) return null;
+
+  return itemName ? { worksheetId, pageNumber, itemName } : { worksheetId, pageNumber };
+};
+
+// Parse scanned or typed text into a worksheet target, or null if it is not a worksheet code
+export const parseQrPayload = (text: string): WorksheetTarget | null => {
+  const payload = text.trim();
+  if (!payload) return null;
+
+  const legacyMatch = payload.match(LEGACY_PATTERN);
+  if (legacyMatch) {
+    return { worksheetId: legacyMatch[1], pageNumber: parseInt(legacyMatch[2], 10) };
+  }
+
+  try {
+    // Relative links (`/w/...`) are resolved against a placeholder origin
+    const url = new URL(payload, 'https://jooy.invalid');
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+    return parseLinkUrl(url);
+  } catch {
+    return null;
+  }
+};
+
+// In-app route for a target; the item to open travels as the `r` search param
+export const getWorksheetPath = ({ worksheetId, pageNumber, itemName }: WorksheetTarget) => {
+  const path = `/worksheet/${encodeURIComponent(worksheetId)}/${pageNumber}`;
+  return itemName ? `${path}?r=${encodeURIComponent(itemName)}` : path;
+};
+
+// Shareable version 1 link for printing as a QR code
+export const buildWorksheetLink = (origin: string, { worksheetId, pageNumber, itemName }: WorksheetTarget) => {
+  const url = new URL(`/w/${encodeURIComponent(worksheetId)}`, origin);
+  url.searchParams.set('p', String(pageNumber));
+  if (itemName) {
+    url.searchParams.set('r', itemName);
+  }
+  return url.toString();
+};
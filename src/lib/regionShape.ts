@@ -0,0 +1,96 @@
+import type { RegionData, RegionPoint, RegionRectangle, RegionShape } from '@/types/worksheet';
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isPoint = (value: unknown): value is RegionPoint =>
+  !!value && typeof value === 'object' &&
+  isFiniteNumber((value as RegionPoint).x) && isFiniteNumber((value as RegionPoint).y);
+
+const isRectangle = (value: unknown): value is RegionRectangle =>
+  isPoint(value) &&
+  isFiniteNumber((value as RegionRectangle).width) && (value as RegionRectangle).width > 0 &&
+  isFiniteNumber((value as RegionRectangle).height) && (value as RegionRectangle).height > 0;
+
+// Accepts a shape from JSON or the database, returning null when it is missing or malformed
+export const parseRegionShape = (value: unknown): RegionShape | null => {
+  if (!value || typeof value !== 'object') return null;
+  const shape = value as { type?: unknown; points?: unknown; rects?: unknown };
+
+  if (shape.type === 'polygon' && Array.isArray(shape.points)) {
+    const points = shape.points.filter(isPoint).map(({ x, y }) => ({ x, y }));
+    return points.length >= 3 ? { type: 'polygon', points } : null;
+  }
+
+  if (shape.type === 'rects' && Array.isArray(shape.rects)) {
+    const rects = shape.rects.filter(isRectangle).map(({ x, y, width, height }) => ({ x, y, width, height }));
+    return rects.length > 0 ? { type: 'rects', rects } : null;
+  }
+
+  return null;
+};
+
+export const getShapeBounds = (shape: RegionShape): RegionRectangle => {
+  const points = shape.type === 'polygon'
+    ? shape.points
+    : shape.rects.flatMap(rect => [
+        { x: rect.x, y: rect.y },
+        { x: rect.x + rect.width, y: rect.y + rect.height },
+      ]);
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+};
+
+// Validates a region's shape and keeps x/y/width/height equal to its bounding box
+export const normalizeRegionShape = <T extends RegionData>(region: T): T => {
+  const shape = parseRegionShape(region.shape);
+  return shape
+    ? { ...region, ...getShapeBounds(shape), shape }
+    : { ...region, shape: null };
+};
+
+// Maps a shape from one bounding box to another, for moving or resizing a shaped region
+export const transformRegionShape = (shape: RegionShape, from: RegionRectangle, to: RegionRectangle): RegionShape => {
+  const scaleX = from.width > 0 ? to.width / from.width : 1;
+  const scaleY = from.height > 0 ? to.height / from.height : 1;
+  const mapX = (x: number) => to.x + (x - from.x) * scaleX;
+  const mapY = (y: number) => to.y + (y - from.y) * scaleY;
+
+  return shape.type === 'polygon'
+    ? { type: 'polygon', points: shape.points.map(point => ({ x: mapX(point.x), y: mapY(point.y) })) }
+    : {
+        type: 'rects',
+        rects: shape.rects.map(rect => ({
+          x: mapX(rect.x),
+          y: mapY(rect.y),
+          width: rect.width * scaleX,
+          height: rect.height * scaleY,
+        })),
+      };
+};
+
+// SVG path of a shape relative to the region's bounding box, in PDF points multiplied by scale
+export const getRegionShapePath = (region: RegionData, scale = 1): string | null => {
+  if (!region.shape) return null;
+  const toX = (x: number) => ((x - region.x) * scale).toFixed(2);
+  const toY = (y: number) => ((y - region.y) * scale).toFixed(2);
+
+  if (region.shape.type === 'polygon') {
+    return region.shape.points
+      .map((point, index) => `${index === 0 ? 'M' : 'L'}${toX(point.x)} ${toY(point.y)}`)
+      .join(' ') + ' Z';
+  }
+
+  return region.shape.rects
+    .map(rect => `M${toX(rect.x)} ${toY(rect.y)} H${toX(rect.x + rect.width)} V${toY(rect.y + rect.height)} H${toX(rect.x)} Z`)
+    .join(' ');
+};
+
+// CSS clip-path that limits a region's box (and so its hit area) to the exact shape
+export const getRegionClipPath = (region: RegionData, scaleFactor: number): string | undefined => {
+  const path = getRegionShapePath(region, scaleFactor);
+  return path ? `path('${path}')` : undefined;
+};
@@ -0,0 +1,100 @@
+import { getTextDirection } from '@/lib/textDirection';
+
+export interface SpeakOptions {
+  // Current UI language, used for left-to-right text
+  uiLanguage?: string;
+  // Speaking rate, 1 being the voice's normal speed
+  rate?: number;
+  // Preferred voice, used when it speaks the text's language
+  voiceName?: string;
+  onStart?: () => void;
+  onEnd?: () => void;
+  // Only called when the whole paragraph was read, not when it was cancelled or failed
+  onFinish?: () => void;
+}
+
+// The utterance being read, so a cancelled one can tell it did not finish
+let currentUtterance: SpeechSynthesisUtterance | null = null;
+
+export const isSpeechSynthesisSupported = () =>
+  typeof window !== 'undefined' && 'speechSynthesis' in window && 'SpeechSynthesisUtterance' in window;
+
+// Right-to-left text is read as Arabic; anything else in the UI language, or English under the Arabic UI
+export const getSpeechLanguage = (text: string, uiLanguage = 'en') => {
+  if (getTextDirection(text) === 'rtl') return 'ar';
+  const language = uiLanguage.split('-')[0];
+  return language === 'ar' ? 'en' : language;
+};
+
+// Prefers the named voice, then a local one, which keeps working offline
+const findVoice = (language: string, voiceName?: string): SpeechSynthesisVoice | undefined => {
+  const voices = window.speechSynthesis
+    .getVoices()
+    .filter(voice => voice.lang.toLowerCase().split(/[-_]/)[0] === language);
+  return (voiceName && voices.find(voice => voice.name === voiceName))
+    || voices.find(voice => voice.localService)
+    || voices[0];
+};
+
+// Stops any utterance in progress; its onEnd callback still fires
+export const cancelSpeech = () => {
+  currentUtterance = null;
+  if (isSpeechSynthesisSupported()) {
+    window.speechSynthesis.cancel();
+    // Some browsers stay paused after cancelling, which would hold back the next utterance
+    window.speechSynthesis.resume();
+  }
+};
+
+export const pauseSpeech = () => {
+  if (isSpeechSynthesisSupported()) {
+    window.speechSynthesis.pause();
+  }
+};
+
+export const resumeSpeech = () => {
+  if (isSpeechSynthesisSupported()) {
+    window.speechSynthesis.resume();
+  }
+};
+
+// Reads one paragraph aloud, replacing anything currently being spoken
+export const speakText = (text: string, { uiLanguage, rate = 1, voiceName, onStart, onEnd, onFinish }: SpeakOptions = {}) => {
+  if (!isSpeechSynthesisSupported() || !text.trim()) {
+    onEnd?.();
+    return;
+  }
+
+  cancelSpeech();
+
+  const utterance = new SpeechSynthesisUtterance(text);
+  const language = getSpeechLanguage(text, uiLanguage);
+  const voice = findVoice(language, voiceName);
+  utterance.lang = voice?.lang || language;
+  if (voice) {
+    utterance.voice = voice;
+  }
+  utterance.rate = rate;
+
+  utterance.onstart = () => onStart?.();
+  // A cancelled utterance's events arrive after the next one has started, so only the current one is cleared
+  utterance.onend = () => {
+    const finished = currentUtterance === utterance;
+    if (finished) {
+      currentUtterance = null;
+    }
+    onEnd?.();
+    if (finished) {
+      onFinish?.();
+    }
+  };
+  utterance.onerror = () => {
+    if (currentUtterance === utterance) {
+      currentUtterance = null;
+    }
+    onEnd?.();
+  };
+
+  currentUtterance = utterance;
+  window.speechSynthesis.speak(utterance);
+};
@@ -0,0 +1,95 @@
+import type { TutorAvatarColors, TutorSegment, VideoTutor, VirtualTutor } from '@/types/virtualTutor';
+
+export const VIRTUAL_TUTORS_MANIFEST_PATH = '/video/tutors.json';
+
+// Used until the catalog loads, and when it cannot be loaded
+export const DEFAULT_VIRTUAL_TUTOR: VideoTutor = {
+  type: 'video',
+  id: 'tutor1',
+  name: 'Virtual Tutor 1',
+  thumbnailUrl: '/video/1.jpg',
+  videoUrl: '/video/1.mp4',
+  segments: {
+    idle: { start: 0, end: 10 },
+    talking: { start: 10, end: 20 },
+  },
+};
+
+const parseSegment = (value: unknown): TutorSegment | null => {
+  const segment = value as Partial<TutorSegment> | null;
+  return segment && typeof segment.start === 'number' && typeof segment.end === 'number' && segment.end > segment.start
+    ? { start: segment.start, end: segment.end }
+    : null;
+};
+
+const parseColors = (value: unknown): TutorAvatarColors => {
+  const colors = (value || {}) as Record<string, unknown>;
+  return Object.fromEntries(
+    ['skin', 'hair', 'shirt', 'background']
+      .filter(key => typeof colors[key] === 'string')
+      .map(key => [key, colors[key]])
+  );
+};
+
+// Entries with missing fields or unusable segments are left out
+const parseTutor = (value: unknown): VirtualTutor | null => {
+  const tutor = value as (Omit<Partial<VideoTutor>, 'type'> & { type?: string; colors?: unknown }) | null;
+  if (!tutor || !tutor.id || !tutor.name) {
+    return null;
+  }
+
+  const base = {
+    id: tutor.id,
+    name: tutor.name,
+    thumbnailUrl: tutor.thumbnailUrl || '',
+    voice: tutor.voice || undefined,
+  };
+
+  if (tutor.type === 'avatar') {
+    return { ...base, type: 'avatar', colors: parseColors(tutor.colors) };
+  }
+
+  const idle = parseSegment(tutor.segments?.idle);
+  const talking = parseSegment(tutor.segments?.talking);
+  if ((tutor.type && tutor.type !== 'video') || !tutor.videoUrl || !idle || !talking) {
+    return null;
+  }
+
+  return { ...base, type: 'video', videoUrl: tutor.videoUrl, segments: { idle, talking } };
+};
+
+// Offline the check cannot tell, so the asset is assumed to be cached rather than hiding the tutor
+const assetExists = async (path: string): Promise<boolean> => {
+  try {
+    const response = await fetch(path, { method: 'HEAD', cache: 'no-store' });
+    // The SPA fallback answers unknown paths with index.html, so a 200 alone is not enough
+    const contentType = response.headers.get('content-type') || '';
+    return response.ok && !contentType.startsWith('text/html');
+  } catch {
+    return true;
+  }
+};
+
+// Tutors from the catalog whose video exists (avatars need none); a missing thumbnail only hides the picture
+export const fetchVirtualTutors = async (): Promise<VirtualTutor[]> => {
+  const response = await fetch(VIRTUAL_TUTORS_MANIFEST_PATH);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch virtual tutors: ${response.status}`);
+  }
+
+  const manifest = await response.json();
+  const entries: unknown[] = Array.isArray(manifest?.tutors) ? manifest.tutors : [];
+  const tutors = entries
+    .map(parseTutor)
+    .filter((tutor): tutor is VirtualTutor => !!tutor);
+
+  const videoChecks = await Promise.all(tutors.map(tutor =>
+    tutor.type === 'video' ? assetExists(tutor.videoUrl) : Promise.resolve(true)
+  ));
+  const available = tutors.filter((_, index) => videoChecks[index]);
+
+  const thumbnailChecks = await Promise.all(available.map(tutor =>
+    tutor.thumbnailUrl ? assetExists(tutor.thumbnailUrl) : Promise.resolve(false)
+  ));
+  return available.map((tutor, index) => (thumbnailChecks[index] ? tutor : { ...tutor, thumbnailUrl: '' }));
+};
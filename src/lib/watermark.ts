@@ -0,0 +1,47 @@
+import type { WorksheetMetadata } from '@/types/worksheet';
+
+// Who a protected page was shown to, so a leaked screenshot can be traced back to them
+export interface WatermarkIdentity {
+  email?: string | null;
+  studentName?: string | null;
+}
+
+export const isDrmProtectedPage = (drmProtectedPages: WorksheetMetadata['drmProtectedPages'] | undefined, pageNumber: number) =>
+  drmProtectedPages === true || (Array.isArray(drmProtectedPages) && drmProtectedPages.includes(pageNumber));
+
+// "Student 1 · parent@example.com · 2025-09-10 14:03 UTC"; render-protected-page uses the same format
+export const getWatermarkText = ({ email, studentName }: WatermarkIdentity, date = new Date()) =>
+  [studentName, email, `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`]
+    .filter(Boolean)
+    .join(' · ');
+
+// Tiles the text diagonally across the whole canvas, into its pixels rather than as a separate element
+export const drawWatermark = (canvas: HTMLCanvasElement, text: string) => {
+  const context = canvas.getContext('2d');
+  if (!context || !text) return;
+
+  // Sized to the page, so the pattern is the same at every zoom level
+  const fontSize = Math.max(10, Math.round(canvas.width / 36));
+  const diagonal = Math.hypot(canvas.width, canvas.height);
+
+  context.save();
+  context.setTransform(1, 0, 0, 1, 0, 0);
+  context.translate(canvas.width / 2, canvas.height / 2);
+  context.rotate(-Math.PI / 6);
+  context.font = `${fontSize}px sans-serif`;
+  context.fillStyle = 'rgba(120, 120, 120, 0.18)';
+  context.textBaseline = 'middle';
+
+  const stepX = context.measureText(text).width + fontSize * 3;
+  const stepY = fontSize * 5;
+  let row = 0;
+  for (let y = -diagonal / 2; y < diagonal / 2; y += stepY) {
+    // Every other row is shifted by half a step, so no column of the page is left clear
+    const offset = row++ % 2 === 0 ? 0 : stepX / 2;
+    for (let x = -diagonal / 2 - offset; x < diagonal / 2; x += stepX) {
+      context.fillText(text, x, y);
+    }
+  }
+
+  context.restore();
+};
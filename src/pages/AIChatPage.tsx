@@ -1,19 +1,26 @@
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useRef, useCallback } from "react";
 import { useParams, useNavigate, useLocation } from "react-router-dom";
 import { useTranslation } from "react-i18next";
 import i18n from "@/i18n";
 import { Document, Page, pdfjs } from "react-pdf";
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import type { PDFPageProxy } from "pdfjs-dist";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { ChevronLeft, Send, Loader2, User, Bot } from "lucide-react";
+import { ChevronLeft, Send, Loader2, User, Bot, Square } from "lucide-react";
 import { toast } from "@/components/ui/use-toast";
 import { getTextDirection } from "@/lib/textDirection";
 import SwitchModeButton from "@/components/SwitchModeButton";
+import { useAuth } from "@/contexts/AuthContext";
+import { getPageStateKey } from "@/lib/pageState";
+import { streamAiTutor, AiTutorError } from "@/lib/aiTutor";
+import { drawWatermark, getWatermarkText, isDrmProtectedPage } from "@/lib/watermark";
+import { drawProtectedPage } from "@/lib/protectedPage";
+import { shouldUseSupabase } from "@/lib/supabase";
+import { useProtectedPage } from "@/hooks/useProtectedPage";
 import type { RegionData, WorksheetMetadata, GuidanceItem } from "@/types/worksheet";
 
 pdfjs.GlobalWorkerOptions.workerSrc = `//unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.js`;
@@ -29,6 +36,7 @@ const AIChatPage: React.FC = () => {
   const { worksheetId, pageNumber } = useParams<{ worksheetId: string; pageNumber: string }>();
   const navigate = useNavigate();
   const location = useLocation();
+  const { user, activeStudentProfile, updateCreditsRemaining } = useAuth();
   
   // Get the state passed during navigation
   const locationState = location.state as { 
@@ -56,9 +64,25 @@ const AIChatPage: React.FC = () => {
   const [isLoading, setIsLoading] = useState(false);
   const [pageImage, setPageImage] = useState<string | null>(null);
   const [isGeneratingImage, setIsGeneratingImage] = useState(true);
+  const [pdfPage, setPdfPage] = useState<PDFPageProxy | null>(null);
+
+  // Supabase blanks protected pages in the PDF, so the tutor is shown the server-rendered page instead
+  const isCurrentPageDrmProtected = isDrmProtectedPage(worksheetMeta?.drmProtectedPages, Number(pageNumber));
+  const isServerRenderedPage = isCurrentPageDrmProtected && shouldUseSupabase();
+  const { data: protectedPage, isError: isProtectedPageError } = useProtectedPage(
+    worksheetId || '',
+    Number(pageNumber),
+    isServerRenderedPage && !pageImage
+  );
+
+  // Page images show what the active student has unlocked, and protected pages carry their watermark
+  // with the time it was drawn, so those are drawn afresh rather than reused from the cache
+  const pageImageKey = `worksheetPageImage_${activeStudentProfile?.id ?? 'guest'}_${worksheetId}_${pageNumber}`;
+  const shouldCachePageImage = !isCurrentPageDrmProtected;
   
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
 
   // Wait for i18next to be ready before rendering translated content
   useEffect(() => {
@@ -82,7 +106,7 @@ const AIChatPage: React.FC = () => {
     if (!worksheetId || !pageNumber || !isI18nReady) return;
     
     // DEBUG: Check session state when AIChatPage mounts
-    const sessionKey = `worksheet_page_state_${worksheetId}_${pageNumber}`;
+    const sessionKey = getPageStateKey(worksheetId, pageNumber, activeStudentProfile?.id);
     const currentSessionState = sessionStorage.getItem(sessionKey);
     console.log('🔍 [DEBUG] AIChatPage - Session state ON MOUNT:', {
       sessionKey,
@@ -110,7 +134,7 @@ const AIChatPage: React.FC = () => {
       role: 'assistant',
       content: t('aiChat.welcome')
     }]);
-  }, [worksheetId, pageNumber, isI18nReady, t]);
+  }, [worksheetId, pageNumber, isI18nReady, t, activeStudentProfile?.id]);
 
   // Save chat history to localStorage whenever messages change
   useEffect(() => {
@@ -125,6 +149,13 @@ const AIChatPage: React.FC = () => {
     }
   }, [messages, worksheetId, pageNumber]);
 
+  // Stop any streaming reply when leaving the chat
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+    };
+  }, []);
+
   // Scroll to bottom when new messages are added - changed from "smooth" to "instant"
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "instant" });
@@ -142,12 +173,9 @@ const AIChatPage: React.FC = () => {
       return;
     }
     
-    // Create a unique key for this worksheet page image
-    const imageKey = `worksheetPageImage_${worksheetId}_${pageNumber}`;
-    
     // Try to load cached image from sessionStorage first
     try {
-      const cachedImage = sessionStorage.getItem(imageKey);
+      const cachedImage = shouldCachePageImage ? sessionStorage.getItem(pageImageKey) : null;
       if (cachedImage) {
         setPageImage(cachedImage);
         setIsGeneratingImage(false);
@@ -159,75 +187,109 @@ const AIChatPage: React.FC = () => {
     
     // If no cached image found, generate a new one
     setIsGeneratingImage(true);
-  }, [pdfUrl, pageNumber, worksheetId]);
+  }, [pdfUrl, pageNumber, worksheetId, pageImageKey, shouldCachePageImage]);
+
+  const showImageGenerationError = useCallback(() => {
+    setIsGeneratingImage(false);
+    toast({
+      title: t('aiChat.pdfError'),
+      description: t('aiChat.imageGenerationError'),
+      variant: "destructive"
+    });
+  }, [t]);
+
+  useEffect(() => {
+    if (isServerRenderedPage && isProtectedPageError && !pageImage) {
+      showImageGenerationError();
+    }
+  }, [isServerRenderedPage, isProtectedPageError, pageImage, showImageGenerationError]);
 
-  const onPageLoadSuccess = (page: any) => {
+  // Render the page once the PDF page (and, for server-rendered pages, its images) has loaded
+  useEffect(() => {
     const canvas = canvasRef.current;
-    if (!canvas || !worksheetId || !pageNumber) return;
+    if (!pdfPage || !canvas || !worksheetId || !pageNumber || pageImage) return;
+    if (isServerRenderedPage && !protectedPage) return;
 
     const context = canvas.getContext('2d');
     if (!context) return;
 
     // Set canvas size to match PDF page
-    const viewport = page.getViewport({ scale: 1.5 });
+    const scale = 1.5;
+    const viewport = pdfPage.getViewport({ scale });
     canvas.width = viewport.width;
     canvas.height = viewport.height;
 
-    // Render PDF page to canvas
-    const renderContext = {
-      canvasContext: context,
-      viewport: viewport,
-    };
+    // The PDF page only provides the size of a server-rendered page; its content comes from the images.
+    // Only the regions the student has unlocked are readable, as on the worksheet.
+    const pageRegions = worksheetMeta?.mode === 'auto'
+      ? []
+      : (worksheetMeta?.regions || []).filter(region => region.page === Number(pageNumber));
+    const renderPage = isServerRenderedPage && protectedPage
+      ? drawProtectedPage(canvas, protectedPage, pageRegions, scale)
+      : pdfPage.render({ canvasContext: context, viewport }).promise.then(() => {
+          // Protected local pages are sent to the tutor with the same watermark the worksheet shows
+          if (isCurrentPageDrmProtected) {
+            drawWatermark(canvas, getWatermarkText({ email: user?.email, studentName: activeStudentProfile?.profile_name }));
+          }
+        });
+
+    let isCancelled = false;
+    renderPage.then(() => {
+      if (isCancelled) return;
 
-    page.render(renderContext).promise.then(() => {
       // Convert canvas to base64 image
       const imageDataUrl = canvas.toDataURL('image/png');
       setPageImage(imageDataUrl);
       setIsGeneratingImage(false);
       
       // Cache the generated image in sessionStorage for future use
-      const imageKey = `worksheetPageImage_${worksheetId}_${pageNumber}`;
+      if (!shouldCachePageImage) return;
       try {
-        sessionStorage.setItem(imageKey, imageDataUrl);
+        sessionStorage.setItem(pageImageKey, imageDataUrl);
       } catch (error) {
         // If sessionStorage is full, try to clear old worksheet images
         try {
           // Clear old worksheet page images to make space
           for (let i = 0; i < sessionStorage.length; i++) {
             const key = sessionStorage.key(i);
-            if (key && key.startsWith('worksheetPageImage_') && key !== imageKey) {
+            if (key && key.startsWith('worksheetPageImage_') && key !== pageImageKey) {
               sessionStorage.removeItem(key);
             }
           }
           // Try to save again after cleanup
-          sessionStorage.setItem(imageKey, imageDataUrl);
+          sessionStorage.setItem(pageImageKey, imageDataUrl);
         } catch (cleanupError) {
           // Suppress non-debug logs
         }
       }
-    }).catch((error: any) => {
-      setIsGeneratingImage(false);
-      toast({
-        title: t('aiChat.pdfError'),
-        description: t('aiChat.imageGenerationError'),
-        variant: "destructive"
-      });
+    }).catch(() => {
+      if (!isCancelled) {
+        showImageGenerationError();
+      }
     });
-  };
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [
+    pdfPage,
+    protectedPage,
+    pageImage,
+    isServerRenderedPage,
+    isCurrentPageDrmProtected,
+    worksheetId,
+    pageNumber,
+    worksheetMeta,
+    user?.email,
+    activeStudentProfile?.profile_name,
+    pageImageKey,
+    shouldCachePageImage,
+    showImageGenerationError,
+  ]);
 
   const handleSendMessage = async () => {
     if (!inputMessage.trim() || isLoading || !pageImage) return;
 
-    const apiKey = localStorage.getItem('gemini-api-key');
-    if (!apiKey) {
-      toast({
-        title: t('aiChat.apiKeyMissing'),
-        description: t('aiChat.apiKeyMissingDesc'),
-        variant: "destructive"
-      });
-      return;
-    }
-
     const userMessage = inputMessage.trim();
     setInputMessage("");
     setIsLoading(true);
@@ -236,67 +298,49 @@ const AIChatPage: React.FC = () => {
     const newMessages: ChatMessage[] = [...messages, { role: 'user', content: userMessage }];
     setMessages(newMessages);
 
-    try {
-      const genAI = new GoogleGenerativeAI(apiKey);
-      const model = genAI.getGenerativeModel({ model: "gemini-2.5-flash" });
-
-      // Prepare the conversation history for context
-      const conversationHistory = newMessages
-        .filter(msg => msg.role === 'user')
-        .map(msg => `User: ${msg.content}`)
-        .join('\n');
-
-      // Create context based on worksheet mode
-      let worksheetContext = '';
-      if (worksheetMeta?.mode === 'auto' && pageDescriptionForAI) {
-        worksheetContext = `\n\nPage Context: ${pageDescriptionForAI}`;
-        if (activeGuidance) {
-          worksheetContext += `\n\nCurrent Guidance: ${activeGuidance.title}\nGuidance Content: ${activeGuidance.description.join(' ')}`;
-        }
-      } else if (activeRegion && activeRegion.description) {
-        worksheetContext = `\n\nRegion Context: ${activeRegion.description.join(' ')}`;
-      }
-
-      // Create the prompt with enhanced instructions for distinguishing question types
-      const prompt = `Act as a tutor. You must distinguish between two types of student questions:
-
-1. WORKSHEET QUESTIONS: Questions asking for direct answers to specific worksheet problems, exercises, or tasks shown in the image.
-   - For these questions: NEVER give the direct answer. Instead, provide hints, guide the student's thinking process, ask leading questions, or explain the underlying concepts that will help them solve it themselves.
-   - Examples: "What's the answer to question 3?", "Fill in the blank for me", "What should I write here?", "What's the correct word?"
-
-2. CONCEPTUAL QUESTIONS: Questions asking for understanding of general concepts, explanations, or clarification that are NOT asking for specific worksheet answers.
-   - For these questions: Provide clear, direct explanations and help the student understand the concept fully.
-   - Examples: "What is an adjective?", "How do I identify weather patterns?", "Can you explain what this concept means?", "Why does this work this way?"
-
-IMPORTANT: Always respond in the same language as the worksheet content and the user's question.
-${worksheetContext}
-
-Previous conversation:
-${conversationHistory}
-
-Current question: ${userMessage}
+    // Stream the reply into an assistant message that grows as text arrives
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    let streamedText = '';
+    const showStreamedText = (text: string) => {
+      streamedText = text;
+      setMessages([...newMessages, { role: 'assistant', content: text }]);
+    };
 
-Analyze the student's question carefully. If they're asking for a specific worksheet answer, guide them without giving the answer. If they're asking to understand a concept, explain it clearly and directly. Be encouraging and educational in both cases.`;
+    // The page image is uploaded with the first message of a session and referenced by URI afterwards
+    const imageUriKey = `aiTutorPageImageUri_${activeStudentProfile?.id ?? 'guest'}_${worksheetId}_${pageNumber}`;
+    const askTutor = (pageImageUri: string | null) => streamAiTutor({
+      question: userMessage,
+      ...(pageImageUri ? { pageImageUri } : { pageImage }),
+      history: messages,
+      context: {
+        mode: worksheetMeta?.mode === 'auto' ? 'auto' : 'regions',
+        pageDescription: pageDescriptionForAI,
+        activeGuidance: activeGuidance ? { title: activeGuidance.title, description: activeGuidance.description } : undefined,
+        activeRegion: activeRegion ? { description: activeRegion.description } : undefined
+      }
+    }, { signal: abortController.signal, onText: showStreamedText });
 
-      // Convert base64 image to the format expected by Gemini
-      const base64Data = pageImage.split(',')[1]; // Remove data:image/png;base64, prefix
-      
-      const imagePart = {
-        inlineData: {
-          data: base64Data,
-          mimeType: "image/png"
+    try {
+      // The tutor prompt and full conversation are built server-side from the page image and the active region/guidance
+      const storedImageUri = sessionStorage.getItem(imageUriKey);
+      let response;
+      try {
+        response = await askTutor(storedImageUri);
+      } catch (error) {
+        if (!(storedImageUri && error instanceof AiTutorError && error.isPageImageExpired)) {
+          throw error;
         }
-      };
-
-      const result = await model.generateContent([prompt, imagePart]);
-      const response = await result.response;
-      const aiResponse = response.text();
+        // The uploaded image expired - send it again
+        sessionStorage.removeItem(imageUriKey);
+        response = await askTutor(null);
+      }
 
-      // Add AI response to chat
-      setMessages(prev => [...prev, { role: 'assistant', content: aiResponse }]);
+      sessionStorage.setItem(imageUriKey, response.pageImageUri);
+      updateCreditsRemaining(response.creditsRemaining);
 
       // DEBUG: Check session state after AI response
-      const sessionKey = `worksheet_page_state_${worksheetId}_${pageNumber}`;
+      const sessionKey = getPageStateKey(worksheetId, pageNumber, activeStudentProfile?.id);
       const currentSessionState = sessionStorage.getItem(sessionKey);
       console.log('🔍 [DEBUG] AIChatPage - Session state AFTER AI response:', {
         sessionKey,
@@ -305,19 +349,35 @@ Analyze the student's question carefully. If they're asking for a specific works
       });
 
     } catch (error) {
+      // Stopped by the student - keep whatever part of the answer already arrived
+      if (abortController.signal.aborted) {
+        if (!streamedText) {
+          setMessages(newMessages);
+        }
+        return;
+      }
+
+      const outOfCredits = error instanceof AiTutorError && error.isOutOfCredits;
       toast({
-        title: t('aiChat.aiError'),
-        description: t('aiChat.aiErrorDesc'),
+        title: outOfCredits ? t('aiChat.noCredits') : t('aiChat.aiError'),
+        description: outOfCredits ? t('aiChat.noCreditsDesc') : t('aiChat.aiErrorDesc'),
         variant: "destructive"
       });
       
-      // Remove the user message if AI failed to respond
-      setMessages(messages);
+      // Remove the user message if AI failed to respond, but keep a partial answer
+      if (!streamedText) {
+        setMessages(messages);
+      }
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
     }
   };
 
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -327,7 +387,7 @@ Analyze the student's question carefully. If they're asking for a specific works
 
   const goBack = () => {
     // DEBUG: Check session state before navigating back to worksheet
-    const sessionKey = `worksheet_page_state_${worksheetId}_${pageNumber}`;
+    const sessionKey = getPageStateKey(worksheetId, pageNumber, activeStudentProfile?.id);
     const currentSessionState = sessionStorage.getItem(sessionKey);
     console.log('🔍 [DEBUG] AIChatPage - Session state BEFORE navigating back to worksheet:', {
       sessionKey,
@@ -474,8 +534,8 @@ Analyze the student's question carefully. If they're asking for a specific works
                 </div>
               ))}
               
-              {/* Loading indicator */}
-              {isLoading && (
+              {/* Loading indicator - shown until the first streamed text arrives */}
+              {isLoading && messages[messages.length - 1]?.role !== 'assistant' && (
                 <div className="flex justify-start">
                   <div className="flex items-center gap-2 text-gray-600 bg-gray-100 rounded-2xl px-4 py-3">
                     <Loader2 className="h-4 w-4 animate-spin" />
@@ -503,13 +563,24 @@ Analyze the student's question carefully. If they're asking for a specific works
               className="flex-1 min-h-[44px] text-base border-gray-300 focus:border-orange-500 focus:ring-orange-500"
               dir={getTextDirection(inputMessage)}
             />
-            <Button
-              onClick={handleSendMessage}
-              disabled={isLoading || !inputMessage.trim() || isGeneratingImage}
-              className="bg-gradient-orange-magenta hover:bg-gradient-orange-magenta min-w-[44px] h-[44px] px-3"
-            >
-              <Send className="h-4 w-4" />
-            </Button>
+            {isLoading ? (
+              <Button
+                onClick={handleStop}
+                className="bg-gradient-orange-magenta hover:bg-gradient-orange-magenta min-w-[44px] h-[44px] px-3"
+                aria-label={t('aiChat.stop')}
+                title={t('aiChat.stop')}
+              >
+                <Square className="h-4 w-4 fill-current" />
+              </Button>
+            ) : (
+              <Button
+                onClick={handleSendMessage}
+                disabled={!inputMessage.trim() || isGeneratingImage}
+                className="bg-gradient-orange-magenta hover:bg-gradient-orange-magenta min-w-[44px] h-[44px] px-3"
+              >
+                <Send className="h-4 w-4" />
+              </Button>
+            )}
           </div>
         </div>
       </div>
@@ -521,7 +592,7 @@ Analyze the student's question carefully. If they're asking for a specific works
             <Document file={pdfUrl}>
               <Page
                 pageNumber={parseInt(pageNumber)}
-                onLoadSuccess={onPageLoadSuccess}
+                onLoadSuccess={setPdfPage}
                 renderTextLayer={false}
                 renderAnnotationLayer={false}
               />
@@ -0,0 +1,353 @@
+import React, { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import AppHeader from "@/components/layout/AppHeader";
+import AdminDocumentPicker from "@/components/admin/AdminDocumentPicker";
+import TtsAudioPanel from "@/components/admin/TtsAudioPanel";
+import DescriptionStepsEditor from "@/components/admin/DescriptionStepsEditor";
+import AutoModeContentDisplay from "@/components/AutoModeContentDisplay";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ArrowDown, ArrowUp, AudioLines, Loader2, Plus, Save, Trash2 } from "lucide-react";
+import { useWorksheetData } from "@/hooks/useWorksheetData";
+import { useSaveAutoModeGuidance } from "@/hooks/useGuidanceAuthoring";
+import { validateGuidanceAudio, type GuidanceAudioIssue } from "@/lib/guidanceAudio";
+import { shouldUseSupabase } from "@/lib/supabase";
+import { getTextDirection } from "@/lib/textDirection";
+import { cn } from "@/lib/utils";
+import type { AutoModePageData, GuidanceItem } from "@/types/worksheet";
+import "../styles/Worksheet.css";
+
+// Drop blank steps so the viewer never shows empty paragraphs
+const cleanPages = (pages: AutoModePageData[]): AutoModePageData[] =>
+  [...pages]
+    .sort((a, b) => a.page_number - b.page_number)
+    .map(page => ({
+      ...page,
+      page_description: page.page_description.trim(),
+      guidance: page.guidance.map(guidance => ({
+        title: guidance.title.trim(),
+        audioName: guidance.audioName.trim(),
+        description: guidance.description.map(step => step.trim()).filter(step => step !== ''),
+        // Keys aren't edited here yet, so keep any that are already in the metadata
+        ...(guidance.answerKey ? { answerKey: guidance.answerKey } : {}),
+      })),
+    }));
+
+const GuidanceAuthoringPage: React.FC = () => {
+  const { documentId } = useParams<{ documentId: string }>();
+  const { data: worksheetData, isLoading, error } = useWorksheetData(documentId || '');
+  const { mutate: saveGuidance, isPending: isSaving } = useSaveAutoModeGuidance();
+
+  const [pages, setPages] = useState<AutoModePageData[]>([]);
+  const [loadedDocumentId, setLoadedDocumentId] = useState<string | null>(null);
+  const [selectedPageNumber, setSelectedPageNumber] = useState<number | null>(null);
+  const [audioIssues, setAudioIssues] = useState<GuidanceAudioIssue[] | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
+  const [isDirty, setIsDirty] = useState(false);
+
+  const meta = worksheetData?.meta;
+  const isAutoMode = meta?.mode === 'auto';
+
+  // Start editing from the saved guidance once per document
+  useEffect(() => {
+    if (documentId && meta?.mode === 'auto' && loadedDocumentId !== documentId) {
+      const sortedPages = [...meta.data].sort((a, b) => a.page_number - b.page_number);
+      setPages(sortedPages);
+      setSelectedPageNumber(sortedPages[0]?.page_number ?? null);
+      setAudioIssues(null);
+      setIsDirty(false);
+      setLoadedDocumentId(documentId);
+    }
+  }, [documentId, meta, loadedDocumentId]);
+
+  // Warn before leaving with unsaved edits
+  useEffect(() => {
+    if (!isDirty) return;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [isDirty]);
+
+  const selectedPage = pages.find(page => page.page_number === selectedPageNumber) || null;
+
+  const updateSelectedPage = (updater: (page: AutoModePageData) => AutoModePageData) => {
+    setPages(current => current.map(page => (page.page_number === selectedPageNumber ? updater(page) : page)));
+    setAudioIssues(null);
+    setIsDirty(true);
+  };
+
+  const updateGuidance = (index: number, updates: Partial<GuidanceItem>) => {
+    updateSelectedPage(page => ({
+      ...page,
+      guidance: page.guidance.map((guidance, i) => (i === index ? { ...guidance, ...updates } : guidance)),
+    }));
+  };
+
+  const moveGuidance = (index: number, direction: -1 | 1) => {
+    updateSelectedPage(page => {
+      const target = index + direction;
+      if (target < 0 || target >= page.guidance.length) return page;
+      const reordered = [...page.guidance];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      return { ...page, guidance: reordered };
+    });
+  };
+
+  const removeGuidance = (index: number) => {
+    if (!confirm('Delete this guidance item?')) return;
+    updateSelectedPage(page => ({ ...page, guidance: page.guidance.filter((_, i) => i !== index) }));
+  };
+
+  const addGuidance = () => {
+    // Default to the `{page}_{n}` audio naming that deep links fall back to
+    updateSelectedPage(page => {
+      const usedNames = new Set(page.guidance.map(guidance => guidance.audioName));
+      let index = page.guidance.length + 1;
+      while (usedNames.has(`${page.page_number}_${index}`)) index++;
+      return {
+        ...page,
+        guidance: [...page.guidance, { title: '', description: [''], audioName: `${page.page_number}_${index}` }],
+      };
+    });
+  };
+
+  const addPage = () => {
+    const pageNumber = pages.reduce((max, page) => Math.max(max, page.page_number), 0) + 1;
+    setPages(current => [...current, { page_number: pageNumber, page_description: '', guidance: [] }]);
+    setSelectedPageNumber(pageNumber);
+    setIsDirty(true);
+  };
+
+  const removeSelectedPage = () => {
+    if (!selectedPage || !confirm(`Delete page ${selectedPage.page_number} and all of its guidance?`)) return;
+    const remainingPages = pages.filter(page => page.page_number !== selectedPage.page_number);
+    setPages(remainingPages);
+    setSelectedPageNumber(remainingPages[0]?.page_number ?? null);
+    setAudioIssues(null);
+    setIsDirty(true);
+  };
+
+  const runValidation = async (): Promise<GuidanceAudioIssue[]> => {
+    setIsValidating(true);
+    try {
+      const issues = await validateGuidanceAudio(documentId!, cleanPages(pages), worksheetData?.audioManifest);
+      setAudioIssues(issues);
+      return issues;
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!documentId) return;
+    const issues = await runValidation();
+    if (issues.length > 0 && !confirm(`${issues.length} audio problem(s) found. Save anyway?`)) {
+      return;
+    }
+    saveGuidance(
+      { documentId, data: cleanPages(pages) },
+      { onSuccess: () => setIsDirty(false) }
+    );
+  };
+
+  if (!documentId) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <AppHeader title="Guidance Authoring" showProfileSwitcher={false} />
+        <div className="max-w-3xl mx-auto px-4 py-8">
+          <AdminDocumentPicker basePath="/admin/guidance" />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AppHeader title="Guidance Authoring" showProfileSwitcher={false} />
+
+      <div className="max-w-7xl mx-auto px-4 py-6 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <Link to="/admin/guidance" className="text-sm text-blue-600 hover:underline">All documents</Link>
+            <h2 className="text-lg font-semibold text-gray-900">{meta?.documentName || documentId}</h2>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" onClick={runValidation} disabled={!isAutoMode || isValidating}>
+              {isValidating ? <Loader2 className="h-4 w-4 animate-spin" /> : <AudioLines className="h-4 w-4" />}
+              Check Audio
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={!shouldUseSupabase() || !isDirty || isSaving || isValidating}
+              className="bg-gradient-orange-magenta hover:bg-gradient-orange-magenta text-white"
+            >
+              {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+              Save
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : error || !worksheetData ? (
+          <p className="text-center text-red-500 py-12">Failed to load document: {error?.message}</p>
+        ) : !isAutoMode ? (
+          <p className="text-center text-gray-600 py-12">
+            This document uses regions instead of Auto Mode guidance.{' '}
+            <Link to={`/admin/regions/${documentId}`} className="text-blue-600 hover:underline">Edit its regions</Link>
+          </p>
+        ) : (
+          <>
+            {audioIssues && (
+              <Card className={cn(audioIssues.length > 0 ? "border-red-200 bg-red-50" : "border-green-200 bg-green-50")}>
+                <CardContent className="py-3 text-sm">
+                  {audioIssues.length === 0 ? (
+                    <p className="text-green-700">Every guidance step has a matching audio file.</p>
+                  ) : (
+                    <ul className="space-y-1 text-red-700">
+                      {audioIssues.map((issue, index) => (
+                        <li key={index}>
+                          <button
+                            type="button"
+                            className="hover:underline text-left"
+                            onClick={() => setSelectedPageNumber(issue.pageNumber)}
+                          >
+                            Page {issue.pageNumber}, guidance {issue.guidanceIndex + 1}: {issue.message}
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            <TtsAudioPanel documentId={documentId} hasUnsavedChanges={isDirty} />
+
+            <div className="flex flex-wrap items-center gap-2">
+              {pages.map(page => (
+                <Button
+                  key={page.page_number}
+                  size="sm"
+                  variant={page.page_number === selectedPageNumber ? "default" : "outline"}
+                  onClick={() => setSelectedPageNumber(page.page_number)}
+                >
+                  Page {page.page_number}
+                </Button>
+              ))}
+              <Button size="sm" variant="outline" onClick={addPage}>
+                <Plus className="h-4 w-4" />
+                Add Page
+              </Button>
+            </div>
+
+            {selectedPage ? (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 items-start">
+                <div className="space-y-4">
+                  <Card>
+                    <CardHeader className="pb-3 flex flex-row items-center justify-between space-y-0">
+                      <CardTitle className="text-base">Page {selectedPage.page_number}</CardTitle>
+                      <Button variant="destructive" size="sm" onClick={removeSelectedPage}>
+                        <Trash2 className="h-4 w-4" />
+                        Delete Page
+                      </Button>
+                    </CardHeader>
+                    <CardContent className="space-y-2">
+                      <Label htmlFor="page-description">Page description</Label>
+                      <Textarea
+                        id="page-description"
+                        value={selectedPage.page_description}
+                        onChange={(e) => updateSelectedPage(page => ({ ...page, page_description: e.target.value }))}
+                        dir={getTextDirection(selectedPage.page_description)}
+                      />
+                      <p className="text-xs text-gray-500">Given to the AI tutor as context for this page.</p>
+                    </CardContent>
+                  </Card>
+
+                  {selectedPage.guidance.map((guidance, index) => (
+                    <Card key={index}>
+                      <CardHeader className="pb-3 flex flex-row items-center justify-between space-y-0">
+                        <CardTitle className="text-base">Guidance {index + 1}</CardTitle>
+                        <div className="flex gap-1">
+                          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => moveGuidance(index, -1)} disabled={index === 0} aria-label="Move guidance up">
+                            <ArrowUp className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => moveGuidance(index, 1)} disabled={index === selectedPage.guidance.length - 1} aria-label="Move guidance down">
+                            <ArrowDown className="h-4 w-4" />
+                          </Button>
+                          <Button variant="ghost" size="icon" className="h-8 w-8 text-red-600" onClick={() => removeGuidance(index)} aria-label="Remove guidance">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </CardHeader>
+                      <CardContent className="space-y-4">
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                          <div className="space-y-2">
+                            <Label htmlFor={`guidance-title-${index}`}>Title</Label>
+                            <Input
+                              id={`guidance-title-${index}`}
+                              value={guidance.title}
+                              onChange={(e) => updateGuidance(index, { title: e.target.value })}
+                              dir={getTextDirection(guidance.title)}
+                            />
+                          </div>
+                          <div className="space-y-2">
+                            <Label htmlFor={`guidance-audio-${index}`}>Audio name</Label>
+                            <Input
+                              id={`guidance-audio-${index}`}
+                              value={guidance.audioName}
+                              onChange={(e) => updateGuidance(index, { audioName: e.target.value })}
+                            />
+                          </div>
+                        </div>
+                        <div className="space-y-2">
+                          <Label>Steps</Label>
+                          <DescriptionStepsEditor
+                            steps={guidance.description}
+                            onChange={(description) => updateGuidance(index, { description })}
+                          />
+                        </div>
+                      </CardContent>
+                    </Card>
+                  ))}
+
+                  <Button variant="outline" onClick={addGuidance}>
+                    <Plus className="h-4 w-4" />
+                    Add Guidance
+                  </Button>
+                </div>
+
+                <div className="lg:sticky lg:top-4">
+                  <p className="text-sm font-medium text-gray-700 mb-2">Preview</p>
+                  <div className="guidance-preview h-[640px] rounded-lg border border-gray-200 bg-white">
+                    {/* Edits reach the open guidance item in place, so narration carries on while typing */}
+                    <AutoModeContentDisplay
+                      key={selectedPage.page_number}
+                      worksheetId={documentId}
+                      pageNumber={selectedPage.page_number}
+                      autoModePageData={selectedPage}
+                      pdfUrl={worksheetData.pdfUrl}
+                      audioManifest={worksheetData.audioManifest}
+                    />
+                  </div>
+                </div>
+              </div>
+            ) : (
+              <p className="text-center text-gray-600 py-12">This document has no guidance pages yet.</p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GuidanceAuthoringPage;
@@ -3,7 +3,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import AppHeader from '@/components/layout/AppHeader';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { QrCode, FileText, Users, Settings } from 'lucide-react';
+import { QrCode, FileText, Users, Settings, HardDrive, PenSquare, ListChecks } from 'lucide-react';
 import { Link } from 'react-router-dom';
 
 const Index = () => {
@@ -62,6 +62,25 @@ const Index = () => {
             </CardContent>
           </Card>
 
+          <Card className="hover:shadow-md transition-shadow">
+            <CardHeader className="pb-3">
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <HardDrive className="h-5 w-5 text-orange-600" />
+                Offline Worksheets
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-gray-600 text-sm mb-4">
+                Manage worksheets downloaded for use without a network
+              </p>
+              <Link to="/offline-packs">
+                <Button variant="outline" className="w-full">
+                  Manage Downloads
+                </Button>
+              </Link>
+            </CardContent>
+          </Card>
+
           <Card className="hover:shadow-md transition-shadow">
             <CardHeader className="pb-3">
               <CardTitle className="flex items-center gap-2 text-lg">
@@ -80,6 +99,48 @@ const Index = () => {
               </Link>
             </CardContent>
           </Card>
+
+          {account?.role === 'admin' && (
+            <Card className="hover:shadow-md transition-shadow">
+              <CardHeader className="pb-3">
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <PenSquare className="h-5 w-5 text-red-600" />
+                  Region Authoring
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-gray-600 text-sm mb-4">
+                  Draw and describe the regions of a worksheet
+                </p>
+                <Link to="/admin/regions">
+                  <Button variant="outline" className="w-full">
+                    Open Editor
+                  </Button>
+                </Link>
+              </CardContent>
+            </Card>
+          )}
+
+          {account?.role === 'admin' && (
+            <Card className="hover:shadow-md transition-shadow">
+              <CardHeader className="pb-3">
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <ListChecks className="h-5 w-5 text-teal-600" />
+                  Guidance Authoring
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-gray-600 text-sm mb-4">
+                  Write the step-by-step guidance of Auto Mode worksheets
+                </p>
+                <Link to="/admin/guidance">
+                  <Button variant="outline" className="w-full">
+                    Open Editor
+                  </Button>
+                </Link>
+              </CardContent>
+            </Card>
+          )}
         </div>
 
         {/* Account Info */}
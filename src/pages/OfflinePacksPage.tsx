@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import AppHeader from "@/components/layout/AppHeader";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Loader2, HardDrive, Trash2, FileText } from "lucide-react";
+import { useOfflinePacks, useDeleteOfflinePack } from "@/hooks/useOfflinePacks";
+import { formatBytes, isOfflinePackSupported } from "@/lib/offlinePacks";
+import { getTextDirection } from "@/lib/textDirection";
+
+const OfflinePacksPage: React.FC = () => {
+  const { t } = useTranslation();
+  const { data: packs, isLoading } = useOfflinePacks();
+  const { mutate: deletePack, isPending: isDeleting, variables: deletingId } = useDeleteOfflinePack();
+  const [storageEstimate, setStorageEstimate] = useState<{ usage: number; quota: number } | null>(null);
+
+  const isRTL = t('common.language') === 'العربية';
+
+  // Refresh the browser storage estimate whenever the pack list changes
+  useEffect(() => {
+    if (!navigator.storage?.estimate) return;
+    navigator.storage.estimate().then(({ usage, quota }) => {
+      setStorageEstimate({ usage: usage || 0, quota: quota || 0 });
+    });
+  }, [packs]);
+
+  const handleDelete = (worksheetId: string, documentName: string) => {
+    if (!confirm(t('offlinePacks.confirmDelete', { name: documentName }))) {
+      return;
+    }
+    deletePack(worksheetId);
+  };
+
+  const totalPackSize = packs?.reduce((total, pack) => total + pack.sizeBytes, 0) || 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AppHeader title={t('offlinePacks.title')} />
+
+      <div className="max-w-4xl mx-auto px-4 py-8 space-y-6" dir={isRTL ? 'rtl' : 'ltr'}>
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <HardDrive className="h-5 w-5" />
+              {t('offlinePacks.storage')}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <p className="text-sm font-medium text-gray-600">{t('offlinePacks.packsSize')}</p>
+                <p className="text-gray-900">{formatBytes(totalPackSize)}</p>
+              </div>
+              {storageEstimate && (
+                <div>
+                  <p className="text-sm font-medium text-gray-600">{t('offlinePacks.deviceUsage')}</p>
+                  <p className="text-gray-900">
+                    {formatBytes(storageEstimate.usage)} / {formatBytes(storageEstimate.quota)}
+                  </p>
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        {!isOfflinePackSupported() ? (
+          <p className="text-center text-gray-600">{t('offlinePacks.notSupported')}</p>
+        ) : isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : !packs || packs.length === 0 ? (
+          <p className="text-center text-gray-600">{t('offlinePacks.empty')}</p>
+        ) : (
+          <div className="space-y-3">
+            {packs.map((pack) => (
+              <div key={pack.worksheetId} className="flex items-center justify-between gap-4 p-4 border rounded-lg bg-white">
+                <div className="flex items-center gap-3 min-w-0">
+                  <FileText className="h-8 w-8 text-green-600 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <Link
+                      to={`/worksheet/${pack.worksheetId}/1`}
+                      className="font-medium text-gray-900 hover:text-blue-600 truncate block"
+                      dir={getTextDirection(pack.documentName)}
+                    >
+                      {pack.documentName}
+                    </Link>
+                    <p className="text-sm text-gray-500">
+                      {formatBytes(pack.sizeBytes)} · {t('offlinePacks.audioFiles', { count: pack.audioFileCount })} · {new Date(pack.downloadedAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  onClick={() => handleDelete(pack.worksheetId, pack.documentName)}
+                  disabled={isDeleting && deletingId === pack.worksheetId}
+                  aria-label={t('offlinePacks.delete')}
+                >
+                  {isDeleting && deletingId === pack.worksheetId
+                    ? <Loader2 className="h-4 w-4 animate-spin" />
+                    : <Trash2 className="h-4 w-4" />}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default OfflinePacksPage;
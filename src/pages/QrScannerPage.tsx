@@ -1,42 +1,126 @@
-import React, { useState } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { useNavigate } from "react-router-dom";
 import { useTranslation } from "react-i18next";
 import QrScanner from "react-qr-scanner";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { toast } from "@/components/ui/use-toast";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
-import { Languages } from "lucide-react";
+import { Languages, ImageUp, ClipboardPaste, Loader2 } from "lucide-react";
 import UserMenu from "@/components/UserMenu";
+import { parseQrPayload, getWorksheetPath } from "@/lib/qrPayload";
+import { decodeQrFromImage, readClipboardImage } from "@/lib/qrImageDecoder";
 
 const QrScannerPage: React.FC = () => {
   const navigate = useNavigate();
   const { t, i18n } = useTranslation();
   const [scanning, setScanning] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [manualCode, setManualCode] = useState("");
+  const [isDecodingImage, setIsDecodingImage] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const changeLanguage = (lng: string) => {
     i18n.changeLanguage(lng);
   };
 
+  // Camera, image and manual inputs all go through the same parser
+  const openWorksheet = (text: string) => {
+    const target = parseQrPayload(text);
+    
+    if (target) {
+      setScanning(false);
+      navigate(getWorksheetPath(target));
+      return true;
+    }
+    
+    toast({
+      title: t('qrScanner.invalidFormat'),
+      description: t('qrScanner.invalidFormatDesc'),
+      variant: "destructive"
+    });
+    return false;
+  };
+
   const handleScan = (data: { text: string } | null) => {
     if (data && data.text) {
-      const qrData = data.text;
-      const match = qrData.match(/^([A-Za-z]+)(\d+)$/);
-      
-      if (match) {
-        const id = match[1];
-        const n = match[2];
-        setScanning(false);
-        navigate(`/worksheet/${id}/${n}`);
-      } else {
+      if (!openWorksheet(data.text)) {
         setError(t('qrScanner.invalidFormat'));
+      }
+    }
+  };
+
+  const handleImage = async (image: Blob) => {
+    setIsDecodingImage(true);
+    try {
+      const qrText = await decodeQrFromImage(image);
+      if (qrText) {
+        openWorksheet(qrText);
+      } else {
         toast({
-          title: t('qrScanner.invalidFormat'),
-          description: t('qrScanner.invalidFormatDesc'),
+          title: t('qrScanner.noQrFound'),
+          description: t('qrScanner.noQrFoundDesc'),
           variant: "destructive"
         });
       }
+    } catch (err) {
+      console.error('Failed to decode QR image:', err);
+      toast({
+        title: t('qrScanner.noQrFound'),
+        description: t('qrScanner.noQrFoundDesc'),
+        variant: "destructive"
+      });
+    } finally {
+      setIsDecodingImage(false);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so picking the same file again still fires a change event
+    e.target.value = '';
+    if (file) {
+      handleImage(file);
+    }
+  };
+
+  const handlePasteClick = async () => {
+    try {
+      const image = await readClipboardImage();
+      if (image) {
+        handleImage(image);
+        return;
+      }
+    } catch (err) {
+      console.warn('Clipboard read failed:', err);
+    }
+    toast({
+      title: t('qrScanner.noClipboardImage'),
+      description: t('qrScanner.noClipboardImageDesc'),
+      variant: "destructive"
+    });
+  };
+
+  // Images pasted anywhere on the page (Ctrl+V / long-press paste) are decoded too
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const imageItem = Array.from(e.clipboardData?.items || []).find(item => item.type.startsWith('image/'));
+      const image = imageItem?.getAsFile();
+      if (image) {
+        e.preventDefault();
+        handleImage(image);
+      }
+    };
+    
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  });
+
+  const handleManualSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (manualCode.trim()) {
+      openWorksheet(manualCode);
     }
   };
 
@@ -111,6 +195,54 @@ const QrScannerPage: React.FC = () => {
               )}
             </div>
           )}
+
+          {/* Fallbacks when the camera is unavailable or the code is on a saved image */}
+          <div className="space-y-3" dir={i18n.language === 'ar' ? 'rtl' : 'ltr'}>
+            <p className="text-center text-sm text-gray-500">{t('qrScanner.orUseImage')}</p>
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                variant="outline"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isDecodingImage}
+              >
+                {isDecodingImage ? <Loader2 className="h-4 w-4 animate-spin" /> : <ImageUp className="h-4 w-4" />}
+                {t('qrScanner.uploadImage')}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={handlePasteClick}
+                disabled={isDecodingImage}
+              >
+                <ClipboardPaste className="h-4 w-4" />
+                {t('qrScanner.pasteImage')}
+              </Button>
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+            <form onSubmit={handleManualSubmit} className="flex gap-2">
+              <Input
+                value={manualCode}
+                onChange={(e) => setManualCode(e.target.value)}
+                placeholder={t('qrScanner.manualCodePlaceholder')}
+                aria-label={t('qrScanner.manualCodePlaceholder')}
+                dir="ltr"
+                autoCapitalize="off"
+                autoCorrect="off"
+              />
+              <Button
+                type="submit"
+                disabled={!manualCode.trim()}
+                className="bg-gradient-orange-magenta hover:bg-gradient-orange-magenta text-white"
+              >
+                {t('qrScanner.open')}
+              </Button>
+            </form>
+          </div>
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,338 @@
+import React, { useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import AppHeader from "@/components/layout/AppHeader";
+import RegionEditorCanvas, { type RegionRect } from "@/components/admin/RegionEditorCanvas";
+import DescriptionStepsEditor from "@/components/admin/DescriptionStepsEditor";
+import AdminDocumentPicker from "@/components/admin/AdminDocumentPicker";
+import TtsAudioPanel from "@/components/admin/TtsAudioPanel";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronLeft, ChevronRight, Download, Loader2, Save, Trash2 } from "lucide-react";
+import { useWorksheetData } from "@/hooks/useWorksheetData";
+import { useSaveDocumentRegions } from "@/hooks/useRegionAuthoring";
+import { shouldUseSupabase } from "@/lib/supabase";
+import { useAuth } from "@/contexts/AuthContext";
+import { transformRegionShape } from "@/lib/regionShape";
+import { REGION_TYPES } from "@/components/regions/regionTypes";
+import type { RegionData } from "@/types/worksheet";
+
+// What the `target` field means for each region type that uses it
+const TARGET_HINTS: Record<string, (documentId: string, name: string) => string> = {
+  audio: (documentId, name) => `Clip URL. Leave empty to use /audio/${documentId}/${name}_1.mp3`,
+  video: (documentId, name) => `Clip URL. Leave empty to use /video/${documentId}/${name}.mp4`,
+  link: () => 'A page number in this worksheet, or a worksheet code or /w/... link',
+};
+
+// Drop blank steps so the viewer never shows empty paragraphs
+const cleanRegion = (region: RegionData): RegionData => ({
+  ...region,
+  name: region.name.trim(),
+  target: region.target?.trim() || null,
+  description: region.description.map(step => step.trim()).filter(step => step !== ''),
+});
+
+const RegionAuthoringPage: React.FC = () => {
+  const { documentId } = useParams<{ documentId: string }>();
+  const { user } = useAuth();
+  const { data: worksheetData, isLoading, error } = useWorksheetData(documentId || '');
+  const { mutate: saveRegions, isPending: isSaving } = useSaveDocumentRegions();
+
+  const [regions, setRegions] = useState<RegionData[]>([]);
+  const [deletedRegionIds, setDeletedRegionIds] = useState<string[]>([]);
+  const [loadedDocumentId, setLoadedDocumentId] = useState<string | null>(null);
+  const [selectedRegionId, setSelectedRegionId] = useState<string | null>(null);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [numPages, setNumPages] = useState(0);
+  const [isDirty, setIsDirty] = useState(false);
+
+  const meta = worksheetData?.meta;
+  const isRegionsMode = !!meta && meta.mode !== 'auto' && 'regions' in meta;
+
+  // Start editing from the saved regions once per document
+  useEffect(() => {
+    if (documentId && isRegionsMode && 'regions' in meta && loadedDocumentId !== documentId) {
+      setRegions(meta.regions);
+      setDeletedRegionIds([]);
+      setSelectedRegionId(null);
+      setPageNumber(1);
+      setIsDirty(false);
+      setLoadedDocumentId(documentId);
+    }
+  }, [documentId, meta, isRegionsMode, loadedDocumentId]);
+
+  // Warn before leaving with unsaved edits
+  useEffect(() => {
+    if (!isDirty) return;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [isDirty]);
+
+  const pageRegions = regions.filter(region => region.page === pageNumber);
+  const selectedRegion = regions.find(region => region.id === selectedRegionId) || null;
+
+  const updateRegion = (regionId: string, updates: Partial<RegionData>) => {
+    setRegions(current => current.map(region => (region.id === regionId ? { ...region, ...updates } : region)));
+    setIsDirty(true);
+  };
+
+  // Moving or resizing a shaped region carries its outline along with the bounding box
+  const handleChangeRegionRect = (regionId: string, rect: RegionRect) => {
+    const region = regions.find(r => r.id === regionId);
+    updateRegion(regionId, region?.shape
+      ? { ...rect, shape: transformRegionShape(region.shape, region, rect) }
+      : rect);
+  };
+
+  const handleCreateRegion = (rect: RegionRect) => {
+    // Follow the `{page}_{n}` naming that audio files are keyed on
+    const usedNames = new Set(pageRegions.map(region => region.name));
+    let index = pageRegions.length + 1;
+    while (usedNames.has(`${pageNumber}_${index}`)) index++;
+
+    const newRegion: RegionData = {
+      id: crypto.randomUUID(),
+      document_id: documentId!,
+      user_id: pageRegions[0]?.user_id || user?.id || '',
+      page: pageNumber,
+      ...rect,
+      type: 'area',
+      name: `${pageNumber}_${index}`,
+      description: [''],
+      created_at: new Date().toISOString(),
+    };
+    setRegions(current => [...current, newRegion]);
+    setSelectedRegionId(newRegion.id);
+    setIsDirty(true);
+  };
+
+  const handleDeleteRegion = (regionId: string) => {
+    if (!confirm('Delete this region?')) return;
+    setRegions(current => current.filter(region => region.id !== regionId));
+    // Only regions that already exist in the database need deleting there
+    if (meta && 'regions' in meta && meta.regions.some(region => region.id === regionId)) {
+      setDeletedRegionIds(current => [...current, regionId]);
+    }
+    setSelectedRegionId(null);
+    setIsDirty(true);
+  };
+
+  const handleSave = () => {
+    if (!documentId) return;
+    saveRegions(
+      { documentId, regions: regions.map(cleanRegion), deletedRegionIds },
+      {
+        onSuccess: () => {
+          setDeletedRegionIds([]);
+          setIsDirty(false);
+        }
+      }
+    );
+  };
+
+  // Export in the legacy public/data/{id}.json format
+  const handleExport = () => {
+    if (!documentId || !meta) return;
+    const exportData = {
+      documentName: meta.documentName,
+      documentId: meta.documentId,
+      drmProtectedPages: meta.drmProtectedPages,
+      regions: [...regions]
+        .map(cleanRegion)
+        .sort((a, b) => a.page - b.page || a.name.localeCompare(b.name, undefined, { numeric: true })),
+    };
+    const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${documentId}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (!documentId) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <AppHeader title="Region Authoring" showProfileSwitcher={false} />
+        <div className="max-w-3xl mx-auto px-4 py-8">
+          <AdminDocumentPicker basePath="/admin/regions" />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AppHeader title="Region Authoring" showProfileSwitcher={false} />
+
+      <div className="max-w-7xl mx-auto px-4 py-6 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <Link to="/admin/regions" className="text-sm text-blue-600 hover:underline">All documents</Link>
+            <h2 className="text-lg font-semibold text-gray-900">{meta?.documentName || documentId}</h2>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="icon" onClick={() => setPageNumber(page => page - 1)} disabled={pageNumber <= 1} aria-label="Previous page">
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm text-gray-700 min-w-[80px] text-center">
+              Page {pageNumber}{numPages > 0 ? ` / ${numPages}` : ''}
+            </span>
+            <Button variant="outline" size="icon" onClick={() => setPageNumber(page => page + 1)} disabled={numPages > 0 && pageNumber >= numPages} aria-label="Next page">
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" onClick={handleExport} disabled={!isRegionsMode}>
+              <Download className="h-4 w-4" />
+              Export JSON
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={!shouldUseSupabase() || !isDirty || isSaving}
+              className="bg-gradient-orange-magenta hover:bg-gradient-orange-magenta text-white"
+            >
+              {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+              Save
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : error || !worksheetData ? (
+          <p className="text-center text-red-500 py-12">Failed to load document: {error?.message}</p>
+        ) : !isRegionsMode ? (
+          <p className="text-center text-gray-600 py-12">
+            This document uses Auto Mode guidance instead of regions.{' '}
+            <Link to={`/admin/guidance/${documentId}`} className="text-blue-600 hover:underline">Edit its guidance</Link>
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-[auto_1fr] gap-6 items-start">
+            <div className="overflow-auto">
+              <RegionEditorCanvas
+                pdfUrl={worksheetData.pdfUrl}
+                pageNumber={pageNumber}
+                regions={pageRegions}
+                selectedRegionId={selectedRegionId}
+                onSelectRegion={setSelectedRegionId}
+                onChangeRegion={handleChangeRegionRect}
+                onCreateRegion={handleCreateRegion}
+                onDocumentLoad={setNumPages}
+              />
+              <p className="text-xs text-gray-500 mt-2">
+                Drag on the page to draw a region. Drag a region to move it, or its corners to resize it.
+              </p>
+            </div>
+
+            <div className="space-y-4">
+              <TtsAudioPanel documentId={documentId} hasUnsavedChanges={isDirty} />
+
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-base">Regions on page {pageNumber}</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {pageRegions.length === 0 ? (
+                    <p className="text-sm text-gray-500">No regions yet.</p>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      {pageRegions.map(region => (
+                        <Button
+                          key={region.id}
+                          size="sm"
+                          variant={region.id === selectedRegionId ? "default" : "outline"}
+                          onClick={() => setSelectedRegionId(region.id)}
+                        >
+                          {region.name || 'Untitled'}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              {selectedRegion && (
+                <Card>
+                  <CardHeader className="pb-3 flex flex-row items-center justify-between space-y-0">
+                    <CardTitle className="text-base">Edit Region</CardTitle>
+                    <Button variant="destructive" size="sm" onClick={() => handleDeleteRegion(selectedRegion.id)}>
+                      <Trash2 className="h-4 w-4" />
+                      Delete
+                    </Button>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="region-name">Name</Label>
+                      <Input
+                        id="region-name"
+                        value={selectedRegion.name}
+                        onChange={(e) => updateRegion(selectedRegion.id, { name: e.target.value })}
+                      />
+                      <p className="text-xs text-gray-500">
+                        Audio is loaded from /audio/{documentId}/{selectedRegion.name || '…'}_1.mp3, _2.mp3, …
+                      </p>
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="region-type">Type</Label>
+                      <Select
+                        value={selectedRegion.type}
+                        onValueChange={(type) => updateRegion(selectedRegion.id, { type })}
+                      >
+                        <SelectTrigger id="region-type">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {Object.keys(REGION_TYPES).map(type => (
+                            <SelectItem key={type} value={type}>{type}</SelectItem>
+                          ))}
+                          {selectedRegion.type && !(selectedRegion.type in REGION_TYPES) && (
+                            <SelectItem value={selectedRegion.type}>{selectedRegion.type} (unknown)</SelectItem>
+                          )}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {TARGET_HINTS[selectedRegion.type] && (
+                      <div className="space-y-2">
+                        <Label htmlFor="region-target">Target</Label>
+                        <Input
+                          id="region-target"
+                          value={selectedRegion.target || ''}
+                          onChange={(e) => updateRegion(selectedRegion.id, { target: e.target.value })}
+                        />
+                        <p className="text-xs text-gray-500">
+                          {TARGET_HINTS[selectedRegion.type](documentId, selectedRegion.name || '…')}
+                        </p>
+                      </div>
+                    )}
+                    <div className="grid grid-cols-4 gap-2 text-xs text-gray-500">
+                      <span>x {selectedRegion.x}</span>
+                      <span>y {selectedRegion.y}</span>
+                      <span>w {selectedRegion.width}</span>
+                      <span>h {selectedRegion.height}</span>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Steps</Label>
+                      <DescriptionStepsEditor
+                        steps={selectedRegion.description}
+                        onChange={(description) => updateRegion(selectedRegion.id, { description })}
+                      />
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RegionAuthoringPage;
@@ -0,0 +1,18 @@
+import React from "react";
+import { Navigate, useLocation } from "react-router-dom";
+import { parseQrPayload, getWorksheetPath } from "@/lib/qrPayload";
+import NotFound from "./NotFound";
+
+// Resolves versioned worksheet links (/w/{documentId}?p=3&r=1_2) to the worksheet route
+const WorksheetLinkPage: React.FC = () => {
+  const location = useLocation();
+  const target = parseQrPayload(`${location.pathname}${location.search}`);
+
+  if (!target) {
+    return <NotFound />;
+  }
+
+  return <Navigate to={getWorksheetPath(target)} replace />;
+};
+
+export default WorksheetLinkPage;
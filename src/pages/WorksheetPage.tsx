@@ -1,33 +1,29 @@
-import React, { useState, useEffect, useCallback } from "react";
-import { useParams, useNavigate, useLocation } from "react-router-dom";
+import React, { useState, useEffect, useCallback, useRef } from "react";
+import { useParams, useNavigate, useLocation, useSearchParams } from "react-router-dom";
 import { useTranslation } from "react-i18next";
 import WorksheetViewer from "@/components/WorksheetViewer";
 import AutoModeContentDisplay from "@/components/AutoModeContentDisplay";
 import AIChatButton from "@/components/AIChatButton";
+import OfflinePackButton from "@/components/OfflinePackButton";
+import PageNavigator from "@/components/PageNavigator";
 import { Button } from "@/components/ui/button";
 import { useWorksheetData } from "@/hooks/useWorksheetData";
+import { useWorksheetProgress, useSaveWorksheetProgress, type ProgressItemType } from "@/hooks/useWorksheetProgress";
+import { useSwipeNavigation } from "@/hooks/useSwipeNavigation";
+import { useAuth } from "@/contexts/AuthContext";
+import { getWorksheetPath } from "@/lib/qrPayload";
+import { getPageStateKey, type SessionPageData, type StoredRegionData, type StoredGuidanceData } from "@/lib/pageState";
 import type { RegionData, GuidanceItem, AutoModePageData } from "@/types/worksheet";
 
-interface StoredRegionData {
-  currentStepIndex: number;
-}
-
-interface StoredGuidanceData {
-  currentStepIndex: number;
-}
-
-interface SessionPageData {
-  lastActiveRegionId: string | null;
-  lastActiveGuidanceIndex: number | null;
-  regions: Record<string, StoredRegionData>;
-  guidance: Record<number, StoredGuidanceData>;
-}
-
 const WorksheetPage: React.FC = () => {
   const { t } = useTranslation();
   const { id, n } = useParams<{ id: string; n: string }>();
   const navigate = useNavigate();
   const location = useLocation();
+  const [searchParams] = useSearchParams();
+  
+  // Region or guidance item to open from a QR code / deep link, e.g. ?r=1_2
+  const deepLinkItemName = searchParams.get('r');
   
   const [isTextModeActive, setIsTextModeActive] = useState(false);
   const [currentActiveRegion, setCurrentActiveRegion] = useState<RegionData | null>(null);
@@ -40,6 +36,12 @@ const WorksheetPage: React.FC = () => {
   const [initialCurrentStepIndex, setInitialCurrentStepIndex] = useState<number>(0);
   const [initialActiveGuidance, setInitialActiveGuidance] = useState<GuidanceItem | null>(null);
   const [initialGuidanceStepIndex, setInitialGuidanceStepIndex] = useState<number>(0);
+  const [numPages, setNumPages] = useState<number | null>(null);
+  const [isPageZoomed, setIsPageZoomed] = useState(false);
+  
+  // Whether a region or guidance item has been opened on this page, so the viewers' initial
+  // "nothing active" notification does not wipe the page's saved last active item
+  const hasActiveItemRef = useRef(false);
   
   // Get initial state from navigation (when returning from AI chat)
   const locationState = location.state as { 
@@ -52,54 +54,102 @@ const WorksheetPage: React.FC = () => {
   // Fetch worksheet data once at the page level
   const { data: worksheetData, isLoading, error } = useWorksheetData(id || '');
   
-  // Enable zooming for worksheet page
-  useEffect(() => {
-    const viewportMeta = document.querySelector('meta[name="viewport"]') as HTMLMetaElement;
-    if (viewportMeta) {
-      // Store original viewport content
-      const originalContent = viewportMeta.content;
-      
-      // Enable zooming for worksheet page
-      viewportMeta.content = "width=device-width, initial-scale=1.0, user-scalable=yes, maximum-scale=5.0";
-      
-      // Cleanup function to restore original viewport when component unmounts
-      return () => {
-        if (viewportMeta) {
-          viewportMeta.content = originalContent;
-        }
-      };
-    }
-  }, []);
+  // Progress is persisted per student profile; sessionStorage is a write-through cache of it
+  const { activeStudentProfile } = useAuth();
+  const pageNumber = parseInt(n || '', 10);
+  const { data: serverProgress, isLoading: isLoadingProgress } = useWorksheetProgress(id || '', pageNumber);
+  const { mutate: saveProgress } = useSaveWorksheetProgress();
+  const syncedStepsRef = useRef<Record<string, number>>({});
   
-  // Control zooming based on text mode state
+  // The deep link last applied, as `id/n/r`, so refetched progress does not reopen its item
+  const appliedDeepLinkRef = useRef<string | null>(null);
+  
+  // Reset the record of synced steps when the page or profile changes
   useEffect(() => {
-    const viewportMeta = document.querySelector('meta[name="viewport"]') as HTMLMetaElement;
-    if (viewportMeta) {
-      if (isTextModeActive) {
-        // Disable zooming and reset zoom when entering text/audio/video mode
-        viewportMeta.content = "width=device-width, initial-scale=1.0, user-scalable=no, maximum-scale=1.0";
-        console.log('Zoom disabled and reset due to text mode activation');
-      } else {
-        // Re-enable zooming when exiting text/audio/video mode
-        viewportMeta.content = "width=device-width, initial-scale=1.0, user-scalable=yes, maximum-scale=5.0";
-        console.log('Zoom re-enabled due to text mode deactivation');
+    syncedStepsRef.current = {};
+    hasActiveItemRef.current = false;
+  }, [id, n, activeStudentProfile?.id]);
+  
+  // Push a step change to Supabase, skipping steps that are already stored or being stored
+  const syncProgress = useCallback((itemType: ProgressItemType, itemKey: string, stepIndex: number, totalSteps: number) => {
+    if (!id || isNaN(pageNumber)) return;
+    
+    const syncKey = `${itemType}_${itemKey}`;
+    if (syncedStepsRef.current[syncKey] === stepIndex) return;
+    syncedStepsRef.current[syncKey] = stepIndex;
+    
+    saveProgress({ worksheetId: id, pageNumber, itemType, itemKey, stepIndex, totalSteps }, {
+      // Forget a step that failed to save (e.g. offline), so it is sent again rather than treated as stored
+      onError: () => {
+        if (syncedStepsRef.current[syncKey] === stepIndex) {
+          delete syncedStepsRef.current[syncKey];
+        }
       }
-    }
-  }, [isTextModeActive]);
+    });
+  }, [id, pageNumber, saveProgress]);
   
   // Load session state when worksheet or page changes
   useEffect(() => {
     if (!id || !n) return;
     
-    const sessionKey = `worksheet_page_state_${id}_${n}`;
+    const sessionKey = getPageStateKey(id, n, activeStudentProfile?.id);
     console.log('🔍 [DEBUG] Loading session state with key:', sessionKey);
+    let savedState: SessionPageData | null = null;
     
     try {
       const storedState = sessionStorage.getItem(sessionKey);
       console.log('🔍 [DEBUG] Raw stored state from sessionStorage:', storedState);
       
-      if (storedState) {
-        const parsedState = JSON.parse(storedState) as SessionPageData;
+      let parsedState = storedState ? JSON.parse(storedState) as SessionPageData : null;
+      
+      // Merge in progress saved on the server, letting this session's newer local steps win
+      if (serverProgress) {
+        const localState = parsedState;
+        parsedState = {
+          lastActiveRegionId: localState?.lastActiveRegionId ?? null,
+          lastActiveGuidanceIndex: localState?.lastActiveGuidanceIndex ?? null,
+          regions: { ...serverProgress.regions, ...localState?.regions },
+          guidance: { ...serverProgress.guidance, ...localState?.guidance }
+        };
+        sessionStorage.setItem(sessionKey, JSON.stringify(parsedState));
+        
+        // Only the server's steps are stored; steps being saved keep their own record
+        Object.entries(serverProgress.regions).forEach(([regionId, regionState]) => {
+          const syncKey = `region_${regionId}`;
+          if (!(syncKey in syncedStepsRef.current)) {
+            syncedStepsRef.current[syncKey] = regionState.currentStepIndex;
+          }
+        });
+        Object.entries(serverProgress.guidance).forEach(([guidanceIndex, guidanceState]) => {
+          const syncKey = `guidance_${guidanceIndex}`;
+          if (!(syncKey in syncedStepsRef.current)) {
+            syncedStepsRef.current[syncKey] = guidanceState.currentStepIndex;
+          }
+        });
+        
+        // Upload local steps that are ahead of the server, e.g. reached offline or before signing in
+        const pageIndex = parseInt(n, 10);
+        Object.entries(localState?.regions || {}).forEach(([regionId, regionState]) => {
+          if (regionState.currentStepIndex > (serverProgress.regions[regionId]?.currentStepIndex ?? -1)) {
+            const region = worksheetData?.meta && 'regions' in worksheetData.meta
+              ? worksheetData.meta.regions.find(metaRegion => metaRegion.id === regionId)
+              : undefined;
+            syncProgress('region', regionId, regionState.currentStepIndex, region?.description?.length || 0);
+          }
+        });
+        Object.entries(localState?.guidance || {}).forEach(([guidanceIndex, guidanceState]) => {
+          if (guidanceState.currentStepIndex > (serverProgress.guidance[Number(guidanceIndex)]?.currentStepIndex ?? -1)) {
+            const guidance = worksheetData?.meta?.mode === 'auto' && 'data' in worksheetData.meta
+              ? worksheetData.meta.data.find(page => page.page_number === pageIndex)?.guidance[Number(guidanceIndex)]
+              : undefined;
+            syncProgress('guidance', guidanceIndex, guidanceState.currentStepIndex, guidance?.description?.length || 0);
+          }
+        });
+      }
+      
+      savedState = parsedState;
+      
+      if (parsedState) {
         console.log('🔍 [DEBUG] Parsed session state:', parsedState);
         
         // Set all regions state
@@ -173,12 +223,82 @@ const WorksheetPage: React.FC = () => {
         setInitialGuidanceStepIndex(locationState.initialGuidanceStepIndex || 0);
       }
     }
-  }, [id, n, locationState, worksheetData]);
+    
+    // A deep-linked item opens at the step the profile reached, once per navigation and once its
+    // saved progress has loaded, unless we are returning from AI chat
+    const deepLinkKey = `${id}/${n}/${deepLinkItemName}`;
+    if (
+      deepLinkItemName &&
+      worksheetData?.meta &&
+      !isLoadingProgress &&
+      appliedDeepLinkRef.current !== deepLinkKey &&
+      !locationState?.initialActiveRegion &&
+      !locationState?.initialActiveGuidance
+    ) {
+      appliedDeepLinkRef.current = deepLinkKey;
+      const pageIndex = parseInt(n, 10);
+      
+      if (worksheetData.meta.mode === 'auto' && 'data' in worksheetData.meta) {
+        const pageData = worksheetData.meta.data.find(page => page.page_number === pageIndex);
+        const linkedGuidanceIndex = pageData?.guidance.findIndex((guidance, index) =>
+          guidance.audioName === deepLinkItemName || `${pageIndex}_${index + 1}` === deepLinkItemName
+        ) ?? -1;
+        if (pageData && linkedGuidanceIndex !== -1) {
+          setInitialActiveGuidance(pageData.guidance[linkedGuidanceIndex]);
+          setInitialGuidanceStepIndex(savedState?.guidance?.[linkedGuidanceIndex]?.currentStepIndex || 0);
+        }
+      } else if ('regions' in worksheetData.meta) {
+        const linkedRegion = worksheetData.meta.regions.find(
+          region => region.page === pageIndex && region.name === deepLinkItemName
+        );
+        if (linkedRegion) {
+          setInitialActiveRegion(linkedRegion);
+          setInitialCurrentStepIndex(savedState?.regions?.[linkedRegion.id]?.currentStepIndex || 0);
+        }
+      }
+    }
+  }, [id, n, locationState, worksheetData, activeStudentProfile?.id, serverProgress, isLoadingProgress, deepLinkItemName, syncProgress]);
   
   const goBack = () => {
     navigate("/");
   };
 
+  // Pages that can be navigated to: every PDF page, or the pages with guidance in Auto Mode
+  const pageNumbers = worksheetData?.meta?.mode === 'auto' && 'data' in worksheetData.meta
+    ? worksheetData.meta.data.map(page => page.page_number).sort((a, b) => a - b)
+    : numPages
+      ? Array.from({ length: numPages }, (_, index) => index + 1)
+      : [];
+
+  const goToPage = useCallback((targetPage: number) => {
+    if (!id || targetPage === pageNumber) return;
+    
+    // Drop the previous page's restore targets; the new page restores its own from session state
+    hasActiveItemRef.current = false;
+    setInitialActiveRegion(null);
+    setInitialCurrentStepIndex(0);
+    setInitialActiveGuidance(null);
+    setInitialGuidanceStepIndex(0);
+    
+    navigate(getWorksheetPath({ worksheetId: id, pageNumber: targetPage }), { replace: true });
+  }, [id, pageNumber, navigate]);
+  
+  const currentPagePosition = pageNumbers.indexOf(pageNumber);
+  
+  useSwipeNavigation({
+    onSwipeLeft: () => {
+      if (currentPagePosition !== -1 && currentPagePosition < pageNumbers.length - 1) {
+        goToPage(pageNumbers[currentPagePosition + 1]);
+      }
+    },
+    onSwipeRight: () => {
+      if (currentPagePosition > 0) {
+        goToPage(pageNumbers[currentPagePosition - 1]);
+      }
+    },
+    enabled: !isTextModeActive && !isPageZoomed && pageNumbers.length > 1
+  });
+
   // Memoize the handleRegionStateChange function to prevent unnecessary re-renders
   const handleRegionStateChange = useCallback((region: RegionData | null, stepIndex: number) => {
     console.log('🔍 [DEBUG] handleRegionStateChange called with region:', region?.id, 'stepIndex:', stepIndex);
@@ -200,9 +320,13 @@ const WorksheetPage: React.FC = () => {
       return stepChanged ? stepIndex : prevStepIndex;
     });
     
+    if (region) {
+      hasActiveItemRef.current = true;
+    }
+    
     // Update all regions state and save to session storage
-    if (id && n) {
-      const sessionKey = `worksheet_page_state_${id}_${n}`;
+    if (id && n && (region || hasActiveItemRef.current)) {
+      const sessionKey = getPageStateKey(id, n, activeStudentProfile?.id);
       console.log('🔍 [DEBUG] Using session key for save:', sessionKey);
       
       // Use functional update to ensure we have the latest state
@@ -278,8 +402,16 @@ const WorksheetPage: React.FC = () => {
           return currentAllRegionsState;
         }
       });
+      
+      if (!region) {
+        hasActiveItemRef.current = false;
+      }
+      
+      if (region) {
+        syncProgress('region', region.id, stepIndex, region.description?.length || 0);
+      }
     }
-  }, [id, n, allGuidanceState]); // Include allGuidanceState in dependencies
+  }, [id, n, allGuidanceState, activeStudentProfile?.id, syncProgress]); // Include allGuidanceState in dependencies
 
   // Handle guidance state changes for Auto Mode
   const handleGuidanceStateChange = useCallback((guidance: GuidanceItem | null, stepIndex: number) => {
@@ -301,9 +433,13 @@ const WorksheetPage: React.FC = () => {
       return stepChanged ? stepIndex : prevStepIndex;
     });
     
+    if (guidance) {
+      hasActiveItemRef.current = true;
+    }
+    
     // Update guidance state and save to session storage
-    if (id && n && worksheetData?.meta?.mode === 'auto' && 'data' in worksheetData.meta) {
-      const sessionKey = `worksheet_page_state_${id}_${n}`;
+    if (id && n && worksheetData?.meta?.mode === 'auto' && 'data' in worksheetData.meta && (guidance || hasActiveItemRef.current)) {
+      const sessionKey = getPageStateKey(id, n, activeStudentProfile?.id);
       const pageIndex = parseInt(n, 10);
       const pageData = worksheetData.meta.data.find(page => page.page_number === pageIndex);
       
@@ -335,6 +471,8 @@ const WorksheetPage: React.FC = () => {
             
             return updatedAllGuidanceState;
           });
+          
+          syncProgress('guidance', String(guidanceIndex), stepIndex, guidance.description?.length || 0);
         }
       } else if (!guidance) {
         // Clear active guidance
@@ -360,9 +498,10 @@ const WorksheetPage: React.FC = () => {
         } catch (error) {
           console.warn('🔍 [DEBUG] Failed to update guidance session state:', error);
         }
+        hasActiveItemRef.current = false;
       }
     }
-  }, [id, n, worksheetData, allRegionsState, allGuidanceState]);
+  }, [id, n, worksheetData, allRegionsState, allGuidanceState, activeStudentProfile?.id, syncProgress]);
   
   if (!id || !n) {
     return (
@@ -438,10 +577,12 @@ const WorksheetPage: React.FC = () => {
     <div className="min-h-screen bg-gray-50">
       {worksheetData.meta.mode === 'auto' && currentPageData ? (
         <AutoModeContentDisplay
+          key={pageIndex}
           worksheetId={id}
           pageNumber={pageIndex}
           autoModePageData={currentPageData}
           pdfUrl={worksheetData.pdfUrl}
+          audioManifest={worksheetData.audioManifest}
           onTextModeChange={setIsTextModeActive}
           onGuidanceStateChange={handleGuidanceStateChange}
           initialActiveGuidance={initialActiveGuidance}
@@ -454,13 +595,23 @@ const WorksheetPage: React.FC = () => {
           pageIndex={pageIndex} 
           worksheetMeta={worksheetData.meta as any}
           pdfUrl={worksheetData.pdfUrl}
+          audioManifest={worksheetData.audioManifest}
           onTextModeChange={setIsTextModeActive}
           initialActiveRegion={initialActiveRegion}
           initialCurrentStepIndex={initialCurrentStepIndex}
           onRegionStateChange={handleRegionStateChange}
           allRegionsState={allRegionsState}
+          onDocumentLoad={setNumPages}
+          onZoomChange={setIsPageZoomed}
         />
       )}
+      <PageNavigator
+        pdfUrl={worksheetData.pdfUrl}
+        pageNumbers={pageNumbers}
+        currentPage={pageIndex}
+        onNavigate={goToPage}
+        isTextModeActive={isTextModeActive}
+      />
       <AIChatButton 
         worksheetId={id} 
         pageNumber={pageIndex} 
@@ -472,6 +623,11 @@ const WorksheetPage: React.FC = () => {
         pageDescriptionForAI={pageDescriptionForAI}
         activeGuidance={worksheetData.meta.mode === 'auto' ? currentActiveGuidance : null}
       />
+      <OfflinePackButton
+        worksheetId={id}
+        worksheetData={worksheetData}
+        isTextModeActive={isTextModeActive}
+      />
     </div>
   );
 };
@@ -0,0 +1,31 @@
+export type UserRole = 'user' | 'admin';
+
+export interface Account {
+  id: string;
+  email: string;
+  full_name: string | null;
+  role: UserRole;
+  credits_remaining: number;
+  onboarding_completed: boolean;
+  plan_id?: string | null;
+  preferences?: Record<string, unknown> | null;
+  created_at: string;
+  updated_at?: string | null;
+}
+
+export interface StudentProfile {
+  id: string;
+  account_id: string;
+  profile_name: string;
+  avatar_url: string | null;
+  profile_color: string;
+  preferences: Record<string, unknown> | null;
+  created_at: string;
+  updated_at: string;
+  last_accessed_at: string | null;
+  is_active: boolean;
+}
+
+export type AccountUpdate = Partial<Pick<Account, 'full_name' | 'onboarding_completed' | 'preferences'>>;
+
+export type StudentProfileUpdate = Partial<Pick<StudentProfile, 'profile_name' | 'avatar_url' | 'profile_color' | 'preferences'>>;
@@ -0,0 +1,42 @@
+// A stretch of the tutor video, in seconds, that is played on a loop
+export interface TutorSegment {
+  start: number;
+  end: number;
+}
+
+export interface TutorSegments {
+  idle: TutorSegment;
+  talking: TutorSegment;
+}
+
+// Colors of a drawn avatar; unset ones use the defaults in TutorAvatar
+export interface TutorAvatarColors {
+  skin?: string;
+  hair?: string;
+  shirt?: string;
+  background?: string;
+}
+
+interface VirtualTutorBase {
+  id: string;
+  name: string;
+  thumbnailUrl: string;
+  // Name of the speech synthesis voice used for steps without narration files, when the browser has it
+  voice?: string;
+}
+
+// A recorded tutor that loops an idle and a talking segment of one video
+export interface VideoTutor extends VirtualTutorBase {
+  type: 'video';
+  videoUrl: string;
+  segments: TutorSegments;
+}
+
+// A drawn tutor whose mouth follows the loudness of the narration
+export interface AvatarTutor extends VirtualTutorBase {
+  type: 'avatar';
+  colors: TutorAvatarColors;
+}
+
+// One entry of public/video/tutors.json; entries without a `type` are video tutors
+export type VirtualTutor = VideoTutor | AvatarTutor;
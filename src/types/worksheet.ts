@@ -1,3 +1,45 @@
+export interface RegionPoint {
+  x: number;
+  y: number;
+}
+
+export interface RegionRectangle {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Exact outline of a region in PDF points, for questions that are not a single box
+export type RegionShape =
+  | { type: "polygon"; points: RegionPoint[] }
+  | { type: "rects"; rects: RegionRectangle[] };
+
+// How a student's answer to a region or guidance item is checked. `reviewStep` is the
+// description step (0-based) offered again after a wrong answer.
+export type AnswerKey = (
+  | { type: "exact"; answer: string; caseSensitive?: boolean }
+  | { type: "choice"; options: string[]; correct: number }
+  | { type: "numeric"; answer: number; tolerance?: number }
+  | { type: "regex"; pattern: string; flags?: string }
+) & { reviewStep?: number };
+
+// What get-worksheet-data sends students in place of an answer key: enough to ask for the answer,
+// while the answer stays on the server and the check-answer function checks it
+export type AnswerPrompt = (
+  | { type: "exact" | "numeric" | "regex" }
+  | { type: "choice"; options: string[] }
+) & { reviewStep?: number; serverChecked: true };
+
+// One step's narration from get-worksheet-data: a signed storage URL, and its length when known
+export interface AudioManifestEntry {
+  url: string;
+  durationSeconds: number | null;
+}
+
+// Narration per region name / guidance audioName; index 0 is step 1, null where a step has none
+export type AudioManifest = Record<string, (AudioManifestEntry | null)[]>;
+
 export interface RegionData {
   id: string;
   document_id: string;
@@ -11,12 +53,18 @@ export interface RegionData {
   name: string;
   description: string[];
   created_at: string;
+  // When set, x/y/width/height are the shape's bounding box
+  shape?: RegionShape | null;
+  // Type-specific target: a media URL for audio/video regions, a page or worksheet link for link regions
+  target?: string | null;
+  answerKey?: AnswerKey | AnswerPrompt | null;
 }
 
 export interface GuidanceItem {
   title: string;
   description: string[];
   audioName: string;
+  answerKey?: AnswerKey | AnswerPrompt | null;
 }
 
 export interface AutoModePageData {
@@ -41,4 +89,18 @@ export interface AutoModeMetadata {
   data: AutoModePageData[];
 }
 
-export type WorksheetMetadata = RegionsModeMetadata | AutoModeMetadata;
\ No newline at end of file
+export type WorksheetMetadata = RegionsModeMetadata | AutoModeMetadata;
+
+// A DRM-protected page as rendered by the render-protected-page function, since the PDF has it blanked
+export interface ProtectedPageTile {
+  regionId: string;
+  // PNG data URL of the region's bounding box at full resolution
+  image: string;
+}
+
+export interface ProtectedPageImages {
+  // PNG data URL of the whole page at too low a resolution to read
+  preview: string;
+  // Only the regions the student has unlocked
+  tiles: ProtectedPageTile[];
+}
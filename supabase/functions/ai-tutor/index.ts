@@ -0,0 +1,354 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// GEMINI_API_BASE_URL / GEMINI_UPLOAD_BASE_URL can point at a local mock model that speaks
+// the generateContent and files REST APIs, so the function can be exercised without a real key
+const GEMINI_API_BASE_URL = Deno.env.get('GEMINI_API_BASE_URL') || 'https://generativelanguage.googleapis.com/v1beta'
+const GEMINI_UPLOAD_BASE_URL = Deno.env.get('GEMINI_UPLOAD_BASE_URL') || 'https://generativelanguage.googleapis.com/upload/v1beta'
+const GEMINI_MODEL = Deno.env.get('GEMINI_MODEL') || 'gemini-2.5-flash'
+const CREDITS_PER_MESSAGE = parseInt(Deno.env.get('AI_TUTOR_CREDITS_PER_MESSAGE') || '1', 10)
+const HISTORY_TOKEN_BUDGET = parseInt(Deno.env.get('AI_TUTOR_HISTORY_TOKEN_BUDGET') || '8000', 10)
+
+interface ChatMessage {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+interface TutorContext {
+  mode?: 'auto' | 'regions'
+  pageDescription?: string
+  activeGuidance?: { title: string; description: string[] }
+  activeRegion?: { description: string[] }
+}
+
+type ModelPart = { text: string } | { file_data: { mime_type: string; file_uri: string } }
+
+interface ModelContent {
+  role: 'user' | 'model'
+  parts: ModelPart[]
+}
+
+interface ModelResult {
+  candidates?: { content?: { parts?: { text?: string }[] } }[]
+}
+
+class ModelRequestError extends Error {
+  status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.status = status
+  }
+}
+
+const jsonResponse = (body: unknown, status = 200) => new Response(
+  JSON.stringify(body),
+  {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  }
+)
+
+const buildWorksheetContext = (context: TutorContext = {}) => {
+  let worksheetContext = ''
+  if (context.mode === 'auto' && context.pageDescription) {
+    worksheetContext = `\n\nPage Context: ${context.pageDescription}`
+    if (context.activeGuidance) {
+      worksheetContext += `\n\nCurrent Guidance: ${context.activeGuidance.title}\nGuidance Content: ${context.activeGuidance.description.join(' ')}`
+    }
+  } else if (context.activeRegion?.description) {
+    worksheetContext = `\n\nRegion Context: ${context.activeRegion.description.join(' ')}`
+  }
+  return worksheetContext
+}
+
+const buildSystemInstruction = (context: TutorContext, earlierSummary: string) => `Act as a tutor. You must distinguish between two types of student questions:
+
+1. WORKSHEET QUESTIONS: Questions asking for direct answers to specific worksheet problems, exercises, or tasks shown in the image.
+   - For these questions: NEVER give the direct answer. Instead, provide hints, guide the student's thinking process, ask leading questions, or explain the underlying concepts that will help them solve it themselves.
+   - Examples: "What's the answer to question 3?", "Fill in the blank for me", "What should I write here?", "What's the correct word?"
+
+2. CONCEPTUAL QUESTIONS: Questions asking for understanding of general concepts, explanations, or clarification that are NOT asking for specific worksheet answers.
+   - For these questions: Provide clear, direct explanations and help the student understand the concept fully.
+   - Examples: "What is an adjective?", "How do I identify weather patterns?", "Can you explain what this concept means?", "Why does this work this way?"
+
+IMPORTANT: Always respond in the same language as the worksheet content and the user's question.
+${buildWorksheetContext(context)}${earlierSummary}
+
+Analyze the student's question carefully. If they're asking for a specific worksheet answer, guide them without giving the answer. If they're asking to understand a concept, explain it clearly and directly. Build on the hints you have already given instead of repeating them. Be encouraging and educational in both cases.`
+
+// Rough token estimate - close enough for budgeting without a tokenizer
+const estimateTokens = (text: string) => Math.ceil(text.length / 4)
+
+// Keep the newest turns that fit in the token budget. Older turns are condensed into a
+// short list of the student's earlier questions so the tutor still knows what was covered.
+const truncateHistory = (history: ChatMessage[]) => {
+  const kept: ChatMessage[] = []
+  let usedTokens = 0
+
+  for (let i = history.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(history[i].content)
+    if (usedTokens + cost > HISTORY_TOKEN_BUDGET) break
+    usedTokens += cost
+    kept.unshift(history[i])
+  }
+
+  const dropped = history.slice(0, history.length - kept.length)
+  const earlierQuestions = dropped
+    .filter(msg => msg.role === 'user')
+    .map(msg => msg.content.length > 120 ? `${msg.content.slice(0, 120)}...` : msg.content)
+
+  const earlierSummary = earlierQuestions.length > 0
+    ? `\n\nEarlier in this conversation the student asked:\n${earlierQuestions.map(q => `- ${q}`).join('\n')}`
+    : ''
+
+  return { kept, earlierSummary }
+}
+
+// Build alternating user/model turns with the page image attached to the first user turn
+const buildContents = (history: ChatMessage[], question: string, pageImageUri: string) => {
+  const turns: ModelContent[] = [
+    {
+      role: 'user',
+      parts: [
+        { text: 'This is the worksheet page we are working on.' },
+        { file_data: { mime_type: 'image/png', file_uri: pageImageUri } }
+      ]
+    },
+    ...history.map((msg): ModelContent => ({
+      role: msg.role === 'assistant' ? 'model' : 'user',
+      parts: [{ text: msg.content }]
+    })),
+    { role: 'user', parts: [{ text: question }] }
+  ]
+
+  // The model expects roles to alternate, so merge consecutive turns from the same side
+  return turns.reduce<ModelContent[]>((merged, turn) => {
+    const previous = merged[merged.length - 1]
+    if (previous && previous.role === turn.role) {
+      previous.parts.push(...turn.parts)
+    } else {
+      merged.push({ role: turn.role, parts: [...turn.parts] })
+    }
+    return merged
+  }, [])
+}
+
+// Upload the page image once so later messages in the session can refer to it by URI
+const uploadPageImage = async (pageImage: string) => {
+  // Accept either a data URL or raw base64 image data
+  const base64Data = pageImage.includes(',') ? pageImage.split(',')[1] : pageImage
+  const bytes = Uint8Array.from(atob(base64Data), char => char.charCodeAt(0))
+  const apiKey = Deno.env.get('GEMINI_API_KEY') || ''
+
+  const response = await fetch(
+    `${GEMINI_UPLOAD_BASE_URL}/files?uploadType=media&key=${encodeURIComponent(apiKey)}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'image/png' },
+      body: bytes
+    }
+  )
+
+  if (!response.ok) {
+    throw new ModelRequestError(`Image upload failed: ${await response.text()}`, response.status)
+  }
+
+  const { file } = await response.json()
+  return file.uri as string
+}
+
+const modelUrl = (method: 'generateContent' | 'streamGenerateContent', query = '') => {
+  const apiKey = Deno.env.get('GEMINI_API_KEY') || ''
+  return `${GEMINI_API_BASE_URL}/models/${GEMINI_MODEL}:${method}?key=${encodeURIComponent(apiKey)}${query}`
+}
+
+const requestModel = async (
+  method: 'generateContent' | 'streamGenerateContent',
+  systemInstruction: string,
+  contents: ModelContent[],
+  signal?: AbortSignal
+) => {
+  const response = await fetch(
+    modelUrl(method, method === 'streamGenerateContent' ? '&alt=sse' : ''),
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        system_instruction: { parts: [{ text: systemInstruction }] },
+        contents
+      }),
+      signal
+    }
+  )
+
+  if (!response.ok) {
+    throw new ModelRequestError(`Model request failed: ${await response.text()}`, response.status)
+  }
+
+  return response
+}
+
+const extractText = (result: ModelResult) => result.candidates?.[0]?.content?.parts
+  ?.map(part => part.text || '')
+  .join('') || ''
+
+// Yields text chunks from the model's server-sent events stream
+async function* readModelStream(response: Response) {
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += value
+    const events = buffer.split('\n\n')
+    buffer = events.pop() || ''
+
+    for (const event of events) {
+      const data = event.split('\n')
+        .filter(line => line.startsWith('data:'))
+        .map(line => line.slice(5).trim())
+        .join('')
+      if (!data) continue
+
+      const text = extractText(JSON.parse(data))
+      if (text) yield text
+    }
+  }
+}
+
+const sseEvent = (payload: unknown) => `data: ${JSON.stringify(payload)}\n\n`
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { question, pageImage, pageImageUri, history = [], context = {}, stream = false } = await req.json()
+
+    if (!question || (!pageImage && !pageImageUri)) {
+      return jsonResponse({ error: 'Question and page image are required' }, 400)
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseKey)
+
+    // Identify the calling account from its access token
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '')
+    const { data: { user }, error: userError } = token
+      ? await supabase.auth.getUser(token)
+      : { data: { user: null }, error: null }
+
+    if (userError || !user) {
+      return jsonResponse({ error: 'Authentication required' }, 401)
+    }
+
+    // Deduct credits up front so concurrent requests cannot overdraw the account
+    const { data: creditsRemaining, error: creditError } = await supabase
+      .rpc('deduct_account_credits', { account_id: user.id, amount: CREDITS_PER_MESSAGE })
+
+    if (creditError) {
+      console.error('Credit deduction error:', creditError)
+      return jsonResponse({ error: 'Failed to update credits' }, 500)
+    }
+
+    if (creditsRemaining === null) {
+      return jsonResponse({ error: 'Insufficient credits' }, 402)
+    }
+
+    const refundCredits = () => supabase.rpc('deduct_account_credits', { account_id: user.id, amount: -CREDITS_PER_MESSAGE })
+
+    const { kept, earlierSummary } = truncateHistory(history as ChatMessage[])
+    const systemInstruction = buildSystemInstruction(context, earlierSummary)
+    const abortController = new AbortController()
+
+    let imageUri: string
+    let modelResponse: Response
+    try {
+      imageUri = pageImage ? await uploadPageImage(pageImage) : pageImageUri
+      modelResponse = await requestModel(
+        stream ? 'streamGenerateContent' : 'generateContent',
+        systemInstruction,
+        buildContents(kept, question, imageUri),
+        abortController.signal
+      )
+    } catch (modelError) {
+      console.error('Model error:', modelError)
+
+      // Refund the credits for a reply the student never received
+      await refundCredits()
+
+      // A previously uploaded image may have expired - ask the client to send it again
+      if (!pageImage && modelError instanceof ModelRequestError && [400, 403, 404].includes(modelError.status)) {
+        return jsonResponse({ error: 'Page image expired' }, 410)
+      }
+
+      return jsonResponse({ error: 'Failed to get response from AI' }, 502)
+    }
+
+    if (stream) {
+      // Stream the reply as server-sent events: {text} chunks, then {done, creditsRemaining, pageImageUri}
+      const encoder = new TextEncoder()
+      let receivedText = false
+
+      const body = new ReadableStream({
+        async start(controller) {
+          try {
+            for await (const text of readModelStream(modelResponse)) {
+              receivedText = true
+              controller.enqueue(encoder.encode(sseEvent({ text })))
+            }
+            // A stream that ends without any text (e.g. blocked by safety filters) is not a reply
+            if (!receivedText) {
+              throw new Error('Model stream ended without text')
+            }
+            controller.enqueue(encoder.encode(sseEvent({ done: true, creditsRemaining, pageImageUri: imageUri })))
+          } catch (modelError) {
+            if (abortController.signal.aborted) return
+            console.error('Model stream error:', modelError)
+            if (!receivedText) {
+              await refundCredits()
+            }
+            controller.enqueue(encoder.encode(sseEvent({ error: 'Failed to get response from AI' })))
+          }
+          controller.close()
+        },
+        cancel() {
+          // The student pressed Stop - stop pulling from the model as well
+          abortController.abort()
+        }
+      })
+
+      return new Response(body, {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache'
+        }
+      })
+    }
+
+    const reply = extractText(await modelResponse.json())
+    if (!reply) {
+      await refundCredits()
+      return jsonResponse({ error: 'Failed to get response from AI' }, 502)
+    }
+
+    return jsonResponse({ reply, creditsRemaining, pageImageUri: imageUri })
+
+  } catch (error) {
+    console.error('Function error:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
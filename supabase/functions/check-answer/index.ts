@@ -0,0 +1,184 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const jsonResponse = (body: unknown, status = 200) => new Response(
+  JSON.stringify(body),
+  {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  }
+)
+
+interface AnswerKey {
+  type: 'exact' | 'choice' | 'numeric' | 'regex'
+  answer?: string | number
+  caseSensitive?: boolean
+  options?: string[]
+  correct?: number
+  tolerance?: number
+  pattern?: string
+  flags?: string
+}
+
+// The same rules as checkAnswer() in src/lib/answerKey.ts, which checks local worksheets
+const normalizeText = (value: string) => value.trim().replace(/\s+/g, ' ')
+
+const TOLERANCE_MARGIN = 1e-9
+
+const parseNumber = (value: string): number | null => {
+  const western = value
+    .trim()
+    .replace(/[٠-٩]/g, digit => String(digit.charCodeAt(0) - 0x0660))
+    .replace(/[۰-۹]/g, digit => String(digit.charCodeAt(0) - 0x06F0))
+    .replace(/[٫,]/g, '.')
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)$/.test(western)) return null
+  return parseFloat(western)
+}
+
+const checkAnswer = (key: AnswerKey, answer: string): boolean => {
+  switch (key.type) {
+    case 'exact': {
+      if (typeof key.answer !== 'string') return false
+      return key.caseSensitive
+        ? normalizeText(answer) === normalizeText(key.answer)
+        : normalizeText(answer).toLocaleLowerCase() === normalizeText(key.answer).toLocaleLowerCase()
+    }
+    case 'choice':
+      return Array.isArray(key.options) && typeof key.correct === 'number' && answer === key.options[key.correct]
+    case 'numeric': {
+      const value = parseNumber(answer)
+      return typeof key.answer === 'number' && value !== null &&
+        Math.abs(value - key.answer) <= Math.abs(key.tolerance ?? 0) + TOLERANCE_MARGIN
+    }
+    case 'regex':
+      try {
+        return typeof key.pattern === 'string' && new RegExp(key.pattern, key.flags).test(answer.trim())
+      } catch {
+        return false
+      }
+    default:
+      return false
+  }
+}
+
+// Region keys live on document_regions, guidance keys in the Auto Mode metadata by page and index
+const getAnswerKey = async (
+  supabase: ReturnType<typeof createClient>,
+  worksheetId: string,
+  pageNumber: number,
+  itemType: string,
+  itemKey: string
+): Promise<AnswerKey | null> => {
+  if (itemType === 'region') {
+    const { data: region } = await supabase
+      .from('document_regions')
+      .select('answer_key')
+      .eq('id', itemKey)
+      .eq('document_id', worksheetId)
+      .eq('page', pageNumber)
+      .maybeSingle()
+    return region?.answer_key ?? null
+  }
+
+  const { data: document } = await supabase
+    .from('documents')
+    .select('metadata')
+    .eq('id', worksheetId)
+    .maybeSingle()
+  const page = (document?.metadata?.data || []).find((pageData: { page_number: number }) => pageData.page_number === pageNumber)
+  return page?.guidance?.[Number(itemKey)]?.answerKey ?? null
+}
+
+// `{ worksheetId, pageNumber, itemType, itemKey, answer, studentProfileId? }` checks an answer to a
+// region or guidance item against its key, which students are never sent. With a student profile
+// the answer is stored as the profile's latest one, together with whether it was correct.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { worksheetId, pageNumber, itemType, itemKey, answer, studentProfileId } = await req.json()
+
+    if (!worksheetId || !Number.isInteger(pageNumber) || pageNumber < 1 ||
+      !['region', 'guidance'].includes(itemType) || !itemKey || typeof answer !== 'string' || !answer.trim()) {
+      return jsonResponse({ error: 'Worksheet, page, item and answer are required' }, 400)
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseKey)
+
+    const answerKey = await getAnswerKey(supabase, worksheetId, pageNumber, itemType, String(itemKey))
+    if (!answerKey) {
+      return jsonResponse({ error: 'Answer key not found' }, 404)
+    }
+
+    const isCorrect = checkAnswer(answerKey, answer)
+
+    // Guests can check answers, but only student profiles keep them
+    if (!studentProfileId) {
+      return jsonResponse({ isCorrect, attempts: null })
+    }
+
+    // Identify the calling account from its access token
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '')
+    const { data: { user } } = token
+      ? await supabase.auth.getUser(token)
+      : { data: { user: null } }
+
+    if (!user) {
+      return jsonResponse({ error: 'Authentication required' }, 401)
+    }
+
+    const { data: profile } = await supabase
+      .from('student_profiles')
+      .select('id')
+      .eq('id', studentProfileId)
+      .eq('account_id', user.id)
+      .maybeSingle()
+
+    if (!profile) {
+      return jsonResponse({ error: 'Student profile not found' }, 403)
+    }
+
+    const item = {
+      student_profile_id: studentProfileId,
+      worksheet_id: worksheetId,
+      page_number: pageNumber,
+      item_type: itemType,
+      item_key: String(itemKey)
+    }
+
+    const { data: previous } = await supabase
+      .from('worksheet_answers')
+      .select('attempts')
+      .match(item)
+      .maybeSingle()
+
+    const attempts = (previous?.attempts ?? 0) + 1
+    const { error: saveError } = await supabase
+      .from('worksheet_answers')
+      .upsert({ ...item, answer, is_correct: isCorrect, attempts }, {
+        onConflict: 'student_profile_id,worksheet_id,page_number,item_type,item_key'
+      })
+
+    if (saveError) {
+      console.error('Answer save error:', saveError)
+      return jsonResponse({ error: 'Failed to save answer' }, 500)
+    }
+
+    return jsonResponse({ isCorrect, attempts })
+
+  } catch (error) {
+    console.error('Function error:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
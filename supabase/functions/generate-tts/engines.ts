@@ -0,0 +1,105 @@
+export interface SynthesizedAudio {
+  audio: Uint8Array
+  contentType: string
+  durationSeconds: number | null
+}
+
+// A speech engine turns one description step into an audio file
+export interface TtsEngine {
+  name: string
+  synthesize(text: string, language: string): Promise<SynthesizedAudio>
+}
+
+// Arabic script is read as Arabic, everything else as English
+export const detectLanguage = (text: string) => /[؀-ۿݐ-ݿࢠ-ࣿ]/.test(text) ? 'ar' : 'en'
+
+export const getFileExtension = (contentType: string) => {
+  if (contentType.includes('mpeg')) return 'mp3'
+  if (contentType.includes('ogg')) return 'ogg'
+  if (contentType.includes('webm')) return 'webm'
+  return 'wav'
+}
+
+// Length of a PCM WAV file from its header, or null for anything else
+export const getWavDuration = (audio: Uint8Array): number | null => {
+  const header = new TextDecoder().decode(audio.subarray(0, 12))
+  if (audio.length < 44 || !header.startsWith('RIFF') || !header.endsWith('WAVE')) {
+    return null
+  }
+  const byteRate = new DataView(audio.buffer, audio.byteOffset, audio.byteLength).getUint32(28, true)
+  return byteRate > 0 ? (audio.length - 44) / byteRate : null
+}
+
+// Runs a local command that reads the text on stdin and writes audio to stdout.
+// TTS_COMMAND defaults to espeak-ng; `{language}` is replaced with `ar` or `en`.
+// Needs `--allow-run`, so it is meant for the local worker rather than the hosted function.
+class CommandTtsEngine implements TtsEngine {
+  name = 'command'
+  private command = (Deno.env.get('TTS_COMMAND') || 'espeak-ng --stdout -v {language}').split(/\s+/)
+  private contentType = Deno.env.get('TTS_COMMAND_CONTENT_TYPE') || 'audio/wav'
+
+  async synthesize(text: string, language: string): Promise<SynthesizedAudio> {
+    const [program, ...args] = this.command.map(part => part.replaceAll('{language}', language))
+    const process = new Deno.Command(program, { args, stdin: 'piped', stdout: 'piped', stderr: 'piped' }).spawn()
+
+    const writer = process.stdin.getWriter()
+    await writer.write(new TextEncoder().encode(text))
+    await writer.close()
+
+    const { code, stdout, stderr } = await process.output()
+    if (code !== 0) {
+      throw new Error(`${program} exited with code ${code}: ${new TextDecoder().decode(stderr).trim()}`)
+    }
+
+    return { audio: stdout, contentType: this.contentType, durationSeconds: getWavDuration(stdout) }
+  }
+}
+
+// Posts `{ text, language }` to TTS_HTTP_URL and stores whatever audio comes back.
+// The service may report the length in an `X-Audio-Duration` header (seconds).
+class HttpTtsEngine implements TtsEngine {
+  name = 'http'
+  private url = Deno.env.get('TTS_HTTP_URL')
+  private apiKey = Deno.env.get('TTS_HTTP_API_KEY')
+
+  async synthesize(text: string, language: string): Promise<SynthesizedAudio> {
+    if (!this.url) {
+      throw new Error('TTS_HTTP_URL is not set')
+    }
+
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {})
+      },
+      body: JSON.stringify({ text, language })
+    })
+
+    if (!response.ok) {
+      throw new Error(`TTS service returned ${response.status}: ${await response.text()}`)
+    }
+
+    const audio = new Uint8Array(await response.arrayBuffer())
+    const reportedDuration = parseFloat(response.headers.get('X-Audio-Duration') || '')
+    return {
+      audio,
+      contentType: response.headers.get('Content-Type') || 'audio/mpeg',
+      durationSeconds: Number.isFinite(reportedDuration) ? reportedDuration : getWavDuration(audio)
+    }
+  }
+}
+
+const TTS_ENGINES: Record<string, () => TtsEngine> = {
+  command: () => new CommandTtsEngine(),
+  http: () => new HttpTtsEngine(),
+}
+
+// TTS_ENGINE picks the engine; new engines only need an entry in TTS_ENGINES
+export const createTtsEngine = (name = Deno.env.get('TTS_ENGINE') || 'command'): TtsEngine => {
+  const createEngine = TTS_ENGINES[name]
+  if (!createEngine) {
+    throw new Error(`Unknown TTS engine: ${name}`)
+  }
+  return createEngine()
+}
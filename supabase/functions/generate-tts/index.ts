@@ -0,0 +1,105 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createTtsEngine } from './engines.ts'
+import { approveTtsRequest, processTtsRequest } from './pipeline.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const jsonResponse = (body: unknown, status = 200) => new Response(
+  JSON.stringify(body),
+  {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  }
+)
+
+// Admin-only: `{ action: 'generate', documentId }` creates a request and leaves it pending for worker.ts;
+// `{ action: 'approve', requestId }` publishes a generated request.
+// With `{ action: 'generate', documentId, queue: false }` the audio is generated within the call instead,
+// which needs TTS_ENGINE=http: the hosted function cannot run the command engine's programs.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { action, documentId, requestId, queue = true } = await req.json()
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseKey)
+
+    // Identify the calling account from its access token
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '')
+    const { data: { user }, error: userError } = token
+      ? await supabase.auth.getUser(token)
+      : { data: { user: null }, error: null }
+
+    if (userError || !user) {
+      return jsonResponse({ error: 'Authentication required' }, 401)
+    }
+
+    const { data: isAdmin, error: adminError } = await supabase.rpc('is_admin', { user_id: user.id })
+    if (adminError || !isAdmin) {
+      return jsonResponse({ error: 'Admin access required' }, 403)
+    }
+
+    if (action === 'approve') {
+      if (!requestId) {
+        return jsonResponse({ error: 'Request ID is required' }, 400)
+      }
+      await approveTtsRequest(supabase, requestId, user.id)
+      return jsonResponse({ requestId, status: 'approved' })
+    }
+
+    if (action !== 'generate') {
+      return jsonResponse({ error: `Unknown action: ${action}` }, 400)
+    }
+
+    if (!documentId) {
+      return jsonResponse({ error: 'Document ID is required' }, 400)
+    }
+
+    if (!queue && Deno.env.get('TTS_ENGINE') !== 'http') {
+      return jsonResponse({
+        error: 'Generating within the function needs TTS_ENGINE=http. Queue the request and run worker.ts instead.'
+      }, 400)
+    }
+
+    const { data: request, error: insertError } = await supabase
+      .from('tts_requests')
+      .insert({ document_id: documentId, user_id: user.id, status: 'pending' })
+      .select('id')
+      .single()
+
+    if (insertError) {
+      console.error('TTS request insert error:', insertError)
+      return jsonResponse({ error: 'Failed to create TTS request' }, 500)
+    }
+
+    if (queue) {
+      return jsonResponse({ requestId: request.id, status: 'pending' })
+    }
+
+    try {
+      const stepCount = await processTtsRequest(supabase, createTtsEngine('http'), request.id)
+      return jsonResponse({ requestId: request.id, status: 'generated', stepCount })
+    } catch (generationError) {
+      console.error('TTS generation error:', generationError)
+      return jsonResponse({
+        requestId: request.id,
+        status: 'failed',
+        error: generationError instanceof Error ? generationError.message : 'TTS generation failed'
+      }, 502)
+    }
+
+  } catch (error) {
+    console.error('Function error:', error)
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Internal server error' }, 500)
+  }
+})
@@ -0,0 +1,154 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { detectLanguage, getFileExtension, type TtsEngine } from './engines.ts'
+
+export const TTS_BUCKET = 'tts-audio'
+
+interface TtsStep {
+  audioName: string
+  stepNumber: number
+  text: string
+}
+
+interface DescribedItem {
+  name?: string
+  audioName?: string
+  description?: string[] | string
+}
+
+const toParagraphs = (description: DescribedItem['description']) =>
+  (Array.isArray(description) ? description : typeof description === 'string' ? description.split('\n') : [])
+    .map(step => typeof step === 'string' ? step.trim() : '')
+    .filter(step => step !== '')
+
+// Every description step of the document, named like the bundled `{audioName}_{step}.mp3` files
+const collectSteps = async (supabase: SupabaseClient, documentId: string): Promise<TtsStep[]> => {
+  const { data: document, error: documentError } = await supabase
+    .from('documents')
+    .select('metadata')
+    .eq('id', documentId)
+    .single()
+
+  if (documentError) {
+    throw new Error(`Document not found: ${documentError.message}`)
+  }
+
+  let items: { audioName: string, description: string[] }[]
+  if (document.metadata?.mode === 'auto') {
+    const pages: { guidance?: DescribedItem[] }[] = document.metadata.data || []
+    items = pages.flatMap(page => (page.guidance || []).map(guidance => ({
+      audioName: (guidance.audioName || '').trim(),
+      description: toParagraphs(guidance.description)
+    })))
+  } else {
+    const { data: regions, error: regionsError } = await supabase
+      .from('document_regions')
+      .select('name, description')
+      .eq('document_id', documentId)
+
+    if (regionsError) {
+      throw new Error(`Failed to fetch document regions: ${regionsError.message}`)
+    }
+
+    items = (regions as DescribedItem[] || []).map(region => ({
+      audioName: (region.name || '').trim(),
+      description: toParagraphs(region.description)
+    }))
+  }
+
+  return items
+    .filter(item => item.audioName !== '')
+    .flatMap(item => item.description.map((text, index) => ({ audioName: item.audioName, stepNumber: index + 1, text })))
+}
+
+// Generates and uploads every step for a pending request, leaving it `generated` or `failed`
+export const processTtsRequest = async (supabase: SupabaseClient, engine: TtsEngine, requestId: string) => {
+  const { data: request, error: requestError } = await supabase
+    .from('tts_requests')
+    .select('id, document_id, status')
+    .eq('id', requestId)
+    .single()
+
+  if (requestError || !request) {
+    throw new Error(`TTS request not found: ${requestId}`)
+  }
+  if (request.status !== 'pending') {
+    throw new Error(`TTS request ${requestId} is ${request.status}, not pending`)
+  }
+
+  try {
+    const steps = await collectSteps(supabase, request.document_id)
+    if (steps.length === 0) {
+      throw new Error('The document has no description steps to read')
+    }
+
+    for (const step of steps) {
+      const { audio, contentType, durationSeconds } = await engine.synthesize(step.text, detectLanguage(step.text))
+      const storagePath = `${request.document_id}/${request.id}/${step.audioName}_${step.stepNumber}.${getFileExtension(contentType)}`
+
+      const { error: uploadError } = await supabase.storage
+        .from(TTS_BUCKET)
+        .upload(storagePath, audio, { contentType, upsert: true })
+
+      if (uploadError) {
+        throw new Error(`Failed to upload ${storagePath}: ${uploadError.message}`)
+      }
+
+      const { error: fileError } = await supabase
+        .from('tts_audio_files')
+        .insert({
+          tts_request_id: request.id,
+          audio_name: step.audioName,
+          step_number: step.stepNumber,
+          storage_path: storagePath,
+          content_type: contentType,
+          duration_seconds: durationSeconds,
+          status: 'generated'
+        })
+
+      if (fileError) {
+        throw new Error(`Failed to record ${storagePath}: ${fileError.message}`)
+      }
+    }
+
+    await supabase
+      .from('tts_requests')
+      .update({ status: 'generated', engine: engine.name, generated_at: new Date().toISOString(), error_message: null })
+      .eq('id', request.id)
+
+    return steps.length
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    await supabase
+      .from('tts_requests')
+      .update({ status: 'failed', engine: engine.name, error_message: message })
+      .eq('id', request.id)
+    throw error
+  }
+}
+
+// Publishes a generated request; get-worksheet-data serves the most recently approved one
+export const approveTtsRequest = async (supabase: SupabaseClient, requestId: string, approvedBy: string) => {
+  const { data: request, error: requestError } = await supabase
+    .from('tts_requests')
+    .update({ status: 'approved', approved_at: new Date().toISOString(), approved_by: approvedBy })
+    .eq('id', requestId)
+    .eq('status', 'generated')
+    .select('id')
+    .maybeSingle()
+
+  if (requestError) {
+    throw new Error(`Failed to approve TTS request: ${requestError.message}`)
+  }
+  if (!request) {
+    throw new Error(`TTS request ${requestId} has not been generated`)
+  }
+
+  const { error: filesError } = await supabase
+    .from('tts_audio_files')
+    .update({ status: 'approved' })
+    .eq('tts_request_id', requestId)
+
+  if (filesError) {
+    throw new Error(`Failed to approve TTS audio files: ${filesError.message}`)
+  }
+}
@@ -0,0 +1,37 @@
+// Local worker for queued TTS requests, for machines where the TTS engine is a command-line program:
+//
+//   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... \
+//     deno run --allow-net --allow-env --allow-run supabase/functions/generate-tts/worker.ts
+//
+// Generates every pending request once with the engine named by TTS_ENGINE (default: command) and exits.
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createTtsEngine } from './engines.ts'
+import { processTtsRequest } from './pipeline.ts'
+
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!)
+const engine = createTtsEngine()
+
+const { data: requests, error } = await supabase
+  .from('tts_requests')
+  .select('id, document_id')
+  .eq('status', 'pending')
+  .not('document_id', 'is', null)
+  .order('created_at', { ascending: true })
+
+if (error) {
+  console.error('Failed to fetch pending TTS requests:', error.message)
+  Deno.exit(1)
+}
+
+let failures = 0
+for (const request of requests || []) {
+  try {
+    const stepCount = await processTtsRequest(supabase, engine, request.id)
+    console.log(`Generated ${stepCount} steps for ${request.document_id} (request ${request.id})`)
+  } catch (requestError) {
+    failures++
+    console.error(`Request ${request.id} failed:`, requestError instanceof Error ? requestError.message : requestError)
+  }
+}
+
+Deno.exit(failures > 0 ? 1 : 0)
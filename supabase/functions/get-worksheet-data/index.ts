@@ -1,11 +1,255 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { PDFDocument } from 'https://esm.sh/pdf-lib@1.17.1'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+interface ShapePoint {
+  x: number
+  y: number
+}
+
+// Bounding box of a polygon / multi-rectangle shape, or null when the shape is missing or malformed
+const getShapeBounds = (shape: { type?: string, points?: ShapePoint[], rects?: (ShapePoint & { width: number, height: number })[] } | null) => {
+  let points: ShapePoint[] = []
+  if (shape?.type === 'polygon' && Array.isArray(shape.points) && shape.points.length >= 3) {
+    points = shape.points
+  } else if (shape?.type === 'rects' && Array.isArray(shape.rects) && shape.rects.length > 0) {
+    points = shape.rects.flatMap(rect => [
+      { x: rect.x, y: rect.y },
+      { x: rect.x + rect.width, y: rect.y + rect.height }
+    ])
+  }
+  if (points.length === 0 || points.some(point => !Number.isFinite(point.x) || !Number.isFinite(point.y))) {
+    return null
+  }
+
+  const xs = points.map(point => point.x)
+  const ys = points.map(point => point.y)
+  const x = Math.min(...xs)
+  const y = Math.min(...ys)
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y }
+}
+
+interface AudioManifestEntry {
+  url: string
+  durationSeconds: number | null
+}
+
+type AudioManifest = Record<string, (AudioManifestEntry | null)[]>
+
+interface AudioSource {
+  audioName: string
+  stepNumber: number
+  bucket: string
+  path: string
+  durationSeconds: number | null
+}
+
+// Recorded narration uploaded as `audio/{documentId}/{audioName}_{step}.mp3`, the same names as public/audio,
+// with its length in the object's `durationSeconds` metadata when the uploader set it
+const listRecordedAudio = async (supabase: ReturnType<typeof createClient>, documentId: string): Promise<AudioSource[]> => {
+  const { data: files, error } = await supabase.rpc('list_recorded_audio', { document_id: documentId })
+
+  if (error || !files) {
+    return []
+  }
+
+  return (files as { file_name: string, duration_seconds: number | null }[]).flatMap(file => {
+    const match = file.file_name.match(/^(.+)_(\d+)\.(mp3|wav|ogg|webm)$/)
+    return match
+      ? [{
+        audioName: match[1],
+        stepNumber: parseInt(match[2], 10),
+        bucket: 'audio',
+        path: `${documentId}/${file.file_name}`,
+        durationSeconds: file.duration_seconds
+      }]
+      : []
+  })
+}
+
+// Generated narration from the most recently approved TTS request
+const listApprovedTtsAudio = async (supabase: ReturnType<typeof createClient>, documentId: string): Promise<AudioSource[]> => {
+  const { data: request } = await supabase
+    .from('tts_requests')
+    .select('id')
+    .eq('document_id', documentId)
+    .eq('status', 'approved')
+    .order('approved_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (!request) {
+    return []
+  }
+
+  const { data: files } = await supabase
+    .from('tts_audio_files')
+    .select('audio_name, step_number, storage_path, duration_seconds')
+    .eq('tts_request_id', request.id)
+    .eq('status', 'approved')
+
+  return (files || []).map(file => ({
+    audioName: file.audio_name,
+    stepNumber: file.step_number,
+    bucket: 'tts-audio',
+    path: file.storage_path,
+    durationSeconds: file.duration_seconds === null ? null : Number(file.duration_seconds)
+  }))
+}
+
+// Signed URL and duration per region name / guidance audioName and step (index 0 is step 1).
+// Recorded files win over generated ones for the same step.
+const getAudioManifest = async (supabase: ReturnType<typeof createClient>, documentId: string): Promise<AudioManifest> => {
+  const [recorded, generated] = await Promise.all([
+    listRecordedAudio(supabase, documentId),
+    listApprovedTtsAudio(supabase, documentId)
+  ])
+
+  const sources = new Map<string, AudioSource>()
+  ;[...generated, ...recorded].forEach(source => {
+    sources.set(`${source.audioName}_${source.stepNumber}`, source)
+  })
+
+  const manifest: AudioManifest = {}
+  const buckets = new Set(Array.from(sources.values()).map(source => source.bucket))
+
+  for (const bucket of buckets) {
+    const bucketSources = Array.from(sources.values()).filter(source => source.bucket === bucket)
+    const { data: signedUrls, error: signError } = await supabase.storage
+      .from(bucket)
+      .createSignedUrls(bucketSources.map(source => source.path), 86400) // 24 hours expiry
+
+    if (signError || !signedUrls) {
+      console.warn(`Could not sign ${bucket} files for worksheet: ${documentId}`, signError)
+      continue
+    }
+
+    bucketSources.forEach((source, index) => {
+      const url = signedUrls[index]?.signedUrl
+      if (!url || source.stepNumber < 1) return
+      const steps = manifest[source.audioName] || (manifest[source.audioName] = [])
+      while (steps.length < source.stepNumber - 1) steps.push(null)
+      steps[source.stepNumber - 1] = { url, durationSeconds: source.durationSeconds }
+    })
+  }
+
+  return manifest
+}
+
+const isPageProtected = (drmProtectedPages: number[] | boolean | null, pageNumber: number) =>
+  drmProtectedPages === true || (Array.isArray(drmProtectedPages) && drmProtectedPages.includes(pageNumber))
+
+const hasProtectedPages = (drmProtectedPages: number[] | boolean | null) =>
+  drmProtectedPages === true || (Array.isArray(drmProtectedPages) && drmProtectedPages.length > 0)
+
+const sha256 = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+// Copy of the PDF whose DRM-protected pages are blank pages of the same size, so the client never
+// receives their content; render-protected-page serves those pages as images instead.
+// Cached as `pdfs/redacted/{documentId}/{key}.pdf`, keyed by the source file and the protected pages.
+const getRedactedPdfPath = async (supabase: ReturnType<typeof createClient>, documentId: string, drmProtectedPages: number[] | boolean) => {
+  const { data: sourceFiles } = await supabase.storage
+    .from('pdfs')
+    .list('', { search: `${documentId}.pdf` })
+
+  const sourceFile = sourceFiles?.find(file => file.name === `${documentId}.pdf`)
+  if (!sourceFile) {
+    return null
+  }
+
+  const folder = `redacted/${documentId}`
+  const fileName = `${await sha256(JSON.stringify([sourceFile.updated_at, drmProtectedPages]))}.pdf`
+  const { data: redactedFiles } = await supabase.storage
+    .from('pdfs')
+    .list(folder)
+
+  if (redactedFiles?.some(file => file.name === fileName)) {
+    return `${folder}/${fileName}`
+  }
+
+  const { data: sourcePdf, error: downloadError } = await supabase.storage
+    .from('pdfs')
+    .download(`${documentId}.pdf`)
+
+  if (downloadError || !sourcePdf) {
+    return null
+  }
+
+  const source = await PDFDocument.load(await sourcePdf.arrayBuffer())
+  const redacted = await PDFDocument.create()
+  const pageIndices = source.getPageIndices()
+
+  // Only copied pages bring their content along, so protected pages are added as new blank ones
+  const copiedPages = await redacted.copyPages(source, pageIndices.filter(index => !isPageProtected(drmProtectedPages, index + 1)))
+  let copiedPageCount = 0
+  pageIndices.forEach(index => {
+    if (!isPageProtected(drmProtectedPages, index + 1)) {
+      redacted.addPage(copiedPages[copiedPageCount++])
+      return
+    }
+    const sourcePage = source.getPage(index)
+    const { x, y, width, height } = sourcePage.getCropBox()
+    const blankPage = redacted.addPage([width, height])
+    blankPage.setMediaBox(x, y, width, height)
+    blankPage.setRotation(sourcePage.getRotation())
+  })
+
+  const { error: uploadError } = await supabase.storage
+    .from('pdfs')
+    .upload(`${folder}/${fileName}`, await redacted.save(), { contentType: 'application/pdf', upsert: true })
+
+  if (uploadError) {
+    throw uploadError
+  }
+
+  // Copies made for an earlier file or set of protected pages are no longer used
+  const staleFiles = (redactedFiles || []).filter(file => file.name !== fileName)
+  if (staleFiles.length > 0) {
+    await supabase.storage
+      .from('pdfs')
+      .remove(staleFiles.map(file => `${folder}/${file.name}`))
+  }
+
+  return `${folder}/${fileName}`
+}
+
+// What students get in place of an answer key: how to ask for the answer, which check-answer checks
+const toAnswerPrompt = (answerKey: { type?: string, options?: unknown, reviewStep?: unknown } | null | undefined) => {
+  if (!answerKey || !['exact', 'choice', 'numeric', 'regex'].includes(answerKey.type ?? '')) {
+    return null
+  }
+  return {
+    type: answerKey.type,
+    ...(answerKey.type === 'choice' ? { options: answerKey.options } : {}),
+    ...(typeof answerKey.reviewStep === 'number' ? { reviewStep: answerKey.reviewStep } : {}),
+    serverChecked: true
+  }
+}
+
+// Whether the request carries the access token of an admin account; guests send the anon key instead
+const isAdminRequest = async (supabase: ReturnType<typeof createClient>, req: Request) => {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '')
+  if (!token) {
+    return false
+  }
+
+  const { data: { user } } = await supabase.auth.getUser(token)
+  if (!user) {
+    return false
+  }
+
+  const { data: isAdmin, error: adminError } = await supabase.rpc('is_admin', { user_id: user.id })
+  return !adminError && !!isAdmin
+}
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -48,14 +292,24 @@ serve(async (req) => {
       )
     }
 
-    // Get PDF URL from 'pdfs' storage bucket with 24 hour expiry
-    const { data: pdfData, error: storageError } = await supabase.storage
-      .from('pdfs')
-      .createSignedUrl(`${worksheetId}.pdf`, 86400) // 24 hours expiry
+    // Admins author regions, guidance and answer keys, so they get the worksheet as it is stored
+    const isAdmin = await isAdminRequest(supabase, req)
 
+    // Worksheets with DRM-protected pages are served to everyone else without them
+    const pdfPath = hasProtectedPages(document.drm_protected_pages) && !isAdmin
+      ? await getRedactedPdfPath(supabase, document.id, document.drm_protected_pages)
+      : `${worksheetId}.pdf`
+
+    // Get PDF URL from 'pdfs' storage bucket with 24 hour expiry
     let pdfUrl = null
-    if (pdfData?.signedUrl && !storageError) {
-      pdfUrl = pdfData.signedUrl
+    if (pdfPath) {
+      const { data: pdfData, error: storageError } = await supabase.storage
+        .from('pdfs')
+        .createSignedUrl(pdfPath, 86400) // 24 hours expiry
+
+      if (pdfData?.signedUrl && !storageError) {
+        pdfUrl = pdfData.signedUrl
+      }
     }
 
     // If no signed URL could be generated, pdfUrl remains null
@@ -82,6 +336,7 @@ serve(async (req) => {
         ...pageData,
         guidance: pageData.guidance ? pageData.guidance.map(guidanceItem => ({
           ...guidanceItem,
+          answerKey: isAdmin ? guidanceItem.answerKey ?? null : toAnswerPrompt(guidanceItem.answerKey),
           description: Array.isArray(guidanceItem.description) 
             ? guidanceItem.description.map(desc => typeof desc === 'string' ? desc.trim() : '').filter(desc => desc !== '')
             : typeof guidanceItem.description === 'string' 
@@ -120,20 +375,27 @@ serve(async (req) => {
       }
 
       // Transform regions data to match expected format
-      const transformedRegions = regions?.map(region => ({
-        id: region.id,
-        document_id: document.id,
-        user_id: region.user_id,
-        page: region.page,
-        x: region.x,
-        y: region.y,
-        width: region.width,
-        height: region.height,
-        type: region.type,
-        name: region.name,
-        description: region.description || [],
-        created_at: region.created_at
-      })) || []
+      const transformedRegions = regions?.map(region => {
+        // Shaped regions report the shape's bounding box as their x/y/width/height
+        const shapeBounds = getShapeBounds(region.shape)
+        return {
+          id: region.id,
+          document_id: document.id,
+          user_id: region.user_id,
+          page: region.page,
+          x: shapeBounds?.x ?? region.x,
+          y: shapeBounds?.y ?? region.y,
+          width: shapeBounds?.width ?? region.width,
+          height: shapeBounds?.height ?? region.height,
+          type: region.type,
+          name: region.name,
+          description: region.description || [],
+          created_at: region.created_at,
+          shape: shapeBounds ? region.shape : null,
+          target: region.target ?? null,
+          answerKey: isAdmin ? region.answer_key ?? null : toAnswerPrompt(region.answer_key)
+        }
+      }) || []
 
       responseData = {
         meta: {
@@ -147,6 +409,9 @@ serve(async (req) => {
       }
     }
 
+    // Narration for every step that has a recorded or approved generated file
+    responseData.audioManifest = await getAudioManifest(supabase, document.id)
+
     return new Response(
       JSON.stringify(responseData),
       { 
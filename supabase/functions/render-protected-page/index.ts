@@ -0,0 +1,265 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import * as mupdf from 'npm:mupdf@1.3.0'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const jsonResponse = (body: unknown, status = 200) => new Response(
+  JSON.stringify(body),
+  {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+  }
+)
+
+// About 11 dpi: enough to show the layout of the page, too coarse to read it
+const PREVIEW_SCALE = 0.15
+
+// Tiles stay sharp up to the viewer's largest zoom, unless that would make them too big to send
+const TILE_SCALE = 4
+const MAX_TILE_PIXELS = 2400 * 2400
+
+// In PDF points, so the preview and the tiles of a page share one diagonal pattern
+const WATERMARK_FONT_SIZE = 14
+const WATERMARK_ANGLE = -30
+const WATERMARK_COLOR = [0.47, 0.47, 0.47]
+const WATERMARK_ALPHA = 0.18
+
+interface ShapePoint {
+  x: number
+  y: number
+}
+
+interface Bounds {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+// Same bounds as get-worksheet-data reports for the region, so the tile lines up with it on the page
+const getShapeBounds = (shape: { type?: string, points?: ShapePoint[], rects?: (ShapePoint & { width: number, height: number })[] } | null): Bounds | null => {
+  let points: ShapePoint[] = []
+  if (shape?.type === 'polygon' && Array.isArray(shape.points) && shape.points.length >= 3) {
+    points = shape.points
+  } else if (shape?.type === 'rects' && Array.isArray(shape.rects) && shape.rects.length > 0) {
+    points = shape.rects.flatMap(rect => [
+      { x: rect.x, y: rect.y },
+      { x: rect.x + rect.width, y: rect.y + rect.height }
+    ])
+  }
+  if (points.length === 0 || points.some(point => !Number.isFinite(point.x) || !Number.isFinite(point.y))) {
+    return null
+  }
+
+  const xs = points.map(point => point.x)
+  const ys = points.map(point => point.y)
+  const x = Math.min(...xs)
+  const y = Math.min(...ys)
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y }
+}
+
+const isPageProtected = (drmProtectedPages: number[] | boolean | null, pageNumber: number) =>
+  drmProtectedPages === true || (Array.isArray(drmProtectedPages) && drmProtectedPages.includes(pageNumber))
+
+// "Student 1 · parent@example.com · 2025-09-10 14:03 UTC", the format of the app's own watermark
+const getWatermarkText = (studentName: string | null, email: string | null, date = new Date()) =>
+  [studentName, email, `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`]
+    .filter(Boolean)
+    .join(' · ')
+
+// Tiles the text diagonally across the whole page, drawn into the image with the page content
+const drawWatermark = (device: mupdf.Device, page: mupdf.Page, scale: number, text: string) => {
+  const [x0, y0, x1, y1] = page.getBounds()
+  const diagonal = Math.hypot(x1 - x0, y1 - y0)
+  const font = new mupdf.Font('Helvetica')
+  const watermark = new mupdf.Text()
+
+  // Helvetica averages about half an em per character
+  const stepX = text.length * WATERMARK_FONT_SIZE * 0.5 + WATERMARK_FONT_SIZE * 3
+  const stepY = WATERMARK_FONT_SIZE * 5
+  let row = 0
+  for (let y = -diagonal / 2; y < diagonal / 2; y += stepY) {
+    // Every other row is shifted by half a step, so no column of the page is left clear
+    const offset = row++ % 2 === 0 ? 0 : stepX / 2
+    for (let x = -diagonal / 2 - offset; x < diagonal / 2; x += stepX) {
+      // Glyphs are drawn y-up, the page is y-down
+      watermark.showString(font, [WATERMARK_FONT_SIZE, 0, 0, -WATERMARK_FONT_SIZE, x, y], text)
+    }
+  }
+
+  // Rotate the pattern around the page's centre, then scale it with the page
+  const ctm = mupdf.Matrix.concat(
+    mupdf.Matrix.concat(mupdf.Matrix.rotate(WATERMARK_ANGLE), mupdf.Matrix.translate((x0 + x1) / 2, (y0 + y1) / 2)),
+    mupdf.Matrix.scale(scale, scale)
+  )
+  device.fillText(watermark, ctm, mupdf.ColorSpace.DeviceRGB, WATERMARK_COLOR, WATERMARK_ALPHA)
+}
+
+// Draws the given rectangle of the page, in PDF points from the top-left corner, with the watermark over it
+const renderArea = (page: mupdf.Page, { x, y, width, height }: Bounds, scale: number, watermarkText: string) => {
+  const pixmap = new mupdf.Pixmap(mupdf.ColorSpace.DeviceRGB, [
+    Math.floor(x * scale),
+    Math.floor(y * scale),
+    Math.ceil((x + width) * scale),
+    Math.ceil((y + height) * scale)
+  ], false)
+  try {
+    pixmap.clear(255)
+    const device = new mupdf.DrawDevice(mupdf.Matrix.scale(scale, scale), pixmap)
+    page.run(device, mupdf.Matrix.identity)
+    drawWatermark(device, page, scale, watermarkText)
+    device.close()
+    return `data:image/png;base64,${encodeBase64(pixmap.asPNG())}`
+  } finally {
+    pixmap.destroy()
+  }
+}
+
+const renderPreview = (page: mupdf.Page, watermarkText: string) => {
+  const [x0, y0, x1, y1] = page.getBounds()
+  return renderArea(page, { x: x0, y: y0, width: x1 - x0, height: y1 - y0 }, PREVIEW_SCALE, watermarkText)
+}
+
+const renderTile = (page: mupdf.Page, bounds: Bounds, watermarkText: string) => {
+  const scale = Math.min(TILE_SCALE, Math.sqrt(MAX_TILE_PIXELS / Math.max(1, bounds.width * bounds.height)))
+  return renderArea(page, bounds, scale, watermarkText)
+}
+
+// `{ worksheetId, pageNumber, studentProfileId? }` returns a DRM-protected page as images, since the
+// PDF the client gets has those pages blanked: a low-resolution `preview` of the whole page, and
+// full-resolution `tiles` of the regions the student profile has unlocked by opening them.
+// Without a student profile only the preview is returned. Both carry a watermark with the student's
+// name, the account email and the time, so leaked screenshots can be traced.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { worksheetId, pageNumber, studentProfileId } = await req.json()
+
+    if (!worksheetId || !Number.isInteger(pageNumber) || pageNumber < 1) {
+      return jsonResponse({ error: 'Worksheet ID and page number are required' }, 400)
+    }
+
+    // Initialize Supabase client
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+    const supabase = createClient(supabaseUrl, supabaseKey)
+
+    const { data: document, error: documentError } = await supabase
+      .from('documents')
+      .select('id, drm_protected_pages')
+      .eq('id', worksheetId)
+      .single()
+
+    if (documentError || !document) {
+      return jsonResponse({ error: 'Document not found' }, 404)
+    }
+
+    // Unprotected pages are in the PDF the client already has
+    if (!isPageProtected(document.drm_protected_pages, pageNumber)) {
+      return jsonResponse({ error: 'Page is not protected' }, 400)
+    }
+
+    // Identify the calling account from its access token; guests are sent the anon key instead
+    const token = req.headers.get('Authorization')?.replace('Bearer ', '')
+    const { data: { user } } = token
+      ? await supabase.auth.getUser(token)
+      : { data: { user: null } }
+
+    let unlockedRegions: { id: string, bounds: Bounds }[] = []
+    let studentName: string | null = null
+
+    if (studentProfileId) {
+      if (!user) {
+        return jsonResponse({ error: 'Authentication required' }, 401)
+      }
+
+      const { data: profile } = await supabase
+        .from('student_profiles')
+        .select('id, profile_name')
+        .eq('id', studentProfileId)
+        .eq('account_id', user.id)
+        .maybeSingle()
+
+      if (!profile) {
+        return jsonResponse({ error: 'Student profile not found' }, 403)
+      }
+      studentName = profile.profile_name
+
+      // A region is unlocked once the student has opened it, which the unlock_region RPC records.
+      // Clients cannot write region_unlocks directly, but can still call the RPC for any region,
+      // so this deters copying rather than preventing it.
+      const [{ data: unlocks, error: unlocksError }, { data: regions, error: regionsError }] = await Promise.all([
+        supabase
+          .from('region_unlocks')
+          .select('region_id')
+          .eq('student_profile_id', studentProfileId)
+          .eq('worksheet_id', worksheetId)
+          .eq('page_number', pageNumber),
+        supabase
+          .from('document_regions')
+          .select('id, x, y, width, height, shape')
+          .eq('document_id', worksheetId)
+          .eq('page', pageNumber)
+      ])
+
+      if (unlocksError || regionsError) {
+        console.error('Unlocked regions fetch error:', unlocksError || regionsError)
+        return jsonResponse({ error: 'Failed to fetch unlocked regions' }, 500)
+      }
+
+      const openedRegionIds = new Set((unlocks || []).map(row => row.region_id))
+      unlockedRegions = (regions || [])
+        .filter(region => openedRegionIds.has(String(region.id)))
+        .map(region => ({
+          id: String(region.id),
+          bounds: getShapeBounds(region.shape) ?? { x: region.x, y: region.y, width: region.width, height: region.height }
+        }))
+        .filter(({ bounds }) => bounds.width > 0 && bounds.height > 0)
+    }
+
+    const { data: pdfFile, error: storageError } = await supabase.storage
+      .from('pdfs')
+      .download(`${worksheetId}.pdf`)
+
+    if (storageError || !pdfFile) {
+      console.warn(`PDF file not found in storage for worksheet: ${worksheetId}`)
+      return jsonResponse({ error: 'PDF file not found' }, 404)
+    }
+
+    const pdf = mupdf.Document.openDocument(new Uint8Array(await pdfFile.arrayBuffer()), 'application/pdf')
+    try {
+      if (pageNumber > pdf.countPages()) {
+        return jsonResponse({ error: 'Page not found' }, 404)
+      }
+
+      const page = pdf.loadPage(pageNumber - 1)
+      const watermarkText = getWatermarkText(studentName, user?.email ?? null)
+      try {
+        return jsonResponse({
+          preview: renderPreview(page, watermarkText),
+          tiles: unlockedRegions.map(region => ({
+            regionId: region.id,
+            image: renderTile(page, region.bounds, watermarkText)
+          }))
+        })
+      } finally {
+        page.destroy()
+      }
+    } finally {
+      pdf.destroy()
+    }
+
+  } catch (error) {
+    console.error('Function error:', error)
+    return jsonResponse({ error: 'Internal server error' }, 500)
+  }
+})
@@ -0,0 +1,54 @@
+/*
+  # Add worksheet progress tracking per student profile
+
+  1. New Tables
+    - `worksheet_progress` - The step each student profile has reached for every
+      region (regions mode) or guidance item (auto mode) of a worksheet page
+      - `item_type` is 'region' or 'guidance'
+      - `item_key` is the region id or the guidance index on the page
+      - One row per (student_profile_id, worksheet_id, page_number, item_type, item_key)
+
+  2. Security
+    - Enable RLS on `worksheet_progress`
+    - Student profile owners can manage the progress of their own profiles
+    - Admins can view all progress
+
+  3. Triggers
+    - Keep `updated_at` current on every update
+*/
+
+CREATE TABLE IF NOT EXISTS public.worksheet_progress (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    student_profile_id UUID NOT NULL REFERENCES public.student_profiles(id) ON DELETE CASCADE,
+    worksheet_id TEXT NOT NULL,
+    page_number INTEGER NOT NULL CHECK (page_number > 0),
+    item_type TEXT NOT NULL CHECK (item_type IN ('region', 'guidance')),
+    item_key TEXT NOT NULL,
+    current_step_index INTEGER NOT NULL DEFAULT 0 CHECK (current_step_index >= 0),
+    total_steps INTEGER CHECK (total_steps IS NULL OR total_steps >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+    CONSTRAINT unique_worksheet_progress_item UNIQUE (student_profile_id, worksheet_id, page_number, item_type, item_key)
+);
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_worksheet_progress_page
+    ON public.worksheet_progress (student_profile_id, worksheet_id, page_number);
+
+-- Enable RLS and create policies
+ALTER TABLE public.worksheet_progress ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Student profile owners can manage their own worksheet progress"
+ON public.worksheet_progress FOR ALL
+USING (is_student_profile_owner(student_profile_id))
+WITH CHECK (is_student_profile_owner(student_profile_id));
+
+CREATE POLICY "Admins can view all worksheet progress"
+ON public.worksheet_progress FOR SELECT
+USING (is_admin(auth.uid()));
+
+-- Keep updated_at current
+CREATE TRIGGER update_worksheet_progress_updated_at
+    BEFORE UPDATE ON public.worksheet_progress
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,34 @@
+/*
+  # Add credit deduction for the AI tutor
+
+  1. New Functions
+    - `deduct_account_credits(account_id, amount)` - Atomically subtracts `amount`
+      from `accounts.credits_remaining` and returns the new balance
+      - Returns NULL (and changes nothing) when the account does not have enough credits
+      - A negative `amount` refunds credits, e.g. when the model call fails
+
+  2. Security
+    - Only the service role (used by the `ai-tutor` edge function) may execute it,
+      so students cannot change their own balance from the client
+*/
+
+CREATE OR REPLACE FUNCTION public.deduct_account_credits(account_id uuid, amount integer DEFAULT 1)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    new_balance INTEGER;
+BEGIN
+    UPDATE public.accounts
+    SET credits_remaining = credits_remaining - amount
+    WHERE id = account_id
+    AND credits_remaining >= amount
+    RETURNING credits_remaining INTO new_balance;
+
+    RETURN new_balance;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.deduct_account_credits(uuid, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.deduct_account_credits(uuid, integer) TO service_role;
@@ -0,0 +1,17 @@
+/*
+  # Let admins author document regions
+
+  1. Security
+    - Admins can view all documents, so the authoring tool can list them
+    - Admins can create, update and delete regions on any document
+      - New regions keep the owning document's `user_id` and `student_profile_id`
+*/
+
+CREATE POLICY "Admins can view all documents"
+ON public.documents FOR SELECT
+USING (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can manage all document regions"
+ON public.document_regions FOR ALL
+USING (is_admin(auth.uid()))
+WITH CHECK (is_admin(auth.uid()));
@@ -0,0 +1,12 @@
+/*
+  # Let admins author Auto Mode guidance
+
+  1. Security
+    - Admins can update any document, so the guidance editor can save
+      `metadata.data` back to the document
+*/
+
+CREATE POLICY "Admins can update all documents"
+ON public.documents FOR UPDATE
+USING (is_admin(auth.uid()))
+WITH CHECK (is_admin(auth.uid()));
@@ -0,0 +1,12 @@
+/*
+  # Add exact shapes to document regions
+
+  1. Changes
+    - `document_regions.shape` (jsonb, nullable) - optional exact outline in PDF points
+      - `{ "type": "polygon", "points": [{ "x", "y" }, ...] }` for L-shaped or slanted areas
+      - `{ "type": "rects", "rects": [{ "x", "y", "width", "height" }, ...] }` for areas spanning columns
+      - `x`, `y`, `width` and `height` stay the shape's bounding box
+*/
+
+ALTER TABLE public.document_regions
+ADD COLUMN IF NOT EXISTS shape jsonb;
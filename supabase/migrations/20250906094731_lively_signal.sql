@@ -0,0 +1,13 @@
+/*
+  # Add typed region targets
+
+  1. Changes
+    - `document_regions.target` (text, nullable) - what a region's `type` acts on
+      - `audio` / `video`: URL of the clip (defaults to `/audio/{document}/{name}_1.mp3`
+        and `/video/{document}/{name}.mp4`)
+      - `link`: a page number in the same worksheet, or a worksheet code or `/w/...` link
+      - `area` and `hint` regions do not use it
+*/
+
+ALTER TABLE public.document_regions
+ADD COLUMN IF NOT EXISTS target text;
@@ -0,0 +1,65 @@
+/*
+  # Add answer keys and per-student answers
+
+  1. Changes
+    - `document_regions.answer_key` (jsonb, nullable) - how a region's answer is checked
+      - `{ "type": "exact", "answer": "...", "caseSensitive": false }`
+      - `{ "type": "choice", "options": ["..."], "correct": 0 }`
+      - `{ "type": "numeric", "answer": 12.5, "tolerance": 0.1 }`
+      - `{ "type": "regex", "pattern": "...", "flags": "i" }`
+      - Optional `reviewStep` - the description step to re-offer after a wrong answer
+    - Auto Mode guidance items carry the same object as `answerKey` in `documents.metadata`
+
+  2. New Tables
+    - `worksheet_answers` - Each student profile's latest answer to a region or guidance item
+      - `item_type` / `item_key` match `worksheet_progress`
+      - `attempts` counts every checked answer, `is_correct` reflects the latest one
+
+  3. Security
+    - Enable RLS on `worksheet_answers`
+    - Student profile owners can manage the answers of their own profiles
+    - Admins can view all answers
+
+  4. Triggers
+    - Keep `updated_at` current on every update
+*/
+
+ALTER TABLE public.document_regions
+ADD COLUMN IF NOT EXISTS answer_key jsonb;
+
+CREATE TABLE IF NOT EXISTS public.worksheet_answers (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    student_profile_id UUID NOT NULL REFERENCES public.student_profiles(id) ON DELETE CASCADE,
+    worksheet_id TEXT NOT NULL,
+    page_number INTEGER NOT NULL CHECK (page_number > 0),
+    item_type TEXT NOT NULL CHECK (item_type IN ('region', 'guidance')),
+    item_key TEXT NOT NULL,
+    answer TEXT NOT NULL,
+    is_correct BOOLEAN NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 1 CHECK (attempts > 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+    CONSTRAINT unique_worksheet_answer_item UNIQUE (student_profile_id, worksheet_id, page_number, item_type, item_key)
+);
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_worksheet_answers_page
+    ON public.worksheet_answers (student_profile_id, worksheet_id, page_number);
+
+-- Enable RLS and create policies
+ALTER TABLE public.worksheet_answers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Student profile owners can manage their own worksheet answers"
+ON public.worksheet_answers FOR ALL
+USING (is_student_profile_owner(student_profile_id))
+WITH CHECK (is_student_profile_owner(student_profile_id));
+
+CREATE POLICY "Admins can view all worksheet answers"
+ON public.worksheet_answers FOR SELECT
+USING (is_admin(auth.uid()));
+
+-- Keep updated_at current
+CREATE TRIGGER update_worksheet_answers_updated_at
+    BEFORE UPDATE ON public.worksheet_answers
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,113 @@
+/*
+  # Server-side TTS generation pipeline
+
+  1. Changes
+    - `tts_requests` - One generation run for a document
+      - `document_id` (text) - the document whose region descriptions or guidance steps are read
+      - `status` - `pending` -> `generated` -> `approved`, or `failed` with `error_message`
+      - `engine` - name of the TTS engine that produced the audio
+      - `generated_at`, `approved_at`, `approved_by`, `updated_at`
+    - `tts_audio_files` - One audio file per description step
+      - `audio_name` / `step_number` - the region name or guidance `audioName`, and the 1-based step,
+        matching the `{audioName}_{step}.mp3` files under `public/audio/`
+      - `storage_path`, `content_type`, `duration_seconds`
+      - `status` - `generated` until the request is approved, then `approved`
+    - Both tables are created when missing, so fresh projects get the base columns too
+
+  2. Storage
+    - Private `tts-audio` bucket holding `{document}/{request}/{audioName}_{step}.{ext}`
+    - Only the service role reads and writes it; students get signed URLs from `get-worksheet-data`
+
+  3. Security
+    - Admins can manage all TTS requests and audio files
+    - Existing student profile policies are unchanged
+*/
+
+CREATE TABLE IF NOT EXISTS public.tts_requests (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    student_profile_id UUID REFERENCES public.student_profiles(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.tts_requests
+ADD COLUMN IF NOT EXISTS document_id text,
+ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'pending',
+ADD COLUMN IF NOT EXISTS engine text,
+ADD COLUMN IF NOT EXISTS error_message text,
+ADD COLUMN IF NOT EXISTS generated_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS approved_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS approved_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL;
+
+CREATE TABLE IF NOT EXISTS public.tts_audio_files (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    tts_request_id UUID NOT NULL REFERENCES public.tts_requests(id) ON DELETE CASCADE,
+    status text NOT NULL DEFAULT 'generated',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+ALTER TABLE public.tts_audio_files
+ADD COLUMN IF NOT EXISTS audio_name text,
+ADD COLUMN IF NOT EXISTS step_number integer,
+ADD COLUMN IF NOT EXISTS storage_path text,
+ADD COLUMN IF NOT EXISTS content_type text,
+ADD COLUMN IF NOT EXISTS duration_seconds numeric;
+
+-- Existing rows predate the pipeline, so the status checks only apply to new writes
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'tts_requests_pipeline_status_check') THEN
+    ALTER TABLE public.tts_requests
+    ADD CONSTRAINT tts_requests_pipeline_status_check
+    CHECK (status IN ('pending', 'generated', 'approved', 'failed')) NOT VALID;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'tts_audio_files_pipeline_status_check') THEN
+    ALTER TABLE public.tts_audio_files
+    ADD CONSTRAINT tts_audio_files_pipeline_status_check
+    CHECK (status IN ('generated', 'approved')) NOT VALID;
+  END IF;
+END $$;
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_tts_requests_document_status
+    ON public.tts_requests (document_id, status);
+
+CREATE INDEX IF NOT EXISTS idx_tts_audio_files_request
+    ON public.tts_audio_files (tts_request_id);
+
+-- Enable RLS and create policies
+ALTER TABLE public.tts_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tts_audio_files ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage all TTS requests"
+ON public.tts_requests FOR ALL
+USING (is_admin(auth.uid()))
+WITH CHECK (is_admin(auth.uid()));
+
+CREATE POLICY "Admins can manage all tts_audio_files"
+ON public.tts_audio_files FOR ALL
+USING (is_admin(auth.uid()))
+WITH CHECK (is_admin(auth.uid()));
+
+-- Keep updated_at current
+CREATE TRIGGER update_tts_requests_updated_at
+    BEFORE UPDATE ON public.tts_requests
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Create the tts-audio storage bucket
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'tts-audio',
+  'tts-audio',
+  false,
+  10485760, -- 10MB limit per step
+  ARRAY['audio/mpeg', 'audio/wav', 'audio/x-wav', 'audio/ogg', 'audio/webm']
+) ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Service role can manage TTS audio"
+ON storage.objects
+FOR ALL
+TO service_role
+USING (bucket_id = 'tts-audio');
@@ -0,0 +1,35 @@
+/*
+  # Store recorded narration in Supabase storage
+
+  1. Storage
+    - Private `audio` bucket for recorded narration of Supabase-backed documents
+      - `{documentId}/{audioName}_{step}.mp3`, the same names as `public/audio/{ID}/`
+    - `get-worksheet-data` returns signed URLs for these files (and approved TTS audio)
+      in its `audioManifest`, so students never read the bucket directly
+
+  2. Security
+    - The service role can manage all narration files
+    - Admins can upload and manage narration files
+*/
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'audio',
+  'audio',
+  false,
+  10485760, -- 10MB limit per step
+  ARRAY['audio/mpeg', 'audio/wav', 'audio/x-wav', 'audio/ogg', 'audio/webm']
+) ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Service role can manage narration audio"
+ON storage.objects
+FOR ALL
+TO service_role
+USING (bucket_id = 'audio');
+
+CREATE POLICY "Admins can manage narration audio"
+ON storage.objects
+FOR ALL
+TO authenticated
+USING (bucket_id = 'audio' AND is_admin(auth.uid()))
+WITH CHECK (bucket_id = 'audio' AND is_admin(auth.uid()));
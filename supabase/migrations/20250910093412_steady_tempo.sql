@@ -0,0 +1,35 @@
+/*
+  # List recorded narration with its duration
+
+  1. New Functions
+    - `list_recorded_audio(document_id)` - Returns the recorded narration files of a document
+      in the `audio` bucket, with the `durationSeconds` each was uploaded with
+      - Uploaders record the length in the object's metadata, e.g.
+        `upload(path, file, { metadata: { durationSeconds: 3.2 } })`
+      - `duration_seconds` is NULL for files uploaded without it
+    - `get-worksheet-data` reports these durations in its `audioManifest`
+
+  2. Security
+    - Only the service role (used by the `get-worksheet-data` edge function) may execute it
+*/
+
+CREATE OR REPLACE FUNCTION public.list_recorded_audio(document_id text)
+RETURNS TABLE (file_name text, duration_seconds double precision)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+    SELECT
+        substring(objects.name FROM length(document_id) + 2),
+        CASE
+            WHEN objects.user_metadata->>'durationSeconds' ~ '^[0-9]+(\.[0-9]+)?$'
+            THEN (objects.user_metadata->>'durationSeconds')::double precision
+        END
+    FROM storage.objects
+    WHERE objects.bucket_id = 'audio'
+    AND starts_with(objects.name, document_id || '/')
+    AND position('/' IN substring(objects.name FROM length(document_id) + 2)) = 0;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.list_recorded_audio(text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.list_recorded_audio(text) TO service_role;
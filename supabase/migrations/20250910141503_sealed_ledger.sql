@@ -0,0 +1,22 @@
+/*
+  # Store checked answers from the server only
+
+  1. Security
+    - Student profile owners can no longer insert or update `worksheet_answers`,
+      so `is_correct` cannot be set from the client
+      - The `check-answer` edge function checks each answer against its key and
+        stores it with the service role
+    - Student profile owners can still view and delete the answers of their own profiles
+*/
+
+DROP POLICY IF EXISTS "Student profile owners can manage their own worksheet answers" ON public.worksheet_answers;
+
+CREATE POLICY "Student profile owners can view their own worksheet answers"
+ON public.worksheet_answers FOR SELECT
+USING (is_student_profile_owner(student_profile_id));
+
+CREATE POLICY "Student profile owners can delete their own worksheet answers"
+ON public.worksheet_answers FOR DELETE
+USING (is_student_profile_owner(student_profile_id));
+
+REVOKE INSERT, UPDATE ON public.worksheet_answers FROM anon, authenticated;
@@ -0,0 +1,101 @@
+/*
+  # Record unlocked regions on the server
+
+  1. New Tables
+    - `region_unlocks` - The regions each student profile has opened, which
+      `render-protected-page` renders as full-resolution tiles on DRM-protected pages
+      - Replaces reading `worksheet_progress`, which clients write directly
+      - Filled from the existing region progress, so students keep what they unlocked
+
+  2. New Functions
+    - `unlock_region(student_profile_id, region_id)` - Records that a profile opened a
+      region; the app calls it when a region is opened
+      - Only for the caller's own student profiles
+      - Returns the time the region was first unlocked
+
+  3. Security
+    - Enable RLS on `region_unlocks`; clients can only read their own profiles' rows,
+      and only `unlock_region` adds them
+    - This keeps unlocks out of client-written progress, but a signed-in user can still
+      call `unlock_region` for every region, so it remains a deterrent: `unlocked_at`
+      lets admins spot profiles that unlock a whole worksheet at once
+*/
+
+CREATE TABLE IF NOT EXISTS public.region_unlocks (
+    student_profile_id UUID NOT NULL REFERENCES public.student_profiles(id) ON DELETE CASCADE,
+    worksheet_id TEXT NOT NULL,
+    page_number INTEGER NOT NULL CHECK (page_number > 0),
+    region_id TEXT NOT NULL,
+    unlocked_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+
+    PRIMARY KEY (student_profile_id, region_id)
+);
+
+-- Add indexes for performance
+CREATE INDEX IF NOT EXISTS idx_region_unlocks_page
+    ON public.region_unlocks (student_profile_id, worksheet_id, page_number);
+
+-- Enable RLS and create policies
+ALTER TABLE public.region_unlocks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Student profile owners can view their own region unlocks"
+ON public.region_unlocks FOR SELECT
+USING (is_student_profile_owner(student_profile_id));
+
+CREATE POLICY "Admins can view all region unlocks"
+ON public.region_unlocks FOR SELECT
+USING (is_admin(auth.uid()));
+
+REVOKE INSERT, UPDATE, DELETE ON public.region_unlocks FROM anon, authenticated;
+
+-- Keep what students have already unlocked
+INSERT INTO public.region_unlocks (student_profile_id, worksheet_id, page_number, region_id, unlocked_at)
+SELECT progress.student_profile_id, progress.worksheet_id, progress.page_number, progress.item_key, MIN(progress.created_at)
+FROM public.worksheet_progress progress
+JOIN public.document_regions regions
+    ON regions.id::text = progress.item_key
+    AND regions.document_id::text = progress.worksheet_id
+    AND regions.page = progress.page_number
+WHERE progress.item_type = 'region'
+GROUP BY progress.student_profile_id, progress.worksheet_id, progress.page_number, progress.item_key
+ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.unlock_region(student_profile_id uuid, region_id text)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    region_worksheet_id TEXT;
+    region_page_number INTEGER;
+    first_unlocked_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+    IF NOT public.is_student_profile_owner(unlock_region.student_profile_id) THEN
+        RAISE EXCEPTION 'Student profile not found';
+    END IF;
+
+    SELECT regions.document_id::text, regions.page
+    INTO region_worksheet_id, region_page_number
+    FROM public.document_regions regions
+    WHERE regions.id::text = unlock_region.region_id;
+
+    IF region_worksheet_id IS NULL THEN
+        RAISE EXCEPTION 'Region not found';
+    END IF;
+
+    INSERT INTO public.region_unlocks (student_profile_id, worksheet_id, page_number, region_id)
+    VALUES (unlock_region.student_profile_id, region_worksheet_id, region_page_number, unlock_region.region_id)
+    ON CONFLICT DO NOTHING;
+
+    SELECT unlocks.unlocked_at INTO first_unlocked_at
+    FROM public.region_unlocks unlocks
+    WHERE unlocks.student_profile_id = unlock_region.student_profile_id
+    AND unlocks.region_id = unlock_region.region_id;
+
+    RETURN first_unlocked_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.unlock_region(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.unlock_region(uuid, text) TO authenticated;